@@ -0,0 +1,7 @@
+import ActionsBoard from "@/components/ActionsBoard"
+
+export const metadata = { title: "My actions · ESGsmart" }
+
+export default function ActionsPage() {
+  return <ActionsBoard />
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server"
+import { deleteAnalysis, isAnalysisStatus, loadAnalysis, updateAnalysis, type AnalysisRecord } from "@/lib/analyses"
+import { isValidPdfId } from "@/lib/chat-memory"
+import { isLens } from "@/lib/frameworks"
+import { isSectorId } from "@/lib/sectors"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/**
+ * GET    /api/databricks/analyses/[pdfId] — one history entry
+ * PATCH  /api/databricks/analyses/[pdfId] — update its status, framework lens, sector override or peer group ({ status?, lens?, sector?, peerGroup? })
+ * DELETE /api/databricks/analyses/[pdfId] — remove it from history (artifacts are kept)
+ */
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { pdfId: string } }
+) {
+  try {
+    const pdfId = params?.pdfId
+    if (!isValidPdfId(pdfId)) {
+      return NextResponse.json({ error: "Invalid pdfId" }, { status: 400 })
+    }
+    const analysis = await loadAnalysis(pdfId)
+    if (!analysis) return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    return NextResponse.json({ ok: true, analysis }, { headers: { "Cache-Control": "no-store" } })
+  } catch (err: any) {
+    console.error("[analyses] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to load analysis" }, { status: 500 })
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { pdfId: string } }
+) {
+  try {
+    const pdfId = params?.pdfId
+    if (!isValidPdfId(pdfId)) {
+      return NextResponse.json({ error: "Invalid pdfId" }, { status: 400 })
+    }
+    const body = await req.json().catch(() => ({}))
+    const patch: Partial<AnalysisRecord> = {}
+    if (body?.status !== undefined) {
+      if (!isAnalysisStatus(body.status)) return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+      patch.status = body.status
+    }
+    if (body?.lens !== undefined) {
+      if (body.lens !== null && !isLens(body.lens)) return NextResponse.json({ error: "Invalid lens" }, { status: 400 })
+      patch.lens = body.lens ? { framework: body.lens.framework, overlay: body.lens.overlay } : null
+    }
+    if (body?.sector !== undefined) {
+      if (body.sector !== null && !isSectorId(body.sector)) return NextResponse.json({ error: "Invalid sector" }, { status: 400 })
+      patch.sector = body.sector
+    }
+    if (body?.peerGroup !== undefined) {
+      if (body.peerGroup !== null && (typeof body.peerGroup !== "string" || !body.peerGroup || body.peerGroup.length > 64)) {
+        return NextResponse.json({ error: "Invalid peerGroup" }, { status: 400 })
+      }
+      patch.peerGroup = body.peerGroup
+    }
+    if (!Object.keys(patch).length) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 })
+    }
+    const analysis = await updateAnalysis(pdfId, patch)
+    if (!analysis) return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    return NextResponse.json({ ok: true, analysis })
+  } catch (err: any) {
+    console.error("[analyses] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to update analysis" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { pdfId: string } }
+) {
+  try {
+    const pdfId = params?.pdfId
+    if (!isValidPdfId(pdfId)) {
+      return NextResponse.json({ error: "Invalid pdfId" }, { status: 400 })
+    }
+    await deleteAnalysis(pdfId)
+    return NextResponse.json({ ok: true })
+  } catch (err: any) {
+    console.error("[analyses] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to delete analysis" }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server"
+import { listAnalyses } from "@/lib/analyses"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/databricks/analyses?limit=<optional>
+ *
+ * Previously uploaded reports, most recent first.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const limit = Math.min(Math.max(Number(req.nextUrl.searchParams.get("limit")) || 50, 1), 200)
+    const analyses = await listAnalyses(limit)
+    return NextResponse.json({ ok: true, analyses }, { headers: { "Cache-Control": "no-store" } })
+  } catch (err: any) {
+    console.error("[analyses] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to list analyses" }, { status: 500 })
+  }
+}
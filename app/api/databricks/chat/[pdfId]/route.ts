@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server"
+import { deleteConversation, isValidPdfId, loadConversation } from "@/lib/chat-memory"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/**
+ * GET    /api/databricks/chat/[pdfId] — persisted conversation for a report
+ * DELETE /api/databricks/chat/[pdfId] — clear it ("New chat")
+ */
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { pdfId: string } }
+) {
+  try {
+    const pdfId = params?.pdfId
+    if (!isValidPdfId(pdfId)) {
+      return NextResponse.json({ error: "Invalid pdfId" }, { status: 400 })
+    }
+    const conv = await loadConversation(pdfId)
+    return NextResponse.json(
+      { ok: true, pdfId, messages: conv.turns, summary: conv.summary, updatedAt: conv.updatedAt },
+      { headers: { "Cache-Control": "no-store" } }
+    )
+  } catch (err: any) {
+    console.error("[chat-history] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to load conversation" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { pdfId: string } }
+) {
+  try {
+    const pdfId = params?.pdfId
+    if (!isValidPdfId(pdfId)) {
+      return NextResponse.json({ error: "Invalid pdfId" }, { status: 400 })
+    }
+    await deleteConversation(pdfId)
+    return NextResponse.json({ ok: true })
+  } catch (err: any) {
+    console.error("[chat-history] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to clear conversation" }, { status: 500 })
+  }
+}
@@ -1,4 +1,26 @@
 import { NextRequest, NextResponse } from "next/server"
+import {
+  fitHistory,
+  isValidPdfId,
+  loadConversation,
+  emptyConversation,
+  sanitizeTurns,
+  saveConversation,
+  type ChatTurn,
+  type Conversation,
+} from "@/lib/chat-memory"
+import { asFrac, companyVsPeers, peerSets, peerStatsLine } from "@/lib/benchmark"
+import { buildCitations } from "@/lib/citations"
+import { isLens, lensName, severityByCategory, severityLegend, type Lens } from "@/lib/frameworks"
+import { loadPageIndex } from "@/lib/page-index"
+import { intensityLines } from "@/lib/intensity"
+import { ambitionGapLines } from "@/lib/pathways"
+import { reportClient, withPeerGroup, type PeerGroup } from "@/lib/peer-groups"
+import { findPeerGroup } from "@/lib/peer-group-store"
+import { retrievePassages, type ScoredPassage } from "@/lib/retrieval"
+import { scope3Summary } from "@/lib/scope3"
+import { isSectorId, resolveSector, sectorBenchmark, sectorLens, type ResolvedSector } from "@/lib/sectors"
+import { encodeSseEvent, readSseEvents } from "@/lib/sse"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
@@ -9,30 +31,43 @@ function need(name: string) {
   return v
 }
 
-// Shorten text to fit within token limits
-function shortenText(text: string, maxChars: number = 6000): string {
-  if (!text || text.length <= maxChars) return text
-  const head = text.slice(0, Math.floor(maxChars * 0.6))
-  const tail = text.slice(-Math.floor(maxChars * 0.2))
-  const omitted = text.length - head.length - tail.length
-  return `${head}\n\n... [${omitted} chars omitted] ...\n\n${tail}`
+// Retrieved report passages, most relevant first
+function formatPassages(passages: ScoredPassage[]): string {
+  if (!passages.length) return "(no passages of the report matched this question)"
+  return passages
+    .map((p, i) => {
+      const where = [p.page != null ? `p. ${p.page}` : null, p.section].filter(Boolean).join(" — ")
+      return `[${i + 1}]${where ? ` (${where})` : ""}\n${p.text}`
+    })
+    .join("\n\n")
 }
 
 // Build context from summary, benchmark, and gap data
-function buildContextFromData(summary: any, benchmark: any, gap: any[]): string {
+function buildContextFromData(
+  summary: any,
+  benchmark: any,
+  gap: any[],
+  passages: ScoredPassage[],
+  lens: Lens,
+  sector: ResolvedSector,
+  peerGroup: PeerGroup | null
+): string {
   const company = summary?.company_name || summary?.json_schema?.company_name || "Unknown"
   const year = summary?.reporting_year || summary?.json_schema?.reporting_year || "N/A"
-  const sector = summary?.sector || summary?.json_schema?.sector || "Real Estate"
+  const sectorLine = sector.overridden ? `${sector.profile.name} (set by the user)` : sector.extracted || "N/A"
   const country = summary?.main_country || summary?.json_schema?.main_country || "N/A"
   const region = summary?.main_region || summary?.json_schema?.main_region || "N/A"
   
   const scope1 = summary?.scope_1_emissions || summary?.json_schema?.scope_1_emissions || "N/A"
   const scope2 = summary?.scope_2_emissions || summary?.json_schema?.scope_2_emissions || "N/A"
-  const scope3 = summary?.scope_3_emissions || summary?.json_schema?.scope_3_emissions || "N/A"
-
-  // Extract full PDF text if available
-  const pdfText = summary?.pdf_doc || summary?.extracted_text || ""
-  const textSnippet = shortenText(pdfText, 6000)
+  // Top-level fields win; json_schema fills in what they lack
+  const flat = { ...(summary?.json_schema || {}), ...(summary || {}) }
+  const s3 = scope3Summary(flat)
+  const scope3 = s3.total != null ? `${s3.total.toLocaleString()}${s3.unit ? ` ${s3.unit}` : ""}${s3.totalDerived ? " (sum of categories)" : ""}` : "N/A"
+  const scope3Categories = s3.categories
+    .filter((c) => c.status !== "missing")
+    .map((c) => `  - Cat ${c.n} ${c.name}: ${c.status === "reported" ? c.value?.toLocaleString() : "not relevant"}`)
+    .join("\n")
 
   // SBTi data
   const sbtiCompany = benchmark?.company || {}
@@ -41,8 +76,10 @@ function buildContextFromData(summary: any, benchmark: any, gap: any[]): string
   const sbtiBase = sbtiCompany?.sbti_scope_1_2 || "N/A"
   const sbtiTarget = sbtiCompany?.sbti_scope_1_2_target || "N/A"
 
-  const peersCountry = benchmark?.peers_country || []
-  const peersRegion = benchmark?.peers_region || []
+  // The user's peer group, else same-sector peers when there are enough of them
+  const peers = peerGroup ? withPeerGroup(benchmark, peerGroup) : sectorBenchmark(benchmark, sector.profile)
+  const sets = peerSets(peers)
+  const companyFrac = asFrac(sbtiCompany?.sbti_scope_1_2_reduction_pct)
 
   // Gap data
   const topGaps = (gap || []).slice(0, 10).map((g: any) => {
@@ -55,27 +92,41 @@ function buildContextFromData(summary: any, benchmark: any, gap: any[]): string
   const missingCount = (gap || []).filter((g: any) => g.severity === 3).length
   const totalGaps = (gap || []).length
 
+  // Gap counts in the framework lens the user is viewing
+  const legend = severityLegend(lens)
+  const lensCategories = severityByCategory(gap || [], lens, 12)
+    .map((c) => `  - ${c.label}: ${c.total} disclosures, ${c.counts[3] || 0} missing, ${(c.counts[1] || 0) + (c.counts[2] || 0)} partial`)
+    .join("\n")
+
   return `
 DOCUMENT SCOPE
 Company: ${company}
 Year: ${year}
-Sector: ${sector}
+Sector: ${sectorLine}
 Country/Region: ${country}/${region}
 
 KEY NUMBERS
 Scope 1: ${scope1}
 Scope 2: ${scope2}
 Scope 3: ${scope3}
+Scope 3 categories:
+${scope3Categories || "  - No category breakdown reported"}
+Scope 3 categories not reported: ${s3.missing.length ? s3.missing.join(", ") : "none"}
+
+INTENSITY METRICS
+${intensityLines(summary, peers).map((l) => `  - ${l}`).join("\n") || "  - Not computable (needs Scope 1+2, electricity or water with revenue, employees or floor area)"}
 
 SBTi SNAPSHOT
 Target year: ${sbtiYear}
 S1+S2 base: ${sbtiBase}
 S1+S2 target: ${sbtiTarget}
 Reduction: ${sbtiReduction}
+Against SBTi Absolute Contraction pathways:
+${ambitionGapLines(sbtiCompany).map((l) => `  - ${l}`).join("\n") || "  - Not computable (missing base year, target year or base emissions)"}
 
-PEERS SNAPSHOT
-Country peers: ${peersCountry.length} companies
-Regional peers: ${peersRegion.length} companies
+PEERS SNAPSHOT${peerGroup ? ` (custom peer group chosen by the user: "${peerGroup.name}")` : ""}
+${sets.map((p) => `${p.label}: ${p.peers.length} companies`).join("\n")}
+${sets.map((p) => peerStatsLine(`${p.label} S1+2 reductions`, companyVsPeers(companyFrac, p.peers))).join("\n")}
 
 TOP GAPS (SEVERITY DESC, MAX 10)
 ${topGaps || "No gaps data available"}
@@ -84,13 +135,18 @@ MISSING DISCLOSURES
 Total gaps: ${totalGaps}
 Severity 3 (Missing): ${missingCount}
 
-EXTRACTED REPORT TEXT SNIPPET
-${textSnippet}
+FRAMEWORK LENS: ${lensName(lens)}
+Severity scale: ${([0, 1, 2, 3] as const).map((s) => `${s} = ${legend[s]}`).join("; ")}
+${lensCategories || "  (no disclosures fall within this lens)"}
+
+RELEVANT REPORT PASSAGES (RETRIEVED FOR THIS QUESTION)
+${formatPassages(passages)}
 
 ANSWERING INSTRUCTIONS
-- You are an ESG reporting assistant for a Singapore real estate corporation.
-- Answer using the above context.
-- When the user asks about missing disclosures or internal data, refer to the gaps list above.
+- You are an ESG reporting assistant for a Singapore ${sector.profile.persona}.
+- Answer using the above context. The passages are excerpts of the full report selected for this question; rely on them for methodology and detail.
+- After every statement taken from a passage, cite its page as [p. N] (e.g. [p. 42]). Only cite pages shown on the passages; never invent page numbers.
+- When the user asks about missing disclosures or internal data, refer to the gaps list above and describe them in terms of the framework lens.
 - Use standard phrasing: "Available in financial records", "Available in HR records", "Available in operational systems", "Disclosed in sustainability report", or "Not disclosed".
 - If information is not in the context, say so honestly.
 `.trim()
@@ -135,13 +191,204 @@ LLMs used:
 - No client PDFs sent to public APIs - all inference happens within Databricks environment
 `.trim()
 
+const TIMEOUT_MS = 120000 // 120s; for streams this is an idle timeout between chunks
+
+// Handle both OpenAI-like & simple shapes
+function completionText(j: any): string {
+  return (
+    j?.choices?.[0]?.message?.content ??
+    j?.message?.content ??
+    j?.content ??
+    j?.choices?.[0]?.text ??
+    ""
+  )
+}
+
+function deltaText(j: any): string {
+  const d = j?.choices?.[0]?.delta?.content ?? j?.delta?.content ?? j?.choices?.[0]?.text
+  return typeof d === "string" ? d : ""
+}
+
+async function complete(url: string, token: string, payload: any): Promise<string> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS)
+  try {
+    const r = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    })
+    if (!r.ok) throw new Error(`Chat endpoint error ${r.status}: ${(await r.text()).slice(0, 600)}`)
+    return completionText(await r.json())
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+// Condenses older turns (plus any previous summary) into a short running summary
+function summarizer(url: string, token: string) {
+  return async (previousSummary: string | null, turns: ChatTurn[]) => {
+    const transcript = turns
+      .map((t) => `${t.role === "user" ? "User" : "Assistant"}: ${t.content}`)
+      .join("\n\n")
+    const text = await complete(url, token, {
+      messages: [
+        {
+          role: "system",
+          content:
+            "Summarise this conversation between a user and an ESG reporting assistant so it can continue without the full transcript. " +
+            "Keep companies, peers, years, figures, frameworks and any open questions. Use at most 200 words.",
+        },
+        {
+          role: "user",
+          content: `${previousSummary ? `EARLIER SUMMARY\n${previousSummary}\n\n` : ""}TRANSCRIPT\n${transcript}`,
+        },
+      ],
+      temperature: 0,
+      max_tokens: 400,
+    })
+    if (!text.trim()) throw new Error("Empty summary")
+    return text.trim()
+  }
+}
+
+/**
+ * Proxies a streaming completion as SSE:
+ *   data: {"delta":"..."}        — one per upstream chunk
+ *   data: {"done":true, ...}     — completion finished, plus any `finalFields` (e.g. citations)
+ *   event: error / data: {"error":"..."}
+ * Aborting the client request (Stop button) cancels the upstream call.
+ */
+async function streamCompletion(
+  url: string,
+  token: string,
+  payload: any,
+  clientSignal: AbortSignal,
+  opts: {
+    onComplete?: (content: string) => Promise<void>
+    finalFields?: (content: string) => Record<string, unknown>
+  } = {}
+) {
+  const controller = new AbortController()
+  let timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS)
+  const bumpTimeout = () => {
+    clearTimeout(timeoutId)
+    timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS)
+  }
+  clientSignal.addEventListener("abort", () => controller.abort())
+
+  let r: Response
+  try {
+    r = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+      },
+      body: JSON.stringify({ ...payload, stream: true }),
+      signal: controller.signal,
+    })
+  } catch (err: any) {
+    clearTimeout(timeoutId)
+    if (err.name === "AbortError") {
+      return NextResponse.json({ error: "Chat request timed out" }, { status: 504 })
+    }
+    throw err
+  }
+
+  if (!r.ok || !r.body) {
+    clearTimeout(timeoutId)
+    const t = await r.text()
+    return NextResponse.json(
+      { error: `Chat endpoint error ${r.status}: ${t.slice(0, 600)}` },
+      { status: 502 }
+    )
+  }
+
+  const upstream = r.body
+  const isSse = (r.headers.get("content-type") || "").includes("text/event-stream")
+
+  const out = new ReadableStream<Uint8Array>({
+    async start(ctrl) {
+      let full = ""
+      try {
+        if (!isSse) {
+          // Endpoint ignored stream:true — forward the whole completion as one delta
+          full = completionText(await new Response(upstream).json())
+          ctrl.enqueue(encodeSseEvent({ delta: full }))
+        } else {
+          for await (const ev of readSseEvents(upstream)) {
+            bumpTimeout()
+            if (ev.data === "[DONE]") break
+            let j: any
+            try { j = JSON.parse(ev.data) } catch { continue }
+            const delta = deltaText(j)
+            if (!delta) continue
+            full += delta
+            ctrl.enqueue(encodeSseEvent({ delta }))
+          }
+        }
+        ctrl.enqueue(encodeSseEvent({ ...opts.finalFields?.(full), done: true }))
+      } catch (err: any) {
+        const msg = err?.name === "AbortError" ? "Chat request timed out or was stopped" : err?.message || "Stream failed"
+        try { ctrl.enqueue(encodeSseEvent({ error: msg }, "error")) } catch {}
+      } finally {
+        clearTimeout(timeoutId)
+        // Keep partial answers too (Stop button) — the client shows them in history
+        if (full && opts.onComplete) await opts.onComplete(full).catch(() => {})
+        try { ctrl.close() } catch {}
+      }
+    },
+    cancel() {
+      clearTimeout(timeoutId)
+      controller.abort()
+    },
+  })
+
+  return new Response(out, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
+
 export async function POST(req: NextRequest) {
   try {
     const host = need("DATABRICKS_HOST")
     const token = need("DATABRICKS_TOKEN")
 
     const body = await req.json()
-    const { pdfId, messages, temperature, max_tokens, summary, benchmark, gap } = body
+    const { pdfId, messages, temperature, max_tokens, summary, benchmark, gap, stream, lens, sector, peerGroup } = body
+
+    const chatEndpoint = process.env.DATABRICKS_CHAT_ENDPOINT || "databricks-claude-sonnet-4"
+    const servingPath = `/serving-endpoints/${chatEndpoint}/invocations`
+    const url = `${host}${servingPath}`
+
+    // Full conversation from the client; older turns are summarised to fit the budget
+    const turns = sanitizeTurns(messages)
+    if (!turns.length || turns[turns.length - 1].role !== "user") {
+      return NextResponse.json({ error: "messages must end with a user turn" }, { status: 400 })
+    }
+    const persist = isValidPdfId(pdfId)
+    const stored: Conversation = persist ? await loadConversation(pdfId) : emptyConversation("")
+    const history = await fitHistory(stored, turns, summarizer(url, token))
+
+    // Persist the exchange so the chat can be resumed; storage failures never break chat
+    const saveReply = async (reply: string) => {
+      if (!persist) return
+      try {
+        await saveConversation({ ...history.conv, turns: [...turns, { role: "assistant", content: reply }] })
+      } catch (err) {
+        console.warn("[chat] failed to persist conversation:", err)
+      }
+    }
 
     // Build context if data is provided
     let contextMessages: any[] = []
@@ -176,8 +423,31 @@ Avoid variations like "should be in...", "may be in...", or "likely found in..."
     })
 
     // Add document context if available
+    let passages: ScoredPassage[] = []
     if (summary || benchmark || gap) {
-      const docContext = buildContextFromData(summary, benchmark, gap)
+      // Retrieve over the full report text; include the previous question so follow-ups resolve.
+      // Prefer the per-page index written at invoke time so passages carry page numbers.
+      const pdfText = summary?.pdf_doc || summary?.extracted_text || ""
+      const userTurns = turns.filter((t) => t.role === "user")
+      const query = userTurns.slice(-2).map((t) => t.content).join("\n")
+      try {
+        const pageIndex = persist ? await loadPageIndex(pdfId) : null
+        passages = await retrievePassages(pageIndex ? { pages: pageIndex.pages } : { text: pdfText }, query)
+      } catch (err) {
+        console.warn("[chat] retrieval failed:", err)
+      }
+      const resolved = resolveSector(summary, isSectorId(sector) ? sector : null, benchmark?.company)
+      const client = reportClient(summary, benchmark)
+      const group = client && typeof peerGroup === "string" && peerGroup ? await findPeerGroup(client, peerGroup) : null
+      const docContext = buildContextFromData(
+        summary,
+        benchmark,
+        gap,
+        passages,
+        isLens(lens) ? lens : sectorLens(resolved.profile),
+        resolved,
+        group
+      )
       contextMessages.push({
         role: "system",
         content: docContext
@@ -191,7 +461,7 @@ Avoid variations like "should be in...", "may be in...", or "likely found in..."
     })
 
     // Check if this is a regulatory question
-    const lastUserMessage = messages[messages.length - 1]?.content?.toLowerCase() || ""
+    const lastUserMessage = turns[turns.length - 1].content.toLowerCase()
     const isRegulatoryQuestion = /sgx|711a|711b|issb|ifrs s1|ifrs s2|mandatory|comply or explain|regulation|listing rule|does singapore|is it required|mandate|law|rules/.test(lastUserMessage)
 
     if (isRegulatoryQuestion) {
@@ -201,16 +471,31 @@ Avoid variations like "should be in...", "may be in...", or "likely found in..."
       })
     }
 
-    // Add user messages
-    contextMessages.push(...messages)
+    // Add conversation history
+    if (history.summary) {
+      contextMessages.push({
+        role: "system",
+        content: `EARLIER CONVERSATION SUMMARY\n${history.summary}`
+      })
+    }
+    contextMessages.push(...history.recent)
 
     // Call Databricks chat endpoint
-    const chatEndpoint = process.env.DATABRICKS_CHAT_ENDPOINT || "databricks-claude-sonnet-4"
-    const servingPath = `/serving-endpoints/${chatEndpoint}/invocations`
-    const url = `${host}${servingPath}`
+    const payload = {
+      messages: contextMessages,
+      temperature: temperature ?? 0.1,
+      max_tokens: max_tokens ?? 1200,
+    }
+
+    if (stream) {
+      return streamCompletion(url, token, payload, req.signal, {
+        onComplete: saveReply,
+        finalFields: (content) => ({ citations: buildCitations(content, passages) }),
+      })
+    }
 
     const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 120000) // 120s timeout
+    const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS)
 
     try {
       const r = await fetch(url, {
@@ -219,11 +504,7 @@ Avoid variations like "should be in...", "may be in...", or "likely found in..."
           Authorization: `Bearer ${token}`,
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({
-          messages: contextMessages,
-          temperature: temperature ?? 0.1,
-          max_tokens: max_tokens ?? 1200,
-        }),
+        body: JSON.stringify(payload),
         signal: controller.signal,
       })
 
@@ -237,17 +518,10 @@ Avoid variations like "should be in...", "may be in...", or "likely found in..."
         )
       }
 
-      const j = await r.json()
-
-      // Handle both OpenAI-like & simple shapes
-      const content =
-        j?.choices?.[0]?.message?.content ??
-        j?.message?.content ??
-        j?.content ??
-        j?.choices?.[0]?.text ??
-        ""
+      const content = completionText(await r.json())
+      if (content) await saveReply(content)
 
-      return NextResponse.json({ ok: true, content })
+      return NextResponse.json({ ok: true, content, citations: buildCitations(content, passages) })
     } catch (err: any) {
       clearTimeout(timeoutId)
       if (err.name === "AbortError") {
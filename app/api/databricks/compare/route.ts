@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server"
+import { loadAnalysis } from "@/lib/analyses"
+import { loadArtifacts } from "@/lib/artifacts"
+import { isValidPdfId } from "@/lib/chat-memory"
+import { compareAnalyses } from "@/lib/compare"
+import { getStorage } from "@/lib/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/databricks/compare?a=<pdfId>&b=<pdfId>
+ *
+ * Year-over-year comparison of two analysed reports (see lib/compare). Both
+ * need their summary, benchmark and gap artifacts; batch paths come from the
+ * analysis history.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const a = req.nextUrl.searchParams.get("a")
+    const b = req.nextUrl.searchParams.get("b")
+    if (!isValidPdfId(a) || !isValidPdfId(b)) {
+      return NextResponse.json({ error: "Pass two pdfIds as ?a=&b=" }, { status: 400 })
+    }
+    if (a === b) {
+      return NextResponse.json({ error: "Pick two different reports" }, { status: 400 })
+    }
+
+    const storage = getStorage()
+    const load = async (pdfId: string) => {
+      const record = await loadAnalysis(pdfId)
+      const artifacts = await loadArtifacts(storage, pdfId, record?.batchPath ?? null)
+      return { pdfId, record, ...artifacts }
+    }
+    const [first, second] = await Promise.all([load(a), load(b)])
+
+    const notReady = [first, second].filter((x) => !x.ready.all).map((x) => x.pdfId)
+    if (notReady.length) {
+      return NextResponse.json(
+        { error: `Analysis not ready for ${notReady.join(", ")}`, notReady },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { ok: true, comparison: compareAnalyses(first, second) },
+      { headers: { "Cache-Control": "no-store" } }
+    )
+  } catch (err: any) {
+    console.error("[compare] error:", err)
+    return NextResponse.json({ error: err?.message || "Comparison failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { findEvidence } from "@/lib/evidence"
+import { loadPageIndex } from "@/lib/page-index"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/**
+ * POST /api/databricks/evidence/[pdfId]
+ * Body: { row: <gap row> }
+ *
+ * Returns the report passage that justified the row's framework/sector status:
+ *   { ok:true, found:true, evidence:{ page, text, section, score, coverage } }
+ *   { ok:true, found:false }                      — no evidence in the report
+ *   404 { notFound:true }                         — report was never page-indexed
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { pdfId: string } }
+) {
+  try {
+    const pdfId = params?.pdfId
+    if (!pdfId) {
+      return NextResponse.json({ error: "Missing pdfId" }, { status: 400 })
+    }
+    const body = await req.json().catch(() => ({}))
+    if (!body?.row || typeof body.row !== "object") {
+      return NextResponse.json({ error: "Missing row" }, { status: 400 })
+    }
+
+    const index = await loadPageIndex(pdfId)
+    if (!index) {
+      return NextResponse.json(
+        { notFound: true, message: "Page index not found for this report" },
+        { status: 404 }
+      )
+    }
+
+    const evidence = await findEvidence(index.pages, body.row)
+    return NextResponse.json(
+      evidence ? { ok: true, found: true, evidence } : { ok: true, found: false },
+      { headers: { "Cache-Control": "no-store" } }
+    )
+  } catch (err: any) {
+    console.error("[evidence] error:", err)
+    return NextResponse.json(
+      { error: err?.message || "Unexpected server error" },
+      { status: 500 }
+    )
+  }
+}
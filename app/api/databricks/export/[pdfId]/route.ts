@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server"
+import { loadAnalysis } from "@/lib/analyses"
+import { loadArtifacts } from "@/lib/artifacts"
+import { isValidPdfId, loadConversation } from "@/lib/chat-memory"
+import { buildExportSheets, isSheetId, toCsv, toXlsx } from "@/lib/data-export"
+import { renderReportPdf } from "@/lib/pdf-report"
+import { reportClient, withPeerGroup } from "@/lib/peer-groups"
+import { findPeerGroup } from "@/lib/peer-group-store"
+import { resolveSector, sectorBenchmark, sectorLens } from "@/lib/sectors"
+import { getStorage } from "@/lib/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/databricks/export/[pdfId]?batch_path=...&format=pdf|xlsx|csv
+ *
+ * - `pdf` (default): branded PDF of the full analysis (see lib/pdf-report);
+ *   `chat=1` appends the saved chat transcript.
+ * - `xlsx`: one sheet per dataset plus metadata (see lib/data-export).
+ * - `csv`: a single dataset, picked with `sheet=summary|company|peers_country|peers_region|gap|metadata`.
+ *
+ * `batch_path` defaults to the one in the analysis history; the framework lens,
+ * sector override and peer group are always taken from it.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { pdfId: string } }
+) {
+  try {
+    const pdfId = params?.pdfId
+    if (!isValidPdfId(pdfId)) {
+      return NextResponse.json({ error: "Invalid pdfId" }, { status: 400 })
+    }
+    const url = req.nextUrl
+    const format = url.searchParams.get("format") || "pdf"
+    const sheet = url.searchParams.get("sheet")
+    if (!["pdf", "xlsx", "csv"].includes(format)) {
+      return NextResponse.json({ error: "format must be pdf, xlsx or csv" }, { status: 400 })
+    }
+    if (format === "csv" && !isSheetId(sheet)) {
+      return NextResponse.json({ error: "CSV export needs ?sheet=" }, { status: 400 })
+    }
+
+    const record = await loadAnalysis(pdfId)
+    const batchPath = url.searchParams.get("batch_path") || record?.batchPath || null
+
+    const artifacts = await loadArtifacts(getStorage(), pdfId, batchPath)
+    if (!artifacts.ready.summary && !artifacts.ready.benchmark && !artifacts.ready.gap) {
+      return NextResponse.json({ error: "No analysis artifacts found for this report" }, { status: 404 })
+    }
+
+    // Same defaults as the page: lens follows the sector's overlay until one is picked
+    const sector = resolveSector(artifacts.summary, record?.sector, artifacts.benchmark?.company)
+    const lens = record?.lens ?? sectorLens(sector.profile)
+
+    const base = (record?.company || record?.fileName?.replace(/\.pdf$/i, "") || pdfId)
+      .replace(/[^\w.-]+/g, "_")
+      .slice(0, 80)
+    const download = (body: BodyInit, type: string, name: string) =>
+      new NextResponse(body, {
+        headers: {
+          "Content-Type": type,
+          "Content-Disposition": `attachment; filename="${name}"`,
+          "Cache-Control": "no-store",
+        },
+      })
+
+    if (format !== "pdf") {
+      const sheets = buildExportSheets({ pdfId, fileName: record?.fileName ?? null, batchPath, artifacts, lens })
+      if (format === "csv") {
+        const data = sheets.find((s) => s.id === sheet)!
+        return download(toCsv(data), "text/csv; charset=utf-8", `${base}_${data.id}.csv`)
+      }
+      return download(
+        await toXlsx(sheets),
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        `${base}_ESGsmart.xlsx`
+      )
+    }
+
+    const withChat = url.searchParams.get("chat") === "1"
+    const transcript = withChat ? (await loadConversation(pdfId)).turns : null
+    const client = reportClient(artifacts.summary, artifacts.benchmark)
+    const peerGroup = client && record?.peerGroup ? await findPeerGroup(client, record.peerGroup) : null
+
+    const pdf = await renderReportPdf({
+      pdfId,
+      fileName: record?.fileName ?? null,
+      summary: artifacts.summary,
+      benchmark: peerGroup ? withPeerGroup(artifacts.benchmark, peerGroup) : sectorBenchmark(artifacts.benchmark, sector.profile),
+      gap: artifacts.gap,
+      transcript,
+      lens,
+      sector: sector.overridden ? sector.profile.name : null,
+    })
+
+    return download(Buffer.from(pdf), "application/pdf", `${base}_ESGsmart.pdf`)
+  } catch (err: any) {
+    console.error("[export] error:", err)
+    return NextResponse.json({ error: err?.message || "Export failed" }, { status: 500 })
+  }
+}
@@ -1,61 +1,22 @@
 import { NextRequest, NextResponse } from "next/server"
+import { getStorage, readJSON } from "@/lib/storage"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
 
-type DbfsReadOk = { data: string }
-
-async function dbfsRead(
-  host: string,
-  token: string,
-  path: string
-): Promise<{ ok: true; json: any } | { ok: false; status: number; body: string }> {
-  const url = `${host.replace(/\/$/, "")}/api/2.0/dbfs/read?path=${encodeURIComponent(path)}`
-  const r = await fetch(url, {
-    headers: { Authorization: `Bearer ${token}` },
-    cache: "no-store",
-  })
-
-  if (!r.ok) {
-    return { ok: false, status: r.status, body: await r.text() }
-  }
-
-  const j = (await r.json()) as DbfsReadOk
-  if (!j?.data) {
-    return { ok: false, status: 500, body: "DBFS read returned no data" }
-  }
-
-  try {
-    const raw = Buffer.from(j.data, "base64").toString("utf8")
-    const parsed = JSON.parse(raw)
-    return { ok: true, json: parsed }
-  } catch (e: any) {
-    return { ok: false, status: 500, body: `Failed to parse JSON: ${e?.message || e}` }
-  }
-}
-
 export async function GET(
   _req: NextRequest,
   { params }: { params: { pdfId: string } }
 ) {
   try {
-    const host = process.env.DATABRICKS_HOST
-    const token = process.env.DATABRICKS_TOKEN
-
-    if (!host || !token) {
-      return NextResponse.json(
-        { error: "Databricks configuration missing (DATABRICKS_HOST / DATABRICKS_TOKEN)" },
-        { status: 400 }
-      )
-    }
-
     const pdfId = params?.pdfId
     if (!pdfId) {
       return NextResponse.json({ error: "Missing pdfId" }, { status: 400 })
     }
 
     const gapDir = process.env.DATABRICKS_GAP_DIR || "dbfs:/tmp/gap_analysis"
-    const baseDir = gapDir.replace(/^dbfs:\//, "").replace(/\/$/, "")
+    const baseDir = gapDir.replace(/\/$/, "")
+    const storage = getStorage()
 
     const candidates = [
       `${baseDir}/severity_${pdfId}.json`,
@@ -69,22 +30,22 @@ export async function GET(
       tried.push(path)
       console.log(`[gap] Trying: ${path}`)
 
-      const res = await dbfsRead(host, token, path)
+      const res = await readJSON(storage, path)
       if (res.ok) {
         console.log(`[gap] ✓ Found: ${path}`)
         return NextResponse.json(
-          { ok: true, artifact: res.json, pathTried: path },
+          { ok: true, artifact: res.data, pathTried: path },
           { status: 200, headers: { "Cache-Control": "no-store" } }
         )
       }
 
       // If it's not a 404, surface the exact error
       if (!res.ok && res.status !== 404) {
-        console.error(`[gap] Error reading ${path}: ${res.body}`)
+        console.error(`[gap] Error reading ${path}: ${res.error}`)
         return NextResponse.json(
           {
-            error: `DBFS read failed ${res.status}`,
-            detail: res.body?.slice(0, 500),
+            error: `Artifact read failed ${res.status}`,
+            detail: res.error?.slice(0, 500),
             pathTried: path,
           },
           { status: res.status }
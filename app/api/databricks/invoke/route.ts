@@ -1,5 +1,11 @@
 import { NextResponse } from "next/server"
 import crypto from "node:crypto"
+import { promises as fs } from "node:fs"
+import { loadAnalysis, resolveContentId, saveAnalysis, saveContentId, type AnalysisRecord } from "@/lib/analyses"
+import { clearArtifacts, loadArtifacts } from "@/lib/artifacts"
+import { extractPdfPages, loadPageIndex, savePageIndex } from "@/lib/page-index"
+import { getStorage } from "@/lib/storage"
+import { discardSpooled, spoolMultipart } from "@/lib/upload-spool"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
@@ -21,6 +27,7 @@ const TARGET_TABLE = () =>
   process.env.DATABRICKS_TARGET_TABLE || "esgsmart.pdf_extraction.report_extractions"
 const BENCHMARK_DIR = () => process.env.DATABRICKS_BENCHMARK_DIR || "dbfs:/tmp/sbti_benchmarks"
 const DBFS_BASE = () => process.env.DATABRICKS_DBFS_BASE || "dbfs:/tmp/pdf_extractions"
+const MAX_UPLOAD_BYTES = () => (Number(process.env.MAX_UPLOAD_MB) || 100) * 1024 * 1024
 
 /* ==== Helpers ==== */
 function dbxHeadersJSON() {
@@ -65,6 +72,43 @@ function extractPdfId(row: any, fallback: string) {
   )
 }
 
+type UploadBody = { pdfName: string | null; pdfBuf: Buffer; force: boolean }
+
+/**
+ * Accepts `multipart/form-data` (field `file`, optional `force`) from the UI, or
+ * the older JSON body `{ pdfName, pdfBytes: <base64>, force }`.
+ */
+async function readUpload(req: Request, url: URL): Promise<UploadBody | { error: string; status: number }> {
+  const maxBytes = MAX_UPLOAD_BYTES()
+  const tooLarge = { error: `PDF file too large. Maximum size is ${Math.round(maxBytes / 1024 / 1024)}MB.`, status: 413 }
+  const queryForce = url.searchParams.get("force") === "1"
+
+  if ((req.headers.get("content-type") || "").startsWith("multipart/form-data")) {
+    // Reject before reading the body; allow for multipart framing around the file
+    const declared = Number(req.headers.get("content-length") || 0)
+    if (declared > maxBytes + 64 * 1024) return tooLarge
+    // Stream the file to a temp file rather than buffering the multipart body, then read it once
+    const spooled = await spoolMultipart(req, "file", maxBytes)
+    if (!spooled.ok) return spooled.reason === "too-large" ? tooLarge : { error: "Missing file", status: 400 }
+    try {
+      return {
+        pdfName: spooled.file.name,
+        pdfBuf: await fs.readFile(spooled.file.path),
+        force: spooled.file.fields.force === "true" || queryForce,
+      }
+    } finally {
+      await discardSpooled(spooled.file.path)
+    }
+  }
+
+  const body = await req.json().catch(() => ({}))
+  const { pdfName, pdfBytes } = body as { pdfName?: string; pdfBytes?: string }
+  if (!pdfBytes) return { error: "Missing pdfBytes (base64)", status: 400 }
+  const pdfBuf = Buffer.from(pdfBytes, "base64")
+  if (pdfBuf.length > maxBytes) return tooLarge
+  return { pdfName: pdfName ?? null, pdfBuf, force: body?.force === true || queryForce }
+}
+
 /* ==== Databricks calls ==== */
 async function callServing(records: any[]) {
   const url = `${DATABRICKS_HOST()}/serving-endpoints/${ENDPOINT_NAME()}/invocations`
@@ -77,21 +121,6 @@ async function callServing(records: any[]) {
   return (await r.json()) as PredictionsBody
 }
 
-async function dbfsPutText(targetPath: string, text: string) {
-  const url = `${DATABRICKS_HOST()}/api/2.0/dbfs/put`
-  const body = {
-    path: targetPath,
-    overwrite: true,
-    contents: Buffer.from(text, "utf8").toString("base64"),
-  }
-  const r = await fetch(url, {
-    method: "POST",
-    headers: dbxHeadersJSON(),
-    body: JSON.stringify(body),
-  })
-  if (!r.ok) throw new Error(`DBFS put failed ${r.status}: ${await r.text()}`)
-}
-
 async function runMergeJob(batchPath: string) {
   const jobId = JOB_ID()
   if (!jobId) return { run_id: null }
@@ -114,7 +143,28 @@ async function runMergeJob(batchPath: string) {
   return (await r.json()) as { run_id: number }
 }
 
+/* ==== Cache ==== */
+// A report whose summary, benchmark and gap all exist. Records are keyed by the
+// pdfId serving resolved, so the content-hash id is mapped to it first.
+async function findCachedAnalysis(contentId: string) {
+  const pdfId = (await resolveContentId(contentId)) ?? contentId
+  const record = await loadAnalysis(pdfId)
+  if (!record?.batchPath) return null
+  const artifacts = await loadArtifacts(getStorage(), record.pdfId, record.batchPath)
+  return artifacts.ready.all ? { record, artifacts } : null
+}
+
+// The per-analysis view settings, returned so the UI matches what export renders
+function recordSettings(record: AnalysisRecord | null) {
+  return { lens: record?.lens ?? null, sector: record?.sector ?? null, peerGroup: record?.peerGroup ?? null }
+}
+
 /* ==== Route ==== */
+// Upload limits for the UI, so the size check lives in one place (MAX_UPLOAD_MB)
+export async function GET() {
+  return NextResponse.json({ ok: true, maxUploadBytes: MAX_UPLOAD_BYTES() })
+}
+
 export async function POST(req: Request) {
   try {
     const url = new URL(req.url)
@@ -122,22 +172,47 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: true, msg: "invoke route mounted" })
     }
 
-    const body = await req.json().catch(() => ({}))
-    const { pdfName, pdfBytes } = body as { pdfName?: string; pdfBytes?: string }
-    if (!pdfBytes) {
-      return NextResponse.json(
-        { ok: false, error: "Missing pdfBytes (base64)" },
-        { status: 400 }
-      )
+    const upload = await readUpload(req, url)
+    if ("error" in upload) {
+      return NextResponse.json({ ok: false, error: upload.error }, { status: upload.status })
     }
-
-    const pdfBuf = Buffer.from(pdfBytes, "base64")
+    const { pdfName, pdfBuf, force } = upload
 
     // 1) Extract text & ids
     const text = await pdfBytesToText(pdfBuf)
     const textHash = sha256(text || pdfBuf)
     const pdfId = `pdf_${textHash.slice(0, 16)}`
 
+    // 1b) Same text analysed before: return the stored artifacts (skipped with `force`)
+    if (!force) {
+      const cached = await findCachedAnalysis(pdfId).catch((err) => {
+        console.warn("[invoke] cache lookup failed:", err)
+        return null
+      })
+      if (cached) {
+        const { record, artifacts } = cached
+        try {
+          if (!(await loadPageIndex(record.pdfId))) await savePageIndex(record.pdfId, await extractPdfPages(pdfBuf))
+          await saveAnalysis({ ...record, fileName: pdfName ?? record.fileName, status: "ready" })
+        } catch (err) {
+          console.warn("[invoke] cache refresh failed:", err)
+        }
+        return NextResponse.json({
+          ok: true,
+          cached: true,
+          pdfId: record.pdfId,
+          batchPath: record.batchPath,
+          runId: record.runId,
+          ready: artifacts.ready,
+          summary: artifacts.summary,
+          benchmark: artifacts.benchmark,
+          gap: artifacts.gap,
+          ...recordSettings(record),
+          debug: { name: pdfName ?? null, hash: textHash, computedPdfId: pdfId, resolvedPdfId: record.pdfId },
+        })
+      }
+    }
+
     // 2) Hit serving endpoint
     const records = [
       { pdf_id: pdfId, pdf_doc: text, text_sha256: textHash, company_name: null },
@@ -146,7 +221,10 @@ export async function POST(req: Request) {
     const row = first(servingResp)
     const resolvedPdfId = String(extractPdfId(row, pdfId))
 
-    // 3) Write predictions NDJSON to DBFS
+    // 2b) Re-analysis keeps the pdfId: drop the last run's benchmark and gap so polling waits for the new ones
+    if (force) await clearArtifacts(getStorage(), resolvedPdfId)
+
+    // 3) Write predictions NDJSON to artifact storage
     const ndjson = Array.isArray((servingResp as any).predictions)
       ? (servingResp as any).predictions.map((r: any) => JSON.stringify(r)).join("\n")
       : Array.isArray(servingResp)
@@ -155,16 +233,46 @@ export async function POST(req: Request) {
 
     const day = new Date().toISOString().slice(0, 10)
     const batchPath = `${DBFS_BASE().replace(/\/$/, "")}/${day}/batch_${crypto.randomUUID()}.json`
-    await dbfsPutText(batchPath, ndjson)
+    await getStorage().write(batchPath, ndjson)
+
+    // 3b) Index report text per page for cited chat answers (best effort)
+    try {
+      await savePageIndex(resolvedPdfId, await extractPdfPages(pdfBuf))
+    } catch (err) {
+      console.warn("[invoke] page indexing failed:", err)
+    }
 
     // 4) Trigger MERGE + benchmarking job (fire-and-forget)
     const run = await runMergeJob(batchPath)
 
+    // 5) Record in analysis history (best effort); a re-analysis keeps the record's lens, sector and peer group
+    const now = new Date().toISOString()
+    let previous: AnalysisRecord | null = null
+    try {
+      previous = await loadAnalysis(resolvedPdfId)
+      await saveAnalysis({
+        ...previous,
+        pdfId: resolvedPdfId,
+        fileName: pdfName ?? null,
+        company: row?.company_name || null,
+        uploadedAt: now,
+        batchPath,
+        runId: run?.run_id ?? null,
+        status: "processing",
+        updatedAt: now,
+      })
+      if (resolvedPdfId !== pdfId) await saveContentId(pdfId, resolvedPdfId)
+    } catch (err) {
+      console.warn("[invoke] history write failed:", err)
+    }
+
     return NextResponse.json({
       ok: true,
+      cached: false,
       pdfId: resolvedPdfId,
       batchPath,
       runId: run?.run_id ?? null,
+      ...recordSettings(previous),
       debug: {
         name: pdfName ?? null,
         hash: textHash,
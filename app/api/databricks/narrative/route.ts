@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { checkPolished, draftFor, isBenchmarkFacts, isGapFacts, type NarrativeKind } from "@/lib/narrative"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const TIMEOUT_MS = 60000
+
+function need(name: string) {
+  const v = process.env[name]
+  if (!v) throw new Error(`Missing env ${name}`)
+  return v
+}
+
+const SYSTEM_PROMPT =
+  "You rewrite short ESG analysis paragraphs so they read naturally for an executive audience. " +
+  "Keep every figure, percentage, year and category name exactly as given; do not add numbers, comparisons or claims " +
+  "that are not in the text. Keep roughly the same length. Reply with the rewritten text only."
+
+/**
+ * POST /api/databricks/narrative  { kind: "gap" | "benchmark", facts }
+ *
+ * Returns an LLM-polished version of the templated narrative for `facts`
+ * (see lib/narrative). The rewrite is checked against the facts; when it
+ * adds or drops figures or flips the peer comparison, the templated draft
+ * is returned instead with `polished: false` and the `issues` found.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const kind = body?.kind as NarrativeKind
+    const facts = body?.facts
+    if (kind === "gap" ? !isGapFacts(facts) : kind === "benchmark" ? !isBenchmarkFacts(facts) : true) {
+      return NextResponse.json({ error: "Expected { kind: \"gap\" | \"benchmark\", facts }" }, { status: 400 })
+    }
+
+    const host = need("DATABRICKS_HOST")
+    const token = need("DATABRICKS_TOKEN")
+    const endpoint = process.env.DATABRICKS_CHAT_ENDPOINT || "databricks-claude-sonnet-4"
+    const draft = draftFor(kind, facts)
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS)
+    let polished = ""
+    try {
+      const r = await fetch(`${host}/serving-endpoints/${endpoint}/invocations`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          messages: [
+            { role: "system", content: SYSTEM_PROMPT },
+            { role: "user", content: draft },
+          ],
+          temperature: 0.3,
+          max_tokens: 500,
+        }),
+        signal: controller.signal,
+      })
+      if (!r.ok) throw new Error(`Chat endpoint error ${r.status}: ${(await r.text()).slice(0, 600)}`)
+      const j = await r.json()
+      polished = String(j?.choices?.[0]?.message?.content ?? j?.message?.content ?? j?.content ?? "").trim()
+    } finally {
+      clearTimeout(timeoutId)
+    }
+
+    const issues = checkPolished(kind, facts, draft, polished)
+    if (issues.length) console.warn(`[narrative] rejected ${kind} rewrite: ${issues.join("; ")}`)
+    return NextResponse.json({
+      ok: true,
+      text: issues.length ? draft : polished,
+      polished: issues.length === 0,
+      issues,
+    })
+  } catch (err: any) {
+    console.error("[narrative] error:", err)
+    return NextResponse.json({ error: err?.message || "Narrative failed" }, { status: 500 })
+  }
+}
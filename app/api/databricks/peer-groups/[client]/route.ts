@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server"
+import { isClientKey, sanitizePeerGroup } from "@/lib/peer-groups"
+import { addPeerGroup, deletePeerGroup, loadPeerGroups } from "@/lib/peer-group-store"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/**
+ * GET    /api/databricks/peer-groups/[client]         — saved peer groups for one client (see `clientKey`)
+ * POST   /api/databricks/peer-groups/[client]         — save one ({ name, filter, companies })
+ * DELETE /api/databricks/peer-groups/[client]?id=...  — remove one
+ */
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { client: string } }
+) {
+  try {
+    const client = params?.client
+    if (!isClientKey(client)) {
+      return NextResponse.json({ error: "Invalid client" }, { status: 400 })
+    }
+    const groups = await loadPeerGroups(client)
+    return NextResponse.json({ ok: true, groups }, { headers: { "Cache-Control": "no-store" } })
+  } catch (err: any) {
+    console.error("[peer-groups] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to load peer groups" }, { status: 500 })
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { client: string } }
+) {
+  try {
+    const client = params?.client
+    if (!isClientKey(client)) {
+      return NextResponse.json({ error: "Invalid client" }, { status: 400 })
+    }
+    const body = await req.json().catch(() => null)
+    const parsed = sanitizePeerGroup(body)
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+    const group = await addPeerGroup(client, parsed.group)
+    return NextResponse.json({ ok: true, group })
+  } catch (err: any) {
+    console.error("[peer-groups] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to save peer group" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { client: string } }
+) {
+  try {
+    const client = params?.client
+    if (!isClientKey(client)) {
+      return NextResponse.json({ error: "Invalid client" }, { status: 400 })
+    }
+    const id = req.nextUrl.searchParams.get("id") || ""
+    if (!id) return NextResponse.json({ error: "Missing id" }, { status: 400 })
+    const removed = await deletePeerGroup(client, id)
+    if (!removed) return NextResponse.json({ error: "Peer group not found" }, { status: 404 })
+    return NextResponse.json({ ok: true })
+  } catch (err: any) {
+    console.error("[peer-groups] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to delete peer group" }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import { isValidPdfId } from "@/lib/chat-memory"
+import { sanitizePatch } from "@/lib/remediation"
+import { loadRemediation, updateRemediation } from "@/lib/remediation-store"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/**
+ * GET   /api/databricks/remediation/[pdfId] — tracked items for one report, keyed by framework_question_code
+ * PATCH /api/databricks/remediation/[pdfId] — update one item ({ code, assignee?, status?, dueDate?, notes? })
+ */
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { pdfId: string } }
+) {
+  try {
+    const pdfId = params?.pdfId
+    if (!isValidPdfId(pdfId)) {
+      return NextResponse.json({ error: "Invalid pdfId" }, { status: 400 })
+    }
+    const items = await loadRemediation(pdfId)
+    return NextResponse.json({ ok: true, items }, { headers: { "Cache-Control": "no-store" } })
+  } catch (err: any) {
+    console.error("[remediation] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to load remediation" }, { status: 500 })
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { pdfId: string } }
+) {
+  try {
+    const pdfId = params?.pdfId
+    if (!isValidPdfId(pdfId)) {
+      return NextResponse.json({ error: "Invalid pdfId" }, { status: 400 })
+    }
+    const body = await req.json().catch(() => null)
+    const code = typeof body?.code === "string" ? body.code.trim() : ""
+    if (!code || code.length > 200) {
+      return NextResponse.json({ error: "Missing framework_question_code (code)" }, { status: 400 })
+    }
+    const parsed = sanitizePatch(body)
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+    const item = await updateRemediation(pdfId, code, parsed.patch)
+    return NextResponse.json({ ok: true, item })
+  } catch (err: any) {
+    console.error("[remediation] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to update remediation" }, { status: 500 })
+  }
+}
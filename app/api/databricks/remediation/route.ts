@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server"
+import { isRemediationStatus } from "@/lib/remediation"
+import { listActions } from "@/lib/remediation-store"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/databricks/remediation?assignee=<optional>&status=<optional>
+ *
+ * Tracked gap actions across all analysed reports (the "My actions" board).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const assignee = req.nextUrl.searchParams.get("assignee")
+    const status = req.nextUrl.searchParams.get("status")
+    if (status && !isRemediationStatus(status)) {
+      return NextResponse.json({ error: "Unknown status" }, { status: 400 })
+    }
+    const actions = (await listActions({ assignee })).filter((a) => !status || a.status === status)
+    return NextResponse.json({ ok: true, actions }, { headers: { "Cache-Control": "no-store" } })
+  } catch (err: any) {
+    console.error("[remediation] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to list actions" }, { status: 500 })
+  }
+}
@@ -13,14 +13,15 @@ export async function GET(req: NextRequest) {
     const runId = req.nextUrl.searchParams.get("run_id")
     if (!runId) return NextResponse.json({ error: "Missing run_id" }, { status: 400 })
 
-    const url = `${host.replace(/\/+$/,'')}/api/2.1/jobs/runs/get`
+    if (!/^\d+$/.test(runId)) return NextResponse.json({ error: "Invalid run_id" }, { status: 400 })
+
+    // runs/get is a GET endpoint; run_id goes in the query string
+    const url = `${host.replace(/\/+$/,'')}/api/2.1/jobs/runs/get?run_id=${runId}`
     const r = await fetch(url, {
-      method: "POST",
+      method: "GET",
       headers: {
         "Authorization": `Bearer ${token}`,
-        "Content-Type": "application/json",
       },
-      body: JSON.stringify({ run_id: Number(runId) }),
       cache: "no-store",
     })
     const t = await r.text()
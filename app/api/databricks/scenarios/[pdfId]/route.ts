@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server"
+import { isValidPdfId } from "@/lib/chat-memory"
+import { sanitizeScenario } from "@/lib/scenarios"
+import { addScenario, deleteScenario, loadScenarios } from "@/lib/scenario-store"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/**
+ * GET    /api/databricks/scenarios/[pdfId]         — saved what-if targets for one report
+ * POST   /api/databricks/scenarios/[pdfId]         — save one ({ name, baseYear, targetYear, reduction, coverage })
+ * DELETE /api/databricks/scenarios/[pdfId]?id=...  — remove one
+ */
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { pdfId: string } }
+) {
+  try {
+    const pdfId = params?.pdfId
+    if (!isValidPdfId(pdfId)) {
+      return NextResponse.json({ error: "Invalid pdfId" }, { status: 400 })
+    }
+    const scenarios = await loadScenarios(pdfId)
+    return NextResponse.json({ ok: true, scenarios }, { headers: { "Cache-Control": "no-store" } })
+  } catch (err: any) {
+    console.error("[scenarios] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to load scenarios" }, { status: 500 })
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { pdfId: string } }
+) {
+  try {
+    const pdfId = params?.pdfId
+    if (!isValidPdfId(pdfId)) {
+      return NextResponse.json({ error: "Invalid pdfId" }, { status: 400 })
+    }
+    const body = await req.json().catch(() => null)
+    const parsed = sanitizeScenario(body)
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+    const scenario = await addScenario(pdfId, parsed.scenario)
+    return NextResponse.json({ ok: true, scenario })
+  } catch (err: any) {
+    console.error("[scenarios] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to save scenario" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { pdfId: string } }
+) {
+  try {
+    const pdfId = params?.pdfId
+    if (!isValidPdfId(pdfId)) {
+      return NextResponse.json({ error: "Invalid pdfId" }, { status: 400 })
+    }
+    const id = req.nextUrl.searchParams.get("id") || ""
+    if (!id) return NextResponse.json({ error: "Missing id" }, { status: 400 })
+    const removed = await deleteScenario(pdfId, id)
+    if (!removed) return NextResponse.json({ error: "Scenario not found" }, { status: 404 })
+    return NextResponse.json({ ok: true })
+  } catch (err: any) {
+    console.error("[scenarios] error:", err)
+    return NextResponse.json({ error: err?.message || "Failed to delete scenario" }, { status: 500 })
+  }
+}
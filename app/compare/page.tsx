@@ -0,0 +1,7 @@
+import ComparisonView from "@/components/ComparisonView"
+
+export const metadata = { title: "Compare reports · ESGsmart" }
+
+export default function ComparePage({ searchParams }: { searchParams: { a?: string; b?: string } }) {
+  return <ComparisonView initialA={searchParams?.a ?? null} initialB={searchParams?.b ?? null} />
+}
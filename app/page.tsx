@@ -9,42 +9,101 @@ import {
   Target,
   ArrowLeft,
   RefreshCcw,
+  RotateCcw,
+  Square,
+  Download,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import CitedText from "@/components/CitedText"
+import PdfViewer from "@/components/PdfViewer"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { streamChat } from "@/lib/chat-client"
+import type { Citation } from "@/lib/citations"
+import PipelineProgress from "@/components/PipelineProgress"
+import DisclosureGrid from "@/components/DisclosureGrid"
+import RemediationCell from "@/components/RemediationCell"
+import LensPicker from "@/components/LensPicker"
+import SectorPicker from "@/components/SectorPicker"
+import Scope3Breakdown from "@/components/Scope3Breakdown"
+import IntensityMetrics from "@/components/IntensityMetrics"
+import AmbitionGap from "@/components/AmbitionGap"
+import TargetSimulator from "@/components/TargetSimulator"
+import PeerGroupBuilder from "@/components/PeerGroupBuilder"
+import { usePeerGroups } from "@/components/usePeerGroups"
+import PeerDistribution from "@/components/PeerDistribution"
+import Narrative from "@/components/Narrative"
+import AnalysisHistory from "@/components/AnalysisHistory"
+import UploadQueue from "@/components/UploadQueue"
+import { useUploadQueue, type QueueItem } from "@/components/useUploadQueue"
+import type { AnalysisRecord } from "@/lib/analyses"
+import type { SheetId } from "@/lib/data-export"
+import { rollupByCategory, type RemediationItem, type RemediationPatch } from "@/lib/remediation"
+import { emissionsBars, formatNumber, summaryCards, summaryHighlights } from "@/lib/summary"
+import { asFrac, buildPeerDisplay, peerSets, sbtiTrajectory } from "@/lib/benchmark"
+import { scope3Summary } from "@/lib/scope3"
+import { ambitionGaps, pathwayBands, type PathwayBand } from "@/lib/pathways"
+import { scenarioCompany, type TargetScenario } from "@/lib/scenarios"
+import { peerUniverse, reportClient, withPeerGroup } from "@/lib/peer-groups"
+import { countSeverities } from "@/lib/gap"
+import {
+  detectOverlay,
+  getFramework,
+  getOverlay,
+  lensName,
+  rowsInLens,
+  severityByCategory,
+  severityLegend,
+  type Lens,
+} from "@/lib/frameworks"
+import { benchmarkFacts, benchmarkNarrative, gapFacts, gapNarrative } from "@/lib/narrative"
+import { resolveSector, sectorBenchmark, sectorKpis, sectorLens, type SectorId } from "@/lib/sectors"
+import { fetchUploadLimit, uploadForAnalysis, type InvokeResult, type UploadProgress } from "@/lib/upload-client"
+import { buildStages, summarizeRun, type ArtifactReady, type JobRunState } from "@/lib/pipeline"
 
 /* ========================= Config ========================= */
 const POLL_MS = 3000 // poll every 3s until ALL (summary+benchmark+gap) are ready
+const DEFAULT_MAX_UPLOAD_BYTES = 100 * 1024 * 1024 // until the server reports MAX_UPLOAD_MB
+const UPLOAD_CONCURRENCY = Number(process.env.NEXT_PUBLIC_UPLOAD_CONCURRENCY) || 3 // batch uploads in flight at once
+const PIPELINE_DEADLINE_MS = Number(process.env.NEXT_PUBLIC_PIPELINE_DEADLINE_MS) || 20 * 60_000 // then stop polling
+const CSV_SHEETS: Array<[SheetId, string]> = [
+  ["gap", "Full disclosure mapping"],
+  ["peers_country", "Peers (country)"],
+  ["peers_region", "Peers (region)"],
+  ["company", "Company benchmark"],
+  ["summary", "Summary fields"],
+  ["metadata", "Export metadata"],
+]
+// Peer table headings for the default peer sets; a custom group uses its name
+const PEER_TABLE_TITLE: Record<string, string> = { country: "Same Country", region: "Same Region" }
 
 /* ========================= Small utils ========================= */
 type Row = Record<string, any>
-const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n))
-
-function toNumber(v: unknown): number | null {
-  if (v === null || v === undefined) return null
-  const s = String(v).replace(/[, ]+/g, "")
-  const n = Number(s)
-  return Number.isFinite(n) ? n : null
-}
-
-function formatNumber(n: number) {
-  if (!Number.isFinite(n)) return "n/a"
-  const abs = Math.abs(n)
-  if (abs >= 1_000_000_000) return (n / 1_000_000_000).toFixed(1) + "B"
-  if (abs >= 1_000_000) return (n / 1_000_000).toFixed(1) + "M"
-  if (abs >= 1_000) return (n / 1_000).toFixed(1) + "k"
-  return n.toLocaleString()
+type ChatMessage = { role: "user" | "ai"; content: string; citations?: Citation[] }
+type ViewerState = {
+  open: boolean
+  page: number
+  highlight: string | null
+  title: string
+  status: "idle" | "loading" | "found" | "none" | "error"
+  message?: string
 }
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n))
 
-function pick<T = any>(obj: any, keys: string[], def: any = undefined): T {
-  for (const k of keys) {
-    const val = obj?.[k]
-    if (val !== undefined && val !== null) return val as T
-  }
-  return def
-}
+const fmtMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(1)
 
 /* ========================= Loaders / Charts ========================= */
 function IndeterminateBar({ height = 8, rounded = true }: { height?: number; rounded?: boolean }) {
@@ -93,25 +152,30 @@ function TinyBarChart({
 
 function MiniLineChart({
   series,
+  bands = [],
   height = 260,
   padding = 36,
 }: {
   series: Array<{ name: string; points: Array<{ x: number; y: number }> }>
+  bands?: PathwayBand[] // shaded reference corridors drawn under the lines
   height?: number
   padding?: number
 }) {
   const all = series.flatMap((s) => s.points)
+  const bandPts = bands.flatMap((b) => b.points)
   if (!all.length) return <div className="text-sm text-muted-foreground">No data available.</div>
 
   const width = 640
-  const xs = all.map((p) => p.x)
-  const ys = all.map((p) => p.y)
+  const xs = [...all.map((p) => p.x), ...bandPts.map((p) => p.x)]
+  const ys = [...all.map((p) => p.y), ...bandPts.flatMap((p) => [p.lo, p.hi])]
   const minX = Math.min(...xs)
   const maxX = Math.max(...xs)
   const minY = Math.min(...ys)
   const maxY = Math.max(...ys)
   const axisColor = "hsl(var(--muted-foreground))"
-  const colors = ["#3b82f6", "#10b981", "#f59e0b"]
+  const colors = ["#3b82f6", "#10b981", "#f59e0b", "#8b5cf6", "#64748b"]
+  const legendStep = Math.min(170, (width - padding * 2) / Math.max(1, series.length))
+  const bandColors = ["#22c55e", "#eab308"]
 
   const scaleX = (x: number) => (maxX === minX ? padding : padding + ((x - minX) / (maxX - minX)) * (width - padding * 2))
   const scaleY = (y: number) => (maxY === minY ? height - padding : height - padding - ((y - minY) / (maxY - minY)) * (height - padding * 2))
@@ -170,6 +234,20 @@ function MiniLineChart({
             </g>
           ))}
 
+          {/* Reference bands */}
+          {bands.map((b, idx) => {
+            if (!b.points.length) return null
+            const upper = b.points.map((p, i) => `${i === 0 ? "M" : "L"} ${scaleX(p.x).toFixed(2)} ${scaleY(p.hi).toFixed(2)}`).join(" ")
+            const lower = [...b.points].reverse().map((p) => `L ${scaleX(p.x).toFixed(2)} ${scaleY(p.lo).toFixed(2)}`).join(" ")
+            const color = bandColors[idx % bandColors.length]
+            return (
+              <g key={b.id}>
+                <path d={`${upper} ${lower} Z`} fill={color} opacity={0.12} />
+                <path d={upper} fill="none" stroke={color} strokeWidth={1} strokeDasharray="4 3" opacity={0.8} />
+              </g>
+            )
+          })}
+
           {/* Lines */}
           {series.map((s, idx) => {
             if (!s.points.length) return null
@@ -179,7 +257,7 @@ function MiniLineChart({
 
           {/* Legend */}
           {series.map((s, idx) => (
-            <g key={s.name} transform={`translate(${padding + idx * 170}, ${padding - 12})`}>
+            <g key={s.name} transform={`translate(${padding + idx * legendStep}, ${padding - 12})`}>
               <rect width="12" height="12" fill={colors[idx % colors.length]} rx="2" />
               <text x="18" y="11" fontSize="11" fill="hsl(var(--foreground))">{s.name}</text>
             </g>
@@ -213,10 +291,29 @@ function MiniLineChart({
                   <span className="tabular-nums">{formatNumber(Math.round(p.y))}</span>
                 </div>
               ))}
+              {bands.map((b) => {
+                const p = b.points.find((pp) => pp.x === hoverYear)
+                return p ? (
+                  <div key={b.id} className="flex items-center justify-between gap-4 text-muted-foreground">
+                    <span>{b.name}</span>
+                    <span className="tabular-nums">≤ {formatNumber(Math.round(p.hi))}</span>
+                  </div>
+                ) : null
+              })}
             </div>
           </div>
         )}
       </div>
+      {bands.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-4 text-xs text-muted-foreground">
+          {bands.map((b, idx) => (
+            <span key={b.id} className="inline-flex items-center gap-2">
+              <span className="inline-block rounded-[2px]" style={{ width: 10, height: 10, background: bandColors[idx % bandColors.length], opacity: 0.4 }} />
+              {b.name} (SBTi Absolute Contraction)
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -224,6 +321,7 @@ function MiniLineChart({
 /* ========================= Page ========================= */
 export default function ESGsmartPage() {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null)
+  const [reportName, setReportName] = useState<string | null>(null) // uploaded file or reopened history entry
   const [activeTab, setActiveTab] = useState<"summary" | "benchmarking" | "gap">("summary")
 
   // Orchestration
@@ -231,6 +329,8 @@ export default function ESGsmartPage() {
   const [batchPath, setBatchPath] = useState<string | null>(null)
   const [dbxRunId, setDbxRunId] = useState<number | null>(null)
   const [busy, setBusy] = useState(false)
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null)
+  const [maxUploadBytes, setMaxUploadBytes] = useState(DEFAULT_MAX_UPLOAD_BYTES)
   const [errorMsg, setErrorMsg] = useState<string | null>(null)
 
   // Unified payloads
@@ -240,117 +340,285 @@ export default function ESGsmartPage() {
   const [gapData, setGapData] = useState<any | null>(null)
   const [fetching, setFetching] = useState(false)
 
+  // Pipeline progress
+  const [readyFlags, setReadyFlags] = useState<ArtifactReady>({ summary: false, benchmark: false, gap: false })
+  const [jobRun, setJobRun] = useState<JobRunState | null>(null)
+  const [pollStartedAt, setPollStartedAt] = useState<number | null>(null)
+  const [pollStopped, setPollStopped] = useState<null | "failed" | "timeout">(null)
+  const [cached, setCached] = useState(false) // invoke returned a previous analysis of the same report
+
+  // Analysis history
+  const [history, setHistory] = useState<AnalysisRecord[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const [historyError, setHistoryError] = useState<string | null>(null)
+
   // Chat
-  const QUICK_QUESTIONS = useMemo(
-    () => [
-      "Does Singapore mandate GRI-aligned disclosures for real estate companies?",
-      "Are there peers with similar revenue or size that have more aggressive targets?",
-      "Which missing disclosures can we address with data we already have internally?",
-      
-    ],
-    [],
-  )
-  const [chatMessages, setChatMessages] = useState<Array<{ role: "user" | "ai"; content: string }>>([])
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
   const [currentMessage, setCurrentMessage] = useState("")
   const [isTyping, setIsTyping] = useState(false)
+  const chatAbortRef = useRef<AbortController | null>(null)
   const chatScrollRef = useRef<HTMLDivElement | null>(null)
   useEffect(() => {
     chatScrollRef.current?.scrollTo({ top: chatScrollRef.current.scrollHeight, behavior: "smooth" })
   }, [chatMessages])
 
+  // Resume the persisted conversation once the report's artifacts are loaded
+  useEffect(() => {
+    if (!pdfId || !allReady) return
+    let cancelled = false
+    ;(async () => {
+      try {
+        const r = await fetch(`/api/databricks/chat/${encodeURIComponent(pdfId)}`, { cache: "no-store" })
+        if (!r.ok) return
+        const j = await r.json()
+        const restored: ChatMessage[] = (j?.messages || []).map((m: any) => ({
+          role: m.role === "assistant" ? "ai" : "user",
+          content: String(m.content ?? ""),
+        }))
+        if (!cancelled && restored.length) setChatMessages((prev) => (prev.length ? prev : restored))
+      } catch (e) {
+        console.error("[chat] resume error:", e)
+      }
+    })()
+    return () => { cancelled = true }
+  }, [pdfId, allReady])
+
+  // Sector and framework lens choices are saved on the analysis record so they stick per report
+  const patchAnalysis = (body: { lens?: Lens; sector?: SectorId | null; peerGroup?: string | null }) => {
+    if (!pdfId) return
+    fetch(`/api/databricks/analyses/${encodeURIComponent(pdfId)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }).catch((e) => console.error("[history] save error:", e))
+  }
+
+  // Sector model: extracted from the report unless overridden
+  const [sectorOverride, setSectorOverride] = useState<SectorId | null>(null)
+  const sector = useMemo(() => resolveSector(summaryRow, sectorOverride, bench?.company), [summaryRow, sectorOverride, bench])
+  const changeSector = (next: SectorId | null) => {
+    setSectorOverride(next)
+    patchAnalysis({ sector: next })
+  }
+
+  // Framework lens for the gap view; until one is picked it follows the sector's overlay
+  const [savedLens, setSavedLens] = useState<Lens | null>(null)
+  const lens = useMemo(() => savedLens ?? sectorLens(sector.profile), [savedLens, sector.profile])
+  const changeLens = (next: Lens) => {
+    setSavedLens(next)
+    patchAnalysis({ lens: next })
+  }
+
+  // What-if target from the simulator; null shows the reported target
+  const [scenario, setScenario] = useState<TargetScenario | null>(null)
+
+  // Peer group to benchmark against, saved on the analysis record like the sector
+  const [peerGroupId, setPeerGroupId] = useState<string | null>(null)
+  const changePeerGroup = (next: string | null) => {
+    setPeerGroupId(next)
+    patchAnalysis({ peerGroup: next })
+  }
+
+  // Remediation tracking for gap rows, keyed by framework_question_code
+  const [remediation, setRemediation] = useState<Record<string, RemediationItem>>({})
+  useEffect(() => {
+    setRemediation({})
+    if (!pdfId || !allReady) return
+    let cancelled = false
+    fetch(`/api/databricks/remediation/${encodeURIComponent(pdfId)}`, { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : null))
+      .then((j) => { if (!cancelled && j?.items) setRemediation(j.items) })
+      .catch((e) => console.error("[remediation] load error:", e))
+    return () => { cancelled = true }
+  }, [pdfId, allReady])
+
+  const saveRemediation = async (row: any, patch: RemediationPatch) => {
+    const code = String(row?.framework_question_code || "")
+    if (!pdfId || !code) return
+    const r = await fetch(`/api/databricks/remediation/${encodeURIComponent(pdfId)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...patch, code, question: row?.framework_question_name || "", severity: row?.severity ?? null }),
+    })
+    const j = await r.json().catch(() => ({}))
+    if (!r.ok) throw new Error(j?.error || `Save failed ${r.status}`)
+    setRemediation((m) => ({ ...m, [code]: j.item }))
+  }
+  const remediationRollup = useMemo(
+    () => (Array.isArray(gapData) ? rollupByCategory(gapData, remediation, lens) : {}),
+    [gapData, remediation, lens]
+  )
+
+  // Report viewer (gap evidence + citation chips)
+  const [viewer, setViewer] = useState<ViewerState>({ open: false, page: 1, highlight: null, title: "", status: "idle" })
+
   const fileInputRef = useRef<HTMLInputElement | null>(null)
   const fileInputRefNew = useRef<HTMLInputElement | null>(null)
+  const folderInputRef = useRef<HTMLInputElement | null>(null)
+  const queue = useUploadQueue({ concurrency: UPLOAD_CONCURRENCY, pollMs: POLL_MS, deadlineMs: PIPELINE_DEADLINE_MS })
 
   /* -------------------- Upload + Invoke (no waiting) -------------------- */
-  async function fileToBase64(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      reader.onload = () => {
-        const result = reader.result as string
-        const base64 = result.includes(",") ? result.split(",")[1] : result
-        resolve(base64)
-      }
-      reader.onerror = () => reject(reader.error || new Error("Failed to read file"))
-      reader.readAsDataURL(file)
-    })
+  useEffect(() => {
+    fetchUploadLimit().then((limit) => { if (limit) setMaxUploadBytes(limit) })
+  }, [])
+
+  async function invokeDatabricks(file: File, force = false) {
+    setUploadProgress({ loaded: 0, total: file.size })
+    try {
+      return await uploadForAnalysis(file, { force, onProgress: setUploadProgress })
+    } finally {
+      setUploadProgress(null)
+    }
   }
 
-  async function invokeDatabricks(file: File) {
-    const base64 = await fileToBase64(file)
-    const r = await fetch("/api/databricks/invoke", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ pdfName: file.name, pdfBytes: base64 }),
-    })
-    if (!r.ok) {
-      let msg = `Invoke failed ${r.status}`
-      try { const j = await r.json(); if (j?.error) msg = j.error } catch {}
-      throw new Error(msg)
+  // Returns an error message, or null if the file can be uploaded
+  const validatePdf = (file: File): string | null => {
+    if (file.type !== "application/pdf") return "Please upload a PDF file only."
+    if (file.size > maxUploadBytes) {
+      return `PDF file too large. Maximum size is ${Math.round(maxUploadBytes / 1024 / 1024)}MB.`
     }
-    return (await r.json()) as { ok: boolean; pdfId: string; batchPath: string; runId: number }
+    return null
+  }
+
+  // Lens, sector and peer group saved on the analysis record, so the screen matches the export
+  const applySettings = (saved: Pick<AnalysisRecord, "lens" | "sector" | "peerGroup">) => {
+    setSavedLens(saved.lens ?? null)
+    setSectorOverride(saved.sector ?? null)
+    setPeerGroupId(saved.peerGroup ?? null)
   }
 
+  const applyInvokeResult = (res: InvokeResult) => {
+    setPdfId(res.pdfId)
+    setBatchPath(res.batchPath)
+    setDbxRunId(res.runId)
+    applySettings(res)
+    setCached(Boolean(res.cached))
+    if (res.cached) {
+      // Nothing to poll for; show the stored results straight away
+      setSummaryRow(res.summary ?? null)
+      setBench(res.benchmark ?? null)
+      setGapData(res.gap ?? null)
+      setReadyFlags({ summary: true, benchmark: true, gap: true })
+      setAllReady(true)
+    } else {
+      setPollStartedAt(Date.now())
+    }
+  }
+
+  // Bumped whenever another report is opened, so late responses for the previous one are dropped
+  const openSeq = useRef(0)
+
   const resetState = () => {
+    openSeq.current++
     setActiveTab("summary")
     setPdfId(null)
     setBatchPath(null)
     setDbxRunId(null)
     setAllReady(false)
+    setReadyFlags({ summary: false, benchmark: false, gap: false })
+    setJobRun(null)
+    setPollStartedAt(null)
+    setPollStopped(null)
+    setCached(false)
     setSummaryRow(null)
     setBench(null)
     setGapData(null)
     setErrorMsg(null)
     setChatMessages([])
     setCurrentMessage("")
+    setSavedLens(null)
+    setSectorOverride(null)
+    setPeerGroupId(null)
+    setScenario(null)
   }
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
+    const files = Array.from(event.target.files || [])
     if (fileInputRef.current) fileInputRef.current.value = ""
-    if (!file) return
-
-    if (file.type !== "application/pdf") {
-      setErrorMsg("Please upload a PDF file only.")
+    if (files.length > 1) {
+      queue.enqueue(files, validatePdf)
       return
     }
-    if (file.size > 20 * 1024 * 1024) {
-      setErrorMsg("PDF file too large. Maximum size is 20MB.")
+    const file = files[0]
+    if (!file) return
+
+    const invalid = validatePdf(file)
+    if (invalid) {
+      setErrorMsg(invalid)
       return
     }
 
     setUploadedFile(file)
+    setReportName(file.name)
     resetState()
     setBusy(true)
     try {
       const res = await invokeDatabricks(file)
-      setPdfId(res.pdfId)
-      setBatchPath(res.batchPath)
-      setDbxRunId(res.runId)
+      applyInvokeResult(res)
     } catch (e: any) {
       console.error("[invoke] error:", e)
       setErrorMsg(e?.message || "Analysis failed")
       setUploadedFile(null)
+      setReportName(null)
     } finally {
       setBusy(false)
     }
   }
 
+  // A folder of reports: non-PDFs are skipped, the rest go through the queue
+  const handleFolderUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []).filter((f) => f.name.toLowerCase().endsWith(".pdf"))
+    if (folderInputRef.current) folderInputRef.current.value = ""
+    if (!files.length) {
+      setErrorMsg("No PDF files found in that folder.")
+      return
+    }
+    queue.enqueue(files, validatePdf)
+  }
+
   const handleFileUploadNew = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const f = event.target.files?.[0]
     if (fileInputRefNew.current) fileInputRefNew.current.value = ""
     if (!f) return
+    const invalid = validatePdf(f)
+    if (invalid) {
+      setErrorMsg(invalid)
+      return
+    }
     setUploadedFile(f)
+    setReportName(f.name)
     resetState()
     setBusy(true)
     try {
       const res = await invokeDatabricks(f)
-      setPdfId(res.pdfId)
-      setBatchPath(res.batchPath)
-      setDbxRunId(res.runId)
+      applyInvokeResult(res)
     } catch (e: any) {
       console.error("[invoke] error:", e)
       setErrorMsg(e?.message || "Analysis failed")
       setUploadedFile(null)
+      setReportName(null)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  // Server-rendered PDF, XLSX or CSV of the analysis (GET /api/databricks/export)
+  const exportUrl = (params: Record<string, string> = {}) => {
+    const q = new URLSearchParams(params)
+    if (batchPath) q.set("batch_path", batchPath)
+    return `/api/databricks/export/${encodeURIComponent(pdfId || "")}?${q}`
+  }
+
+  // Bypasses the content-hash cache and runs the full pipeline again
+  const handleReanalyse = async () => {
+    if (!uploadedFile || busy) return
+    resetState()
+    setBusy(true)
+    try {
+      applyInvokeResult(await invokeDatabricks(uploadedFile, true))
+    } catch (e: any) {
+      console.error("[invoke] error:", e)
+      setErrorMsg(e?.message || "Analysis failed")
     } finally {
       setBusy(false)
     }
@@ -358,11 +626,101 @@ export default function ESGsmartPage() {
 
   const handleBackToUpload = () => {
     setUploadedFile(null)
+    setReportName(null)
     resetState()
   }
 
+  /* -------------------- Analysis history -------------------- */
+  const loadHistory = async () => {
+    setHistoryLoading(true)
+    setHistoryError(null)
+    try {
+      const r = await fetch("/api/databricks/analyses", { cache: "no-store" })
+      if (!r.ok) throw new Error(`History failed ${r.status}`)
+      const j = await r.json()
+      setHistory(Array.isArray(j?.analyses) ? j.analyses : [])
+    } catch (e: any) {
+      console.error("[history] error:", e)
+      setHistoryError("Couldn't load previous analyses.")
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
+  // Refresh whenever the upload screen is shown
+  useEffect(() => {
+    if (!reportName) loadHistory()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reportName])
+
+  // Artifacts are re-read through /fetch; the original PDF is not kept, so the viewer is unavailable
+  const openAnalysis = (item: AnalysisRecord) => {
+    setUploadedFile(null)
+    resetState()
+    setReportName(item.company || item.fileName || item.pdfId)
+    setPdfId(item.pdfId)
+    setBatchPath(item.batchPath)
+    setDbxRunId(item.runId)
+    applySettings(item)
+    setPollStartedAt(Date.now())
+  }
+
+  // Deep links from other screens (e.g. /actions): /?open=<pdfId>&tab=gap
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const open = params.get("open")
+    if (!open) return
+    const tab = params.get("tab")
+    fetch(`/api/databricks/analyses/${encodeURIComponent(open)}`, { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : null))
+      .then((j) => {
+        if (!j?.analysis) return
+        openAnalysis(j.analysis)
+        if (tab === "summary" || tab === "benchmarking" || tab === "gap") setActiveTab(tab)
+      })
+      .catch((e) => console.error("[history] deep link error:", e))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // Finished queue items keep their File, so the PDF viewer still works
+  const openQueued = (item: QueueItem) => {
+    if (!item.pdfId) return
+    setUploadedFile(item.file)
+    resetState()
+    setReportName(item.file.name)
+    setPdfId(item.pdfId)
+    setBatchPath(item.batchPath)
+    setDbxRunId(item.runId)
+    setPollStartedAt(Date.now())
+    // Settings may have changed since the upload, so read them from the record
+    const opened = openSeq.current
+    fetch(`/api/databricks/analyses/${encodeURIComponent(item.pdfId)}`, { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : null))
+      .then((j) => { if (j?.analysis && opened === openSeq.current) applySettings(j.analysis) })
+      .catch((e) => console.error("[history] settings load error:", e))
+  }
+
+  const removeAnalysis = async (item: AnalysisRecord) => {
+    setHistory((h) => h.filter((x) => x.pdfId !== item.pdfId))
+    try {
+      await fetch(`/api/databricks/analyses/${encodeURIComponent(item.pdfId)}`, { method: "DELETE" })
+    } catch (e) {
+      console.error("[history] remove error:", e)
+    }
+  }
+
+  // Record job failures so the history shows them
+  useEffect(() => {
+    if (!pdfId || pollStopped !== "failed") return
+    fetch(`/api/databricks/analyses/${encodeURIComponent(pdfId)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status: "failed" }),
+    }).catch((e) => console.error("[history] status error:", e))
+  }, [pdfId, pollStopped])
+
   /* -------------------- Unified fetch (summary+benchmark+gap) -------------------- */
-  const doFetchAll = async (id: string, batch?: string | null) => {
+  const doFetchAll = async (id: string, batch?: string | null): Promise<boolean> => {
     setFetching(true)
     try {
       const url = `/api/databricks/fetch/${encodeURIComponent(id)}${batch ? `?batch_path=${encodeURIComponent(batch)}` : ""}`
@@ -371,6 +729,11 @@ export default function ESGsmartPage() {
       const j = await r.json()
 
       const readyAll = Boolean(j?.ready?.all)
+      setReadyFlags({
+        summary: Boolean(j?.ready?.summary),
+        benchmark: Boolean(j?.ready?.benchmark),
+        gap: Boolean(j?.ready?.gap),
+      })
       if (readyAll) {
         setSummaryRow(j?.summary ?? null)
         setBench(j?.benchmark ?? null)
@@ -379,257 +742,158 @@ export default function ESGsmartPage() {
       } else {
         setAllReady(false)
       }
+      return readyAll
     } catch (e) {
       console.error("[fetch] error:", e)
+      return false
     } finally {
       setFetching(false)
     }
   }
 
-  // Poll until ready.all === true
+  const checkJobRun = async (runId: number): Promise<JobRunState | null> => {
+    try {
+      const r = await fetch(`/api/databricks/run-status?run_id=${runId}`, { cache: "no-store" })
+      if (!r.ok) throw new Error(await r.text())
+      const run = summarizeRun(await r.json())
+      setJobRun(run)
+      return run
+    } catch (e) {
+      console.error("[run-status] error:", e)
+      return null
+    }
+  }
+
+  // Poll until ready.all === true, the job fails, or the deadline passes
   useEffect(() => {
-    if (!pdfId) return
+    if (!pdfId || allReady || pollStopped) return
     let cancelled = false
     let timer: NodeJS.Timeout | null = null
     const tick = async () => {
       if (cancelled) return
-      await doFetchAll(pdfId, batchPath)
+      const ready = await doFetchAll(pdfId, batchPath)
+      if (cancelled || ready) return
+      const run = dbxRunId != null ? await checkJobRun(dbxRunId) : null
       if (cancelled) return
-      if (!allReady) timer = setTimeout(tick, POLL_MS)
+      if (run?.phase === "failed") {
+        // Artifacts may still have landed before the failing task; one last look
+        if (!(await doFetchAll(pdfId, batchPath)) && !cancelled) setPollStopped("failed")
+        return
+      }
+      if (pollStartedAt != null && Date.now() - pollStartedAt > PIPELINE_DEADLINE_MS) {
+        setPollStopped("timeout")
+        return
+      }
+      timer = setTimeout(tick, POLL_MS)
     }
     tick()
     return () => { cancelled = true; if (timer) clearTimeout(timer) }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [pdfId, batchPath, allReady])
+  }, [pdfId, batchPath, dbxRunId, allReady, pollStopped])
 
-  const retryFetch = () => { if (pdfId) doFetchAll(pdfId, batchPath) }
-
-  /* -------------------- Summary derived (robust mapping) -------------------- */
-  const s = summaryRow || {}
-  const companyName = pick<string>(s, ["company_name", "Company", "company"], "")
-  const sector      = pick<string>(s, ["sector"], "Real Estate")
-  const country     = pick<string>(s, ["main_country", "country"], "")
-  const region      = pick<string>(s, ["main_region", "region"], "")
-  const framework   = pick<string | string[]>(s, ["framework"], "")
-  const futureFw    = pick<string | string[]>(s, ["future_framework", "futureFramework"], "")
-  const year        = pick<string | number>(s, ["year", "Year"], "")
-  const employees = pick<string | number>(s, ["total_employees", "employees", "num_employees"], "")
-  const revenue = pick<string | number>(s, ["total_revenue", "revenue", "annual_revenue"], "")
-
-  const scope1      = pick<string | number>(s, ["Scope1", "scope_1", "Scope 1"], "")
-  const scope2      = pick<string | number>(s, ["Scope2", "scope_2", "Scope 2"], "")
-  const scope1Unit  = pick<string>(s, ["Scope1_unit", "scope_1_unit", "Scope 1 unit"], "")
-  const scope2Unit  = pick<string>(s, ["Scope2_unit", "scope_2_unit", "Scope 2 unit"], "")
-  const electricity = pick<string | number>(s, ["Electricity"], "")
-  const electricityU= pick<string>(s, ["Electricity_unit"], "")
-  const water       = pick<string | number>(s, ["Water"], "")
-  const waterU      = pick<string>(s, ["Water_unit"], "")
-  const sdgs        = Array.isArray(s?.un_sdg) ? s.un_sdg.filter(Boolean) : []
-  const mats        = Array.isArray(s?.materiality_topics) ? s.materiality_topics.filter(Boolean) : []
-
-  const kcards = useMemo(() => {
-    return [
-      { label: "Company", value: companyName },
-      { label: "Sector", value: sector },
-      { label: "Country", value: country },
-      { label: "Region", value: region },
-      { label: "Year", value: year },
-      { label: "Employees", value: employees },
-      { label: "Revenue", value: typeof revenue === 'number' ? `$${formatNumber(revenue)}` : revenue },
-      { label: "Framework", value: Array.isArray(framework) ? framework.join(", ") : framework },
-      { label: "Future Framework", value: Array.isArray(futureFw) ? futureFw.join(", ") : futureFw },
-    ]
-  }, [companyName, sector, country, region, year, framework, futureFw])
-
-  const summaryBullets = useMemo(() => {
-    const bullets: string[] = []
-    const s1 = toNumber(scope1)
-    const s2 = toNumber(scope2)
-    if (s1 !== null) bullets.push(`Scope 1 ${s1.toLocaleString()}${scope1Unit ? ` ${scope1Unit}` : ""}`)
-    if (s2 !== null) bullets.push(`Scope 2 ${s2.toLocaleString()}${scope2Unit ? ` ${scope2Unit}` : ""}`)
-    if (electricity) bullets.push(`Electricity ${electricity}${electricityU ? " " + electricityU : ""}`)
-    if (water) bullets.push(`Water ${water}${waterU ? " " + waterU : ""}`)
-    if (sdgs.length) bullets.push(`UN SDGs ${sdgs.join(", ")}`)
-    if (mats.length) bullets.push(`Material topics ${mats.join(", ")}`)
-    return bullets
-  }, [scope1, scope2, scope1Unit, scope2Unit, electricity, electricityU, water, waterU, sdgs, mats])
-
-  const chartData = useMemo(() => {
-    const s1 = toNumber(scope1) ?? 0
-    const s2 = toNumber(scope2) ?? 0
-    return [
-      { label: "Scope 1", value: s1 },
-      { label: "Scope 2", value: s2 },
-    ]
-  }, [scope1, scope2])
-
-  /* -------------------- Benchmark derived -------------------- */
-  const asFrac = (x: any): number | null => {
-    if (x === null || x === undefined || x === "") return null
-    const v = Number(String(x).replace("%", ""))
-    if (!Number.isFinite(v)) return null
-    if (v >= 0 && v <= 1) return v
-    if (v > 1 && v <= 100) return v / 100
-    return null
-  }
-  const fmtPct = (x: any): string => {
-    const f = asFrac(x)
-    if (f === null) return "n/a"
-    return `${(f * 100).toFixed(1)}%`
+  const retryFetch = () => {
+    if (!pdfId) return
+    if (!pollStopped) {
+      doFetchAll(pdfId, batchPath)
+      return
+    }
+    // Restarts polling with a fresh deadline
+    setJobRun(null)
+    setPollStartedAt(Date.now())
+    setPollStopped(null)
   }
 
-  const lineSeries = useMemo(() => {
-    if (!bench?.company) return []
-    const c = bench.company
-    const sy = Number(c.sbti_start_year)
-    const ty = Number(c.sbti_target_year)
-    if (!Number.isFinite(sy) || !Number.isFinite(ty) || ty <= sy) return []
-
-    const sf = (v: any): number | null => {
-      if (v === null || v === undefined || v === "") return null
-      const n = Number(String(v).replace(/,/g, ""))
-      return Number.isFinite(n) ? n : null
-    }
-    const s1b = sf(c.scope_1)
-    const s2b = sf(c.scope_2)
-    let s12b = sf(c.sbti_scope_1_2)
-    if (s12b == null && s1b != null && s2b != null) s12b = s1b + s2b
-    let s1t = sf(c.sbti_scope_1_target)
-    let s2t = sf(c.sbti_scope_2_target)
-    let s12t = sf(c.sbti_scope_1_2_target)
-    const redRaw = sf(c.sbti_scope_1_2_reduction_pct)
-
-    if (s12t == null && redRaw != null && s12b != null) {
-      const rf = redRaw > 1 ? redRaw / 100 : redRaw
-      s12t = s12b * (1 - rf)
-    }
-    if (s12t != null && (s1t == null || s2t == null) && s1b != null && s2b != null && s1b + s2b > 0) {
-      if (s1t == null) s1t = s12t * (s1b / (s1b + s2b))
-      if (s2t == null) s2t = s12t * (s2b / (s1b + s2b))
-    }
-    if (s12t == null && s1t != null && s2t != null) s12t = s1t + s2t
+  const pipeline = useMemo(
+    () =>
+      buildStages({
+        invoking: busy,
+        upload: uploadProgress,
+        invoked: !!pdfId,
+        runId: dbxRunId,
+        job: jobRun,
+        ready: readyFlags,
+        timedOut: pollStopped === "timeout",
+      }),
+    [busy, uploadProgress, pdfId, dbxRunId, jobRun, readyFlags, pollStopped],
+  )
 
-    const years: number[] = []
-    for (let y = sy; y <= ty; y++) years.push(y)
+  /* -------------------- Gap evidence -------------------- */
+  // Only the latest lookup may update the viewer; opening another row or page aborts the pending one
+  const evidenceAbortRef = useRef<AbortController | null>(null)
 
-    const make = (name: string, v0: number | null, v1: number | null) => {
-      if (v0 == null || v1 == null) return { name, points: [] as Array<{ x: number; y: number }> }
-      const pts = years.map((y, i) => {
-        const t = i / (years.length - 1 || 1)
-        return { x: y, y: v0 + (v1 - v0) * t }
+  const openEvidence = async (row: any) => {
+    const title = `${row?.framework_question_code || row?.source_question_code || "Disclosure"}${
+      row?.framework_question_name ? ` — ${row.framework_question_name}` : ""
+    }`
+    evidenceAbortRef.current?.abort()
+    setViewer((v) => ({ ...v, open: true, title, highlight: null, status: "loading", message: undefined }))
+    if (!pdfId) return
+    const controller = new AbortController()
+    evidenceAbortRef.current = controller
+    try {
+      const r = await fetch(`/api/databricks/evidence/${encodeURIComponent(pdfId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ row }),
+        signal: controller.signal,
       })
-      return { name, points: pts }
-    }
-    return [make("Scope 1", s1b, s1t), make("Scope 2", s2b, s2t), make("Scope 1+2", s12b, s12t)]
-  }, [bench])
-
-  type PeerRow = {
-    Company: string
-    Sector: string
-    Country: string
-    Region: string
-    "Base Year": string
-    "Target Year": string
-    "% Reduction": string
-    _pct_num?: number
-  }
-  const buildPeerDisplay = (raw: any[]): PeerRow[] => {
-    if (!Array.isArray(raw)) return []
-    const rows: PeerRow[] = raw.map((r: any) => ({
-      Company: r.company_name ?? "",
-      Sector: r.sector ?? "",
-      Country: r.main_country ?? "",
-      Region: r.main_region ?? "",
-      "Base Year": r.sbti_start_year != null ? String(r.sbti_start_year) : "n/a",
-      "Target Year": r.sbti_target_year != null ? String(r.sbti_target_year) : "n/a",
-      "% Reduction": r.sbti_scope_1_2_reduction_pct != null ? String(r.sbti_scope_1_2_reduction_pct) : "",
-    }))
-
-    const pctNum = (s: string): number | null => {
-      if (!s) return null
-      const v = Number(String(s).replace("%", ""))
-      if (!Number.isFinite(v)) return null
-      if (v >= 0 && v <= 1) return v * 100
-      if (v > 1 && v <= 100) return v
-      return null
-    }
-
-    const withNum = rows.map((r) => ({ ...r, _pct_num: pctNum(r["% Reduction"]) ?? null }))
-    const nums = withNum.map((r) => r._pct_num).filter((x): x is number => x != null)
-    const mean = nums.length ? nums.reduce((a, b) => a + b, 0) / nums.length : null
-    const sorted = [...nums].sort((a, b) => a - b)
-    const median =
-      sorted.length === 0
-        ? null
-        : sorted.length % 2 === 1
-        ? sorted[(sorted.length - 1) / 2]
-        : (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
-
-    const avgRow: PeerRow = {
-      Company: "**Average**", Sector: "", Country: "", Region: "",
-      "Base Year": "", "Target Year": "", "% Reduction": mean == null ? "" : `${mean.toFixed(1)}%`,
-      _pct_num: mean == null ? undefined : mean,
-    }
-    const medRow: PeerRow = {
-      Company: "**Median**", Sector: "", Country: "", Region: "",
-      "Base Year": "", "Target Year": "", "% Reduction": median == null ? "" : `${median.toFixed(1)}%`,
-      _pct_num: median == null ? undefined : median,
+      const j = await r.json().catch(() => ({}))
+      if (controller.signal.aborted) return
+      if (r.status === 404) {
+        setViewer((v) => ({ ...v, status: "error", message: "This report has no page index yet; re-upload it to enable evidence lookup." }))
+      } else if (!r.ok) {
+        throw new Error(j?.error || `Evidence lookup failed ${r.status}`)
+      } else if (j?.found) {
+        setViewer((v) => ({ ...v, status: "found", page: j.evidence.page, highlight: j.evidence.text }))
+      } else {
+        setViewer((v) => ({ ...v, status: "none" }))
+      }
+    } catch (e: any) {
+      if (controller.signal.aborted) return
+      console.error("[evidence] error:", e)
+      setViewer((v) => ({ ...v, status: "error", message: e?.message || "Evidence lookup failed" }))
+    } finally {
+      if (evidenceAbortRef.current === controller) evidenceAbortRef.current = null
     }
-    const combined = [...withNum, avgRow, medRow]
-    combined.sort((a, b) => (b._pct_num ?? -Infinity) - (a._pct_num ?? -Infinity))
-    return combined.map((r) => ({
-      ...r,
-      "% Reduction": r._pct_num != null ? `${r._pct_num.toFixed(1)}%` : r["% Reduction"],
-    }))
   }
 
-  const insightText = useMemo(() => {
-    if (!bench?.company) return ""
-    const c = bench.company
-    const companyName = c.company_name || "the company"
-    const startY = Number(c.sbti_start_year)
-    const targetY = Number(c.sbti_target_year)
-    const companyFrac = asFrac(c.sbti_scope_1_2_reduction_pct)
-
-    let yearsCompany: number | null = null
-    if (Number.isFinite(startY) && Number.isFinite(targetY)) yearsCompany = targetY - startY + 1
-
-    const peersCountry = buildPeerDisplay(bench?.peers_country || [])
-    const peersRegion = buildPeerDisplay(bench?.peers_region || [])
-    const medianOf = (rows: PeerRow[]): number | null => {
-      const vals = rows.filter((r) => !r.Company.startsWith("**")).map((r) => Number(r["% Reduction"].replace("%", ""))).filter((n) => Number.isFinite(n))
-      if (!vals.length) return null
-      vals.sort((a, b) => a - b)
-      const n = vals.length
-      return n % 2 ? vals[(n - 1) / 2] / 100 : ((vals[n / 2 - 1] + vals[n / 2]) / 2) / 100
-    }
-    const pcMedian = medianOf(peersCountry)
-    const prMedian = medianOf(peersRegion)
-
-    const ambition = (() => {
-      const eps = 0.01
-      if (companyFrac === null) return "unclear relative to peers (missing company target)"
-      const aboveCountry = pcMedian !== null && companyFrac >= pcMedian + eps
-      const aboveRegion = prMedian !== null && companyFrac >= prMedian + eps
-      const belowCountry = pcMedian !== null && companyFrac <= pcMedian - eps
-      const belowRegion = prMedian !== null && companyFrac <= prMedian - eps
-      if (aboveCountry && aboveRegion) return "more ambitious than the median companies in both country and region"
-      if (belowCountry && belowRegion) return "less ambitious than the median companies in both country and region"
-      if (aboveCountry && belowRegion) return "above the country median but below the regional median"
-      if (aboveRegion && belowCountry) return "above the regional median but below the country median"
-      return "roughly in line with peer medians"
-    })()
+  /* -------------------- Summary derived (robust mapping) -------------------- */
+  const kcards = useMemo(
+    () => summaryCards(summaryRow, sector.overridden ? sector.profile.name : null),
+    [summaryRow, sector]
+  )
+  const kpis = useMemo(() => sectorKpis(summaryRow, sector.profile), [summaryRow, sector.profile])
+  const scope3 = useMemo(() => scope3Summary(summaryRow), [summaryRow])
+  const summaryBullets = useMemo(() => summaryHighlights(summaryRow, scope3), [summaryRow, scope3])
+  const chartData = useMemo(() => emissionsBars(summaryRow, scope3), [summaryRow, scope3])
 
-    return (
-      `If ${companyName} sets a near-term target of its Scope 1+2 reduction by ${targetY || "n/a"}, ` +
-      `it will aim for a ${fmtPct(companyFrac)} reduction from its ${startY || "n/a"} baseline, ` +
-      `over ${Number.isFinite(yearsCompany ?? NaN) ? `${yearsCompany} years` : "n/a"}. Compared with the same country's median (${fmtPct(pcMedian)}) ` +
-      `and same region's median (${fmtPct(prMedian)}) companies validated by SBTi, ` +
-      `this target is ${ambition}.`
-    )
-  }, [bench])
+  /* -------------------- Benchmark derived -------------------- */
+  // The client's chosen peer group, else peers narrowed to the company's sector when there are enough of them
+  const peerGroups = usePeerGroups(useMemo(() => reportClient(summaryRow, bench), [summaryRow, bench]))
+  const universe = useMemo(() => peerUniverse(bench), [bench])
+  const peerGroup = useMemo(() => peerGroups.groups.find((g) => g.id === peerGroupId) ?? null, [peerGroups.groups, peerGroupId])
+  const reportedBench = useMemo(
+    () => (peerGroup ? withPeerGroup(bench, peerGroup) : sectorBenchmark(bench, sector.profile)),
+    [bench, peerGroup, sector.profile]
+  )
+  // The simulated target replaces the company row for the chart, bands and insight
+  const peerBench = useMemo(
+    () => (scenario && reportedBench?.company ? { ...reportedBench, company: scenarioCompany(reportedBench.company, scenario) } : reportedBench),
+    [reportedBench, scenario]
+  )
+  const lineSeries = useMemo(() => {
+    const series = sbtiTrajectory(peerBench?.company).filter((s) => s.points.length > 0)
+    if (!scenario) return series
+    const reported = sbtiTrajectory(bench?.company).find((s) => s.name === "Scope 1+2")
+    return reported?.points.length ? [...series, { name: "Reported Scope 1+2", points: reported.points }] : series
+  }, [peerBench, scenario, bench])
+  // 1.5°C / WB2C reference corridors and the stated target's gap to them
+  const bands = useMemo(() => pathwayBands(peerBench?.company), [peerBench])
+  const gaps = useMemo(() => ambitionGaps(peerBench?.company), [peerBench])
+  const insightFacts = useMemo(() => benchmarkFacts(peerBench), [peerBench])
 
   /* -------------------- GAP derived (defensive) -------------------- */
+  const overviewFacts = useMemo(() => (Array.isArray(gapData) ? gapFacts(gapData, lens) : null), [gapData, lens])
   const renderSeverityDistribution = (block: any) => {
     if (!block) return null
     let entries: Array<{ label: string; value: number }> = []
@@ -644,7 +908,7 @@ export default function ESGsmartPage() {
     const total = entries.reduce((a, b) => a + (Number.isFinite(b.value) ? b.value : 0), 0)
     return (
       <div className="rounded-md border bg-background p-3">
-        <div className="font-medium mb-2">GRI Severity Distribution — Overall (IFRS RE Lens)</div>
+        <div className="font-medium mb-2">Severity Distribution — Overall ({lensName(lens)} Lens)</div>
         <div className="flex flex-wrap gap-3">
           {entries.map((e, i) => {
             const pct = total > 0 ? Math.round((e.value / total) * 100) : 0
@@ -733,73 +997,82 @@ export default function ESGsmartPage() {
   /* -------------------- Chat -------------------- */
   const handleFAQClick = async (q: string) => { await handleSendMessageInternal(q) }
   const handleSendMessage = async () => {
-    if (!currentMessage.trim()) return
+    if (!currentMessage.trim() || isTyping) return
     const msg = currentMessage
     setCurrentMessage("")
     await handleSendMessageInternal(msg)
   }
-  const handleSendMessageInternal = async (msg: string) => {
-  setChatMessages((prev) => [...prev, { role: "user", content: msg }])
-  setIsTyping(true)
-  
-  // Add placeholder for assistant message
-  const assistantIndex = chatMessages.length + 1
-  setChatMessages((prev) => [...prev, { role: "ai", content: "" }])
-  
-  try {
-    const r = await fetch("/api/databricks/chat", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        messages: [
-          {
-            role: "system",
-            content: "You are an ESG analysis assistant. Keep answers concise, use the provided context only.",
-          },
-          { role: "user", content: msg },
-        ],
-        summary: summaryRow,
-        benchmark: bench,
-        gap: gapData,
-      }),
-    })
+  const handleSendMessageInternal = async (msg: string, history: ChatMessage[] = chatMessages) => {
+    if (isTyping) return
+    setChatMessages([...history, { role: "user", content: msg }, { role: "ai", content: "" }])
+    setIsTyping(true)
 
-    let content = "I'll analyze that and get back to you."
-    if (r.ok) {
-      const j = await r.json()
-      content = j?.content || content
-    }
-
-    // Typewriter effect
-    const words = content.split(" ")
-    let currentText = ""
-    
-    for (let i = 0; i < words.length; i++) {
-      currentText += (i > 0 ? " " : "") + words[i]
-      
+    // Always write into the trailing assistant placeholder
+    const setAssistant = (content: string, citations?: Citation[]) =>
       setChatMessages((prev) => {
         const updated = [...prev]
-        updated[assistantIndex] = { role: "ai", content: currentText }
+        updated[updated.length - 1] = { role: "ai", content, citations }
         return updated
       })
-      
-      // Adjust speed: 30ms = fast, 60ms = medium, 100ms = slow
-      await new Promise((resolve) => setTimeout(resolve, 30))
+
+    const controller = new AbortController()
+    chatAbortRef.current = controller
+    try {
+      const { content, stopped, citations } = await streamChat(
+        {
+          pdfId,
+          // Full history; the route trims/summarises it and persists the conversation
+          messages: [...history, { role: "user", content: msg }].map((m) => ({
+            role: m.role === "ai" ? "assistant" : "user",
+            content: m.content,
+          })),
+          summary: summaryRow,
+          benchmark: bench,
+          gap: gapData,
+          lens,
+          sector: sectorOverride,
+          peerGroup: peerGroup?.id ?? null,
+        },
+        { signal: controller.signal, onDelta: (_d, full) => setAssistant(full) }
+      )
+      if (!content) setAssistant(stopped ? "Response stopped." : "I'll analyze that and get back to you.")
+      else if (citations.length) setAssistant(content, citations)
+    } catch (err) {
+      console.error("[chat] error:", err)
+      setAssistant("Sorry, I couldn't reach the analysis service just now.")
+    } finally {
+      chatAbortRef.current = null
+      setIsTyping(false)
+    }
+  }
+
+  // Citation chips open the report viewer at the cited page
+  const openReportPage = (page: number, snippet?: string) => {
+    evidenceAbortRef.current?.abort()
+    setViewer({ open: true, page, highlight: snippet ?? null, title: `Page ${page}`, status: "found" })
+  }
+
+  const handleStopMessage = () => { chatAbortRef.current?.abort() }
+
+  // Drop the last exchange and ask the same question again
+  const handleRegenerate = async () => {
+    if (isTyping) return
+    const lastUserIdx = chatMessages.map((m) => m.role).lastIndexOf("user")
+    if (lastUserIdx === -1) return
+    const question = chatMessages[lastUserIdx].content
+    await handleSendMessageInternal(question, chatMessages.slice(0, lastUserIdx))
+  }
+
+  const handleNewChat = async () => {
+    if (isTyping) return
+    setChatMessages([])
+    if (!pdfId) return
+    try {
+      await fetch(`/api/databricks/chat/${encodeURIComponent(pdfId)}`, { method: "DELETE" })
+    } catch (e) {
+      console.error("[chat] clear error:", e)
     }
-    
-  } catch (err) {
-    setChatMessages((prev) => {
-      const updated = [...prev]
-      updated[assistantIndex] = {
-        role: "ai",
-        content: "Sorry, I couldn't reach the analysis service just now.",
-      }
-      return updated
-    })
-  } finally {
-    setIsTyping(false)
   }
-}
 
 
   /* ========================= Render ========================= */
@@ -817,7 +1090,7 @@ export default function ESGsmartPage() {
         <div className="container mx-auto px-6 py-4">
           <div className="flex items-center gap-3">
             <div className="flex items-center gap-2">
-              {uploadedFile && (
+              {reportName && (
                 <Button variant="ghost" size="sm" onClick={handleBackToUpload} className="mr-2">
                   <ArrowLeft className="w-4 h-4" />
                 </Button>
@@ -826,15 +1099,75 @@ export default function ESGsmartPage() {
               <img src="/ESGsmart.png" alt="ESGsmart" className="h-20 md:h-[86px] w-auto" />
             </div>
 
-            {uploadedFile && (
+            {reportName && (
               <div className="ml-auto flex items-center gap-3 text-sm">
                 <FileText className="w-4 h-4 text-muted-foreground" />
-                {busy ? (
-                  <div className="w-44"><IndeterminateBar height={6} /></div>
+                {busy && uploadProgress && uploadProgress.loaded < uploadProgress.total ? (
+                  <div className="flex items-center gap-2">
+                    <Progress className="w-44 h-1.5" value={(uploadProgress.loaded / uploadProgress.total) * 100} />
+                    <span className="text-muted-foreground tabular-nums">
+                      {fmtMB(uploadProgress.loaded)} / {fmtMB(uploadProgress.total)} MB
+                    </span>
+                  </div>
+                ) : busy ? (
+                  <div className="flex items-center gap-2">
+                    <div className="w-44"><IndeterminateBar height={6} /></div>
+                    <span className="text-muted-foreground">Extracting…</span>
+                  </div>
+                ) : cached ? (
+                  <>
+                    <span className="text-muted-foreground">Previously analysed · loaded from cache</span>
+                    {uploadedFile && (
+                      <Button variant="outline" size="sm" onClick={handleReanalyse}>
+                        <RefreshCcw className="w-4 h-4 mr-2" />
+                        Re-analyse
+                      </Button>
+                    )}
+                  </>
                 ) : dbxRunId ? (
-                  <span className="text-muted-foreground">Triggered job {dbxRunId}</span>
+                  <span className="text-muted-foreground">
+                    Job {dbxRunId}
+                    {jobRun ? ` · ${jobRun.result || jobRun.lifeCycle.toLowerCase().replace(/_/g, " ")}` : ""}
+                  </span>
                 ) : (
-                  <span className="text-muted-foreground">Analyzing: {uploadedFile.name}</span>
+                  <span className="text-muted-foreground">Analyzing: {reportName}</span>
+                )}
+                {allReady && pdfId && (
+                  <a href={`/compare?a=${encodeURIComponent(pdfId)}`} className="text-[#007A72] hover:underline">
+                    Compare with another year
+                  </a>
+                )}
+                {allReady && pdfId && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        <Download className="w-4 h-4 mr-2" />
+                        Export report
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem asChild>
+                        <a href={exportUrl()} download>PDF</a>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <a href={exportUrl({ chat: "1" })} download>PDF with chat transcript</a>
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem asChild>
+                        <a href={exportUrl({ format: "xlsx" })} download>Excel workbook (all tables)</a>
+                      </DropdownMenuItem>
+                      <DropdownMenuSub>
+                        <DropdownMenuSubTrigger>CSV</DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>
+                          {CSV_SHEETS.map(([sheet, label]) => (
+                            <DropdownMenuItem key={sheet} asChild>
+                              <a href={exportUrl({ format: "csv", sheet })} download>{label}</a>
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 )}
               </div>
             )}
@@ -844,45 +1177,79 @@ export default function ESGsmartPage() {
 
       {/* Main body */}
       <div className="mx-auto max-w-[92%] px-6 py-8">
-        {!uploadedFile ? (
-          <div className="flex items-center justify-center min-h-[70vh]">
-            <Card className="w-full max-w-2xl">
-              <CardHeader className="text-center pb-8">
-                <div className="w-20 h-20 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-6">
-                  <Upload className="w-10 h-10 text-primary" />
-                </div>
-                <CardTitle className="text-3xl font-bold mb-4">Upload ESG Document</CardTitle>
-                <CardDescription className="text-lg">
-                  Upload your PDF for ESG summary, benchmarking, and gap analysis.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="border-2 border-dashed border-border rounded-xl p-12 text-center hover:border-primary/50 transition-all duration-300 hover:bg-accent/5">
-                  <Input
-                    ref={fileInputRef}
-                    type="file"
-                    accept=".pdf"
-                    onChange={handleFileUpload}
-                    className="hidden"
-                    id="pdf-upload"
-                    disabled={busy}
-                  />
-                  <Label htmlFor="pdf-upload" className="cursor-pointer block">
-                    <div className="flex flex-col items-center gap-6">
-                      <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center">
-                        <FileText className="w-8 h-8 text-primary" />
-                      </div>
-                      <div className="flex flex-col items-center">
-                        <p className="text-xl font-semibold text-foreground mb-2">
-                          {busy ? "Processing..." : "Click to upload PDF"}
-                        </p>
-                        <p className="text-muted-foreground">or drag and drop your ESG document here</p>
+        {!reportName ? (
+          <div className="flex flex-col lg:flex-row items-center lg:items-start justify-center gap-6 min-h-[70vh] lg:pt-[8vh]">
+            <div className="w-full max-w-2xl space-y-6">
+              <Card className="w-full">
+                <CardHeader className="text-center pb-8">
+                  <div className="w-20 h-20 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-6">
+                    <Upload className="w-10 h-10 text-primary" />
+                  </div>
+                  <CardTitle className="text-3xl font-bold mb-4">Upload ESG Document</CardTitle>
+                  <CardDescription className="text-lg">
+                    Upload your PDF for ESG summary, benchmarking, and gap analysis.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="border-2 border-dashed border-border rounded-xl p-12 text-center hover:border-primary/50 transition-all duration-300 hover:bg-accent/5">
+                    <Input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".pdf"
+                      multiple
+                      onChange={handleFileUpload}
+                      className="hidden"
+                      id="pdf-upload"
+                      disabled={busy}
+                    />
+                    <input
+                      ref={folderInputRef}
+                      type="file"
+                      onChange={handleFolderUpload}
+                      className="hidden"
+                      webkitdirectory=""
+                      directory=""
+                    />
+                    <Label htmlFor="pdf-upload" className="cursor-pointer block">
+                      <div className="flex flex-col items-center gap-6">
+                        <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center">
+                          <FileText className="w-8 h-8 text-primary" />
+                        </div>
+                        <div className="flex flex-col items-center">
+                          <p className="text-xl font-semibold text-foreground mb-2">
+                            {busy ? "Processing..." : "Click to upload PDF"}
+                          </p>
+                          <p className="text-muted-foreground">or drag and drop your ESG document here</p>
+                          <p className="text-sm text-muted-foreground mt-1">Select several files to queue them for analysis</p>
+                        </div>
                       </div>
-                    </div>
-                  </Label>
-                </div>
-              </CardContent>
-            </Card>
+                    </Label>
+                    <Button variant="link" size="sm" className="mt-2" onClick={() => folderInputRef.current?.click()}>
+                      Upload a folder of reports
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+              {queue.items.length > 0 && (
+                <UploadQueue
+                  items={queue.items}
+                  onOpen={openQueued}
+                  onRetry={(it) => queue.retry(it.id)}
+                  onRemove={(it) => queue.remove(it.id)}
+                  onClearFinished={queue.clearFinished}
+                />
+              )}
+            </div>
+            <div className="w-full max-w-2xl lg:w-80">
+              <AnalysisHistory
+                items={history}
+                loading={historyLoading}
+                error={historyError}
+                onOpen={openAnalysis}
+                onRemove={removeAnalysis}
+                onRefresh={loadHistory}
+              />
+            </div>
           </div>
         ) : (
           <div className="grid grid-cols-12 gap-6">
@@ -943,6 +1310,7 @@ export default function ESGsmartPage() {
                         <CardDescription>Executive summary of your ESG document</CardDescription>
                       </div>
                       <div className="flex items-center gap-2">
+                        <SectorPicker sector={sector} onChange={changeSector} disabled={!allReady} />
                         <Button variant="outline" size="sm" onClick={retryFetch} disabled={!pdfId || fetching}>
                           <RefreshCcw className="w-4 h-4 mr-2" />
                           Retry
@@ -953,8 +1321,13 @@ export default function ESGsmartPage() {
                   <CardContent className="space-y-6 h-[600px] overflow-y-auto">
                     {!allReady && (
                       <div className="rounded-md border p-4">
-                        <div className="mb-2 text-sm text-muted-foreground">Preparing your summary…</div>
-                        <IndeterminateBar />
+                        <div className="mb-3 text-sm text-muted-foreground">Preparing your summary…</div>
+                        <PipelineProgress
+                          stages={pipeline.stages}
+                          failureMessage={pipeline.failureMessage}
+                          runPageUrl={jobRun?.runPageUrl}
+                          onRetry={retryFetch}
+                        />
                       </div>
                     )}
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
@@ -966,6 +1339,24 @@ export default function ESGsmartPage() {
                       ))}
                     </div>
 
+                    {allReady && (
+                      <div className="rounded-md border bg-background p-3">
+                        <div className="font-medium mb-2 text-sm">{sector.profile.name} KPIs</div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                          {kpis.map((k) => (
+                            <div key={k.label} className="text-sm">
+                              <div className="text-xs text-muted-foreground mb-1">{k.label}</div>
+                              {k.value ? (
+                                <div className="font-semibold">{k.value}</div>
+                              ) : (
+                                <div className="text-muted-foreground italic">Not reported</div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     <div className="rounded-md border bg-background p-4 text-sm leading-relaxed">
                       {allReady ? (
                         summaryBullets.length ? (
@@ -983,6 +1374,10 @@ export default function ESGsmartPage() {
                     <div className="rounded-md border p-4">
                       {allReady ? <TinyBarChart data={chartData} /> : <IndeterminateBar />}
                     </div>
+
+                    {allReady && <IntensityMetrics summary={summaryRow} bench={reportedBench} />}
+
+                    {allReady && <Scope3Breakdown scope3={scope3} />}
                   </CardContent>
                 </Card>
               )}
@@ -1006,8 +1401,13 @@ export default function ESGsmartPage() {
                   <CardContent className="h-[600px] overflow-y-auto space-y-4">
                     {!allReady && (
                       <div className="rounded-md border p-4">
-                        <div className="mb-2 text-sm text-muted-foreground">Preparing your benchmarking results…</div>
-                        <IndeterminateBar />
+                        <div className="mb-3 text-sm text-muted-foreground">Preparing your benchmarking results…</div>
+                        <PipelineProgress
+                          stages={pipeline.stages}
+                          failureMessage={pipeline.failureMessage}
+                          runPageUrl={jobRun?.runPageUrl}
+                          onRetry={retryFetch}
+                        />
                       </div>
                     )}
 
@@ -1016,7 +1416,7 @@ export default function ESGsmartPage() {
                         <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
                           {[
                             { k: "Company", v: bench.company.company_name },
-                            { k: "Sector", v: bench.company.sector ?? "Real Estate" },
+                            { k: "Sector", v: sector.overridden ? sector.profile.name : bench.company.sector },
                             { k: "Country", v: bench.company.main_country },
                             { k: "Region", v: bench.company.main_region },
                             { k: "Base Year", v: bench.company.sbti_start_year },
@@ -1024,6 +1424,9 @@ export default function ESGsmartPage() {
                             { k: "% Reduction", v: ((asFrac(bench.company.sbti_scope_1_2_reduction_pct) ?? 0) * 100).toFixed(1) + "%" },
                             { k: "Target setting method", v: "Absolute Contraction Approach" },
                             { k: "Target", v: "Near-term" },
+                            ...(asFrac(bench.company.sbti_scope_3_reduction_pct) != null
+                              ? [{ k: "Scope 3 Reduction", v: ((asFrac(bench.company.sbti_scope_3_reduction_pct) ?? 0) * 100).toFixed(1) + "%" }]
+                              : []),
                           ].map((it) => (
                             <div key={it.k} className="rounded-md border bg-background px-3 py-2 shadow-xs text-sm">
                               <div className="text-xs text-muted-foreground mb-1">{it.k}</div>
@@ -1033,72 +1436,67 @@ export default function ESGsmartPage() {
                         </div>
 
                         <div className="rounded-md border bg-background p-4 text-sm leading-relaxed">
-                          {insightText}
+                          {insightFacts && <Narrative kind="benchmark" facts={insightFacts} paragraphs={[benchmarkNarrative(insightFacts)]} />}
                         </div>
 
+                        <PeerGroupBuilder
+                          universe={universe}
+                          groups={peerGroups.groups}
+                          selectedId={peerGroup?.id ?? null}
+                          onSelect={changePeerGroup}
+                          onSave={peerGroups.save}
+                          onDelete={async (id) => {
+                            if (await peerGroups.remove(id)) changePeerGroup(null)
+                          }}
+                          error={peerGroups.error}
+                        />
+
+                        <PeerDistribution bench={peerBench} />
+
                         <div className="rounded-md border p-4 bg-card/50">
-                          <MiniLineChart series={(lineSeries || []).filter((s) => s.points.length > 0)} height={260} padding={36} />
+                          <MiniLineChart series={lineSeries} bands={bands} height={260} padding={36} />
                         </div>
 
-                        {Array.isArray(bench?.peers_country) && (
-                          <div className="rounded-md border bg-background p-3">
-                            <div className="font-medium mb-2">Peer Companies — Same Country</div>
-                            <div className="overflow-x-auto">
-                              <table className="w-full text-sm">
-                                <thead>
-                                  <tr className="text-left border-b">
-                                    {["Company", "Sector", "Country", "Region", "Base Year", "Target Year", "% Reduction"].map((h) => (
-                                      <th key={h} className="py-2 pr-4">{h}</th>
-                                    ))}
-                                  </tr>
-                                </thead>
-                                <tbody>
-                                  {buildPeerDisplay(bench.peers_country).map((r, i) => (
-                                    <tr key={i} className="border-b last:border-0">
-                                      <td className="py-2 pr-4">{r.Company}</td>
-                                      <td className="py-2 pr-4">{r.Sector}</td>
-                                      <td className="py-2 pr-4">{r.Country}</td>
-                                      <td className="py-2 pr-4">{r.Region}</td>
-                                      <td className="py-2 pr-4">{r["Base Year"]}</td>
-                                      <td className="py-2 pr-4">{r["Target Year"]}</td>
-                                      <td className="py-2 pr-4">{r["% Reduction"]}</td>
+                        <TargetSimulator pdfId={pdfId} bench={reportedBench} draft={scenario} onDraftChange={setScenario} />
+
+                        <AmbitionGap gaps={gaps} targetYear={peerBench.company.sbti_target_year} />
+
+                        {peerSets(peerBench).map((p) => {
+                          const full = p.id === "group" ? universe.length : (bench[`peers_${p.id}`]?.length ?? 0)
+                          const note = p.peers.length < full ? (p.id === "group" ? `${p.peers.length} of ${full} peers` : `${sector.profile.name} only`) : null
+                          return (
+                            <div key={p.id} className="rounded-md border bg-background p-3">
+                              <div className="font-medium mb-2">
+                                Peer Companies — {PEER_TABLE_TITLE[p.id] ?? p.label}
+                                {note && <span className="ml-2 text-xs font-normal text-muted-foreground">{note}</span>}
+                              </div>
+                              <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                  <thead>
+                                    <tr className="text-left border-b">
+                                      {["Company", "Sector", "Country", "Region", "Base Year", "Target Year", "% Reduction"].map((h) => (
+                                        <th key={h} className="py-2 pr-4">{h}</th>
+                                      ))}
                                     </tr>
-                                  ))}
-                                </tbody>
-                              </table>
-                            </div>
-                          </div>
-                        )}
-
-                        {Array.isArray(bench?.peers_region) && (
-                          <div className="rounded-md border bg-background p-3">
-                            <div className="font-medium mb-2">Peer Companies — Same Region</div>
-                            <div className="overflow-x-auto">
-                              <table className="w-full text-sm">
-                                <thead>
-                                  <tr className="text-left border-b">
-                                    {["Company", "Sector", "Country", "Region", "Base Year", "Target Year", "% Reduction"].map((h) => (
-                                      <th key={h} className="py-2 pr-4">{h}</th>
+                                  </thead>
+                                  <tbody>
+                                    {buildPeerDisplay(p.peers).map((r, i) => (
+                                      <tr key={i} className="border-b last:border-0">
+                                        <td className="py-2 pr-4">{r.Company}</td>
+                                        <td className="py-2 pr-4">{r.Sector}</td>
+                                        <td className="py-2 pr-4">{r.Country}</td>
+                                        <td className="py-2 pr-4">{r.Region}</td>
+                                        <td className="py-2 pr-4">{r["Base Year"]}</td>
+                                        <td className="py-2 pr-4">{r["Target Year"]}</td>
+                                        <td className="py-2 pr-4">{r["% Reduction"]}</td>
+                                      </tr>
                                     ))}
-                                  </tr>
-                                </thead>
-                                <tbody>
-                                  {buildPeerDisplay(bench.peers_region).map((r, i) => (
-                                    <tr key={i} className="border-b last:border-0">
-                                      <td className="py-2 pr-4">{r.Company}</td>
-                                      <td className="py-2 pr-4">{r.Sector}</td>
-                                      <td className="py-2 pr-4">{r.Country}</td>
-                                      <td className="py-2 pr-4">{r.Region}</td>
-                                      <td className="py-2 pr-4">{r["Base Year"]}</td>
-                                      <td className="py-2 pr-4">{r["Target Year"]}</td>
-                                      <td className="py-2 pr-4">{r["% Reduction"]}</td>
-                                    </tr>
-                                  ))}
-                                </tbody>
-                              </table>
+                                  </tbody>
+                                </table>
+                              </div>
                             </div>
-                          </div>
-                        )}
+                          )
+                        })}
                       </>
                     )}
                   </CardContent>
@@ -1114,6 +1512,7 @@ export default function ESGsmartPage() {
           <CardDescription>Disclosure framework compliance</CardDescription>
         </div>
         <div className="flex items-center gap-2">
+          <LensPicker lens={lens} onChange={changeLens} disabled={!allReady} />
           <Button variant="outline" size="sm" onClick={retryFetch} disabled={!pdfId || fetching}>
             <RefreshCcw className="w-4 h-4 mr-2" />
             Retry
@@ -1124,119 +1523,30 @@ export default function ESGsmartPage() {
     <CardContent className="h-[600px] overflow-y-auto space-y-4">
       {!allReady ? (
         <div className="rounded-md border p-4">
-          <div className="mb-2 text-sm text-muted-foreground">Preparing your gap analysis</div>
-          <IndeterminateBar />
+          <div className="mb-3 text-sm text-muted-foreground">Preparing your gap analysis</div>
+          <PipelineProgress
+            stages={pipeline.stages}
+            failureMessage={pipeline.failureMessage}
+            runPageUrl={jobRun?.runPageUrl}
+            onRetry={retryFetch}
+          />
         </div>
       ) : Array.isArray(gapData) && gapData.length > 0 ? (
         (() => {
-          // Calculate statistics from flat array
-          const totalRecords = gapData.length
-          const severityCounts = { "0": 0, "1": 0, "2": 0, "3": 0 }
-          gapData.forEach((r: any) => {
-            const sev = String(r.severity ?? "")
-            if (sev in severityCounts) severityCounts[sev as keyof typeof severityCounts]++
-          })
-          
-          const missing = severityCounts["3"]
-          const matched = severityCounts["0"]
-          const GRI_NAMES: Record<string, string> = {
-            "201": "Economic Performance",
-  "202": "Market Presence",
-  "203": "Indirect Economic Impacts",
-  "204": "Procurement Practices",
-  "205": "Anti-corruption",
-  "206": "Anti-competitive Behavior",
-  "2": "General Disclosures",
-  "3": "Material Topics",
-  "301": "Materials",
-  "302": "Energy",
-  "303": "Water and Effluents",
-  "304": "Biodiversity",
-  "305": "Emissions",
-  "306": "Waste",
-  "308": "Supplier Environmental Assessment",
-  "401": "Employment",
-  "402": "Labor/Management Relations",
-  "403": "Occupational Health and Safety",
-  "404": "Training and Education",
-  "405": "Diversity and Equal Opportunity",
-  "406": "Non-discrimination",
-  "407": "Freedom of Association",
-  "408": "Child Labor",
-  "409": "Forced or Compulsory Labor",
-  "410": "Security Practices",
-  "411": "Rights of Indigenous Peoples",
-  "413": "Local Communities",
-  "414": "Supplier Social Assessment",
-  "415": "Public Policy",
-  "416": "Customer Health and Safety",
-  "417": "Marketing and Labeling",
-  "418": "Customer Privacy",
-}
-// Clean and standardize reported values
-function cleanReportedValue(value: string | null | undefined): string {
-  if (!value || value === "None") return "Not disclosed"
-  
-  const v = String(value).toLowerCase()
-  
-  // Check for availability patterns
-  if (/financ|financial|accounts|accounting/.test(v)) return "Available in financial records"
-  if (/hr|human\s*resources|personnel/.test(v)) return "Available in HR records"
-  if (/governance|board|minutes|corporate/.test(v)) return "Available in governance documentation"
-  if (/procure|supplier|vendor|purchasing/.test(v)) return "Available in procurement/supplier records"
-  if (/ops|operation|facility|bms|ems|plant/.test(v)) return "Available in operational systems"
-  if (/sustainability\s*report|esg\s*report|annual\s*report/.test(v)) return "Disclosed in sustainability report"
-  if (/available|yes|disclosed|reported/.test(v)) return "Disclosed in sustainability report"
-  if (/not\s*available|no|missing|none/.test(v)) return "Not disclosed"
-  
-  // Return original if no pattern matches
-  return value
-}
-// Convert camelCase or snake_case to Title Case
-// Convert camelCase or snake_case to Title Case
-function camelToTitle(str: string | null | undefined): string {
-  if (!str) return "—"
-  
-  // Convert snake_case to spaces first
-  let cleaned = String(str).replace(/_/g, " ")
-  
-  // Insert space before capital letters (camelCase)
-  cleaned = cleaned.replace(/([a-z])([A-Z])/g, "$1 $2")
-  
-  // Capitalize first letter of each word
-  cleaned = cleaned
-    .split(" ")
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-    .join(" ")
-  
-  return cleaned
-}
+          // Statistics over the rows the selected lens covers
+          const framework = getFramework(lens.framework)
+          const overlay = getOverlay(lens.overlay)
+          const legend = severityLegend(lens)
+          const lensRows = rowsInLens(gapData, lens)
+          const totalRecords = lensRows.length
+          const severityCounts = countSeverities(lensRows)
 
+          // Sector columns come from the pipeline; a different overlay only relabels them
+          const scoredOverlay = detectOverlay(gapData)
+          const overlayMismatch = scoredOverlay !== null && lens.overlay !== "none" && scoredOverlay !== lens.overlay
 
-
-          // Group by GRI category
-          const griGroups: Record<string, Record<number, number>> = {}
-          gapData.forEach((r: any) => {
-            const code = r.framework_question_code || ""
-            const match = code.match(/(?:GRI[- ])?(\d+)[-:]/) || code.match(/^(\d+)/)
-  const category = match ? `GRI ${match[1]}` : "Other"
-            const sev = r.severity ?? 3
-            
-            if (!griGroups[category]) {
-              griGroups[category] = { 0: 0, 1: 0, 2: 0, 3: 0 }
-            }
-            griGroups[category][sev] = (griGroups[category][sev] || 0) + 1
-          })
-
-          // Sort by total count (descending)
-          const sortedGRI = Object.entries(griGroups)
-            .map(([cat, counts]) => ({
-              category: cat,
-              counts,
-              total: Object.values(counts).reduce((a: number, b: number) => a + b, 0),
-            }))
-            .sort((a, b) => b.total - a.total)
-            .slice(0, 15) // Top 15
+          // Group by lens category, top 15 by count
+          const sortedGRI = severityByCategory(gapData, lens, 15)
 
           const colors = { 0: "bg-green-500", 1: "bg-yellow-500", 2: "bg-orange-500", 3: "bg-red-500" }
 
@@ -1244,22 +1554,27 @@ function camelToTitle(str: string | null | undefined): string {
             <>
               {/* Overview */}
               <div className="rounded-md border bg-background p-4 text-sm leading-relaxed">
-                The primary disclosure framework used in this report is <strong>GRI</strong>, and the order of
-                priority is based on the sector-specific framework <strong>IFRS RE</strong> that is used for{" "}
-                <strong>Real Estate</strong>.
-                <br />
-                <br />A total of <strong>{totalRecords} disclosure standards</strong> were assessed. Of these,{" "}
-                <strong>
-                  {missing} disclosures ({((missing / totalRecords) * 100).toFixed(0)}%)
-                </strong>{" "}
-                are classified as &quot;Missing GRI & IFRS RE standards&quot;.
-                <br />
-                <br />
-                Only <strong>{matched} disclosures ({((matched / totalRecords) * 100).toFixed(0)}%)</strong> are
-                fully aligned with both frameworks.
-                <br />
-                <br />
-                Key areas with the most severe gaps include <strong>GRI 305: Emissions, GRI 401: Employment</strong>.
+                The primary disclosure framework used in this view is <strong>{framework.name}</strong>
+                {overlay.short ? (
+                  <>
+                    , and the order of priority is based on the sector-specific framework{" "}
+                    <strong>{overlay.short}</strong> that is used for <strong>{overlay.industry}</strong>.
+                  </>
+                ) : (
+                  <>, with no sector-specific overlay.</>
+                )}
+                {lens.framework !== "gri" && (
+                  <> Disclosures are mapped to {framework.short} through their GRI codes; {gapData.length - totalRecords} fall outside this lens.</>
+                )}
+                {overlayMismatch && (
+                  <span className="block mt-2 text-xs text-amber-700">
+                    Sector statuses in this analysis were scored against {getOverlay(scoredOverlay).short}; severities
+                    still reflect that overlay.
+                  </span>
+                )}
+                {overviewFacts && (
+                  <Narrative kind="gap" facts={overviewFacts} paragraphs={gapNarrative(overviewFacts)} className="mt-3" />
+                )}
               </div>
 
               {/* Gap Analysis by Level of Severity - Stacked by GRI Category */}
@@ -1268,36 +1583,20 @@ function camelToTitle(str: string | null | undefined): string {
                 
                 {/* Legend */}
                 <div className="flex flex-wrap gap-4 mb-4 text-xs">
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 rounded bg-green-500"></div>
-                    <span>0 – GRI & IFRS RE Present</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 rounded bg-yellow-500"></div>
-                    <span>1 – Partial (no IFRS RE)</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 rounded bg-orange-500"></div>
-                    <span>2 – Partial GRI & IFRS RE</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 rounded bg-red-500"></div>
-                    <span>3 – Missing GRI & IFRS RE</span>
-                  </div>
+                  {([0, 1, 2, 3] as const).map((sev) => (
+                    <div key={sev} className="flex items-center gap-2">
+                      <div className={`w-4 h-4 rounded ${colors[sev]}`}></div>
+                      <span>{sev} – {legend[sev]}</span>
+                    </div>
+                  ))}
                 </div>
 
                 {/* Stacked bars by GRI category */}
                 <div className="space-y-2">
-                  {sortedGRI.map(({ category, counts, total }) => {
+                  {sortedGRI.map(({ category, label, counts, total }) => {
                     return (
                       <div key={category} className="flex items-center gap-3">
-                        <div className="w-48 text-sm text-right">
-  {category}
-  {(() => {
-    const num = category.replace("GRI ", "")
-    return GRI_NAMES[num] ? `: ${GRI_NAMES[num]}` : ""
-  })()}
-</div>
+                        <div className="w-48 text-sm text-right">{label}</div>
 
                         <div className="flex-1 flex items-center">
   <div className="flex h-7 rounded overflow-hidden border" style={{ width: `${(total / Math.max(...sortedGRI.map(g => g.total))) * 100}%` }}>
@@ -1320,6 +1619,25 @@ function camelToTitle(str: string | null | undefined): string {
 </div>
 
                         <div className="w-12 text-sm text-muted-foreground text-right">{total}</div>
+                        {/* Remediation progress for this category's gaps */}
+                        <div className="w-28 text-xs text-muted-foreground" title="Gaps closed / gaps in category">
+                          {remediationRollup[category] ? (
+                            <>
+                              <div className="h-1.5 rounded bg-muted overflow-hidden">
+                                <div
+                                  className="h-full bg-[#007A72]"
+                                  style={{ width: `${(remediationRollup[category].closed / remediationRollup[category].total) * 100}%` }}
+                                />
+                              </div>
+                              <div className="mt-0.5">
+                                {remediationRollup[category].closed}/{remediationRollup[category].total} closed
+                                {remediationRollup[category].overdue > 0 && (
+                                  <span className="text-red-700"> · {remediationRollup[category].overdue} overdue</span>
+                                )}
+                              </div>
+                            </>
+                          ) : null}
+                        </div>
                       </div>
                     )
                   })}
@@ -1328,26 +1646,16 @@ function camelToTitle(str: string | null | undefined): string {
 
               {/* Overall distribution with legend */}
               <div className="rounded-md border bg-background p-4">
-                <div className="font-medium mb-3">GRI Severity Distribution — Overall (IFRS RE Lens)</div>
+                <div className="font-medium mb-3">Severity Distribution — Overall ({lensName(lens)} Lens)</div>
                 
                 {/* Legend */}
                 <div className="flex flex-wrap gap-4 mb-3 text-xs">
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 rounded bg-green-500"></div>
-                    <span>0 – GRI & IFRS RE Present</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 rounded bg-yellow-500"></div>
-                    <span>1 – Partial (no IFRS RE)</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 rounded bg-orange-500"></div>
-                    <span>2 – Partial GRI & IFRS RE</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 rounded bg-red-500"></div>
-                    <span>3 – Missing GRI & IFRS RE</span>
-                  </div>
+                  {([0, 1, 2, 3] as const).map((sev) => (
+                    <div key={sev} className="flex items-center gap-2">
+                      <div className={`w-4 h-4 rounded ${colors[sev]}`}></div>
+                      <span>{sev} – {legend[sev]}</span>
+                    </div>
+                  ))}
                 </div>
 
                 {/* Stacked bar */}
@@ -1355,14 +1663,13 @@ function camelToTitle(str: string | null | undefined): string {
                   {[3, 2, 1, 0].map((sev) => {
                     const count = severityCounts[sev as keyof typeof severityCounts]
                     const pct = totalRecords > 0 ? (count / totalRecords) * 100 : 0
-                    const labels = { 3: "Missing", 2: "Partial GRI+IFRS", 1: "Partial", 0: "Present" }
                     if (count === 0) return null
                     return (
                       <div
                         key={sev}
                         className={`${colors[sev as keyof typeof colors]} flex items-center justify-center text-white text-sm font-medium hover:opacity-90 transition-opacity`}
                         style={{ width: `${pct}%` }}
-                        title={`${labels[sev as keyof typeof labels]}: ${count} (${pct.toFixed(1)}%)`}
+                        title={`${legend[sev as keyof typeof legend]}: ${count} (${pct.toFixed(1)}%)`}
                       >
                         {pct > 8 ? count : ""}
                       </div>
@@ -1372,113 +1679,43 @@ function camelToTitle(str: string | null | undefined): string {
 
                 {/* Summary stats */}
                 <div className="grid grid-cols-4 gap-2 mt-3 text-xs text-center">
-                  {[
-                    { sev: 0, label: "Present", color: "text-green-700" },
-                    { sev: 1, label: "Partial", color: "text-yellow-700" },
-                    { sev: 2, label: "Partial GRI+IFRS", color: "text-orange-700" },
-                    { sev: 3, label: "Missing", color: "text-red-700" },
-                  ].map(({ sev, label, color }) => {
+                  {([
+                    { sev: 0, color: "text-green-700" },
+                    { sev: 1, color: "text-yellow-700" },
+                    { sev: 2, color: "text-orange-700" },
+                    { sev: 3, color: "text-red-700" },
+                  ] as const).map(({ sev, color }) => {
                     const count = severityCounts[sev as keyof typeof severityCounts]
                     const pct = totalRecords > 0 ? ((count / totalRecords) * 100).toFixed(0) : 0
                     return (
                       <div key={sev}>
                         <div className={`font-medium ${color}`}>{count}</div>
-                        <div className="text-muted-foreground">{label} ({pct}%)</div>
+                        <div className="text-muted-foreground">{legend[sev]} ({pct}%)</div>
                       </div>
                     )
                   })}
                 </div>
               </div>
 
-              {/* Full mapping table */}
-              {/* Full mapping table with cleaning */}
-{/* Full mapping table - Clean scrollable design */}
-<div className="rounded-md border bg-background p-3">
-  <div className="font-medium mb-2">Full Disclosure Mapping</div>
-  <div className="text-xs text-muted-foreground mb-3">
-    All {gapData.length} disclosures • Scroll to see all data
-  </div>
-  
-  {/* Scrollable container */}
-  <div 
-    className="overflow-auto rounded-lg border" 
-    style={{ maxHeight: "500px" }}
-  >
-    <table className="w-full text-sm">
-      <thead>
-        <tr className="bg-muted/50 text-left border-b">
-          <th className="py-3 px-4 font-medium whitespace-nowrap">Reported Standard</th>
-          <th className="py-3 px-4 font-medium whitespace-nowrap">Reported Value</th>
-          <th className="py-3 px-4 font-medium whitespace-nowrap">Main Framework Code</th>
-          <th className="py-3 px-4 font-medium">Main Framework Question</th>
-          <th className="py-3 px-4 font-medium whitespace-nowrap">Main Framework Status</th>
-          <th className="py-3 px-4 font-medium whitespace-nowrap">Sector Framework Code</th>
-          <th className="py-3 px-4 font-medium">Sector Framework Question</th>
-          <th className="py-3 px-4 font-medium whitespace-nowrap">Sector Status</th>
-          <th className="py-3 px-4 font-medium whitespace-nowrap">Severity</th>
-        </tr>
-      </thead>
-      <tbody className="bg-background">
-        {gapData.map((row: any, i: number) => {
-          const reportedStd = camelToTitle(row.source_question_code)
-          const reportedVal = cleanReportedValue(row.value)
-          const mainCode = row.framework_question_code || "—"
-          const mainQuestion = row.framework_question_name || "—"
-          const mainStatus = row.framework_status || "—"
-          const sectorCode = row.sector_question_code || "—"
-          const sectorQuestion = row.sector_question_name || "—"
-          const sectorStatus = row.sector_status || "—"
-          const severity = row.severity ?? "—"
-          
-          const severityColors: Record<number, string> = {
-            0: "text-green-700 bg-green-50",
-            1: "text-yellow-700 bg-yellow-50",
-            2: "text-orange-700 bg-orange-50",
-            3: "text-red-700 bg-red-50"
-          }
-          const severityLabels: Record<number, string> = {
-            0: "Present",
-            1: "Partial",
-            2: "Partial GRI+IFRS",
-            3: "Missing"
-          }
-          
-          return (
-            <tr key={i} className="border-b last:border-0 hover:bg-muted/10 transition-colors">
-              <td className="py-2.5 px-4  text-xs whitespace-nowrap">{reportedStd}</td>
-              <td className="py-2.5 px-4 whitespace-nowrap">
-                <span className={reportedVal === "Not disclosed" ? "text-muted-foreground italic" : ""}>
-                  {reportedVal}
-                </span>
-              </td>
-              <td className="py-2.5 px-4  text-xs whitespace-nowrap">{mainCode}</td>
-              <td className="py-2.5 px-4 text-xs" style={{ minWidth: "300px", maxWidth: "500px" }}>
-                {mainQuestion}
-              </td>
-              <td className="py-2.5 px-4 text-xs whitespace-nowrap">{mainStatus}</td>
-              <td className="py-2.5 px-4  text-xs whitespace-nowrap">{sectorCode}</td>
-              <td className="py-2.5 px-4 text-xs" style={{ minWidth: "300px", maxWidth: "500px" }}>
-                {sectorQuestion}
-              </td>
-              <td className="py-2.5 px-4 text-xs whitespace-nowrap">{sectorStatus}</td>
-              <td className="py-2.5 px-4 whitespace-nowrap">
-                <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${
-                  severityColors[severity as keyof typeof severityColors] || ""
-                }`}>
-                  {severityLabels[severity as keyof typeof severityLabels] || severity}
-                </span>
-              </td>
-            </tr>
-          )
-        })}
-      </tbody>
-    </table>
-  </div>
-  
-  <div className="text-xs text-muted-foreground mt-2 text-center">
-    Showing all {gapData.length} disclosures with 9 columns
-  </div>
-</div>
+              {/* Full mapping grid: sort, search, filters and grouping (state in the URL) */}
+              <div className="rounded-md border bg-background p-3">
+                <div className="font-medium mb-2">Full Disclosure Mapping</div>
+                <DisclosureGrid
+                  rows={gapData}
+                  lens={lens}
+                  onRowClick={openEvidence}
+                  extraColumn={{
+                    header: "Remediation",
+                    render: (row) =>
+                      row?.framework_question_code && Number(row?.severity ?? 3) > 0 ? (
+                        <RemediationCell
+                          item={remediation[row.framework_question_code]}
+                          onSave={(patch) => saveRemediation(row, patch)}
+                        />
+                      ) : null,
+                  }}
+                />
+              </div>
 
 
             </>
@@ -1504,6 +1741,11 @@ function camelToTitle(str: string | null | undefined): string {
                   <CardTitle className="flex items-center gap-1">
                     <MessageCircle className="w-4 h-4 text-primary" />
                     ESGsmart AI Assistant
+                    {chatMessages.length > 0 && (
+                      <Button variant="ghost" size="sm" className="ml-auto h-7 px-2 text-xs" onClick={handleNewChat} disabled={isTyping}>
+                        New chat
+                      </Button>
+                    )}
                   </CardTitle>
                   <CardDescription>Chat with our AI about your ESG document</CardDescription>
                 </CardHeader>
@@ -1539,7 +1781,15 @@ function camelToTitle(str: string | null | undefined): string {
                       : "bg-background border"
                   }`}
                 >
-                  {m.content}
+                  {m.role === "ai" ? (
+                    <CitedText
+                      text={m.content}
+                      citations={m.citations}
+                      onOpenPage={(page) => openReportPage(page, m.citations?.find((c) => c.page === page)?.snippet)}
+                    />
+                  ) : (
+                    m.content
+                  )}
                 </div>
               </div>
             ))}{isTyping && chatMessages[chatMessages.length - 1]?.content === "" && (
@@ -1553,6 +1803,14 @@ function camelToTitle(str: string | null | undefined): string {
       </div>
     </div>
   )}
+            {!isTyping && chatMessages[chatMessages.length - 1]?.role === "ai" && (
+              <div className="flex justify-start">
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={handleRegenerate}>
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  Regenerate
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -1565,16 +1823,23 @@ function camelToTitle(str: string | null | undefined): string {
           onChange={(e) => setCurrentMessage(e.target.value)}
           onKeyDown={(e) => e.key === "Enter" && handleSendMessage()}
         />
-        <Button onClick={handleSendMessage} disabled={!currentMessage.trim()}>
-          Send
-        </Button>
+        {isTyping ? (
+          <Button variant="outline" onClick={handleStopMessage}>
+            <Square className="w-3 h-3 mr-1" />
+            Stop
+          </Button>
+        ) : (
+          <Button onClick={handleSendMessage} disabled={!currentMessage.trim()}>
+            Send
+          </Button>
+        )}
       </div>
 
       {/* FAQs - Always visible below input */}
       <div className="mt-3 border-t pt-3">
         <div className="text-xs font-medium text-muted-foreground mb-2">Quick questions:</div>
         <div className="grid grid-cols-1 gap-1.5">
-          {QUICK_QUESTIONS.map((q) => (
+          {sector.profile.quickQuestions.map((q) => (
             <button
               key={q}
               onClick={() => handleFAQClick(q)}
@@ -1595,8 +1860,40 @@ function camelToTitle(str: string | null | undefined): string {
         )}
       </div>
 
+      {/* Report viewer: gap evidence and citation chips */}
+      <Sheet open={viewer.open} onOpenChange={(open) => setViewer((v) => ({ ...v, open }))}>
+        <SheetContent side="right" className="w-full sm:max-w-3xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="pr-6">{viewer.title || "Report"}</SheetTitle>
+            <SheetDescription>
+              {viewer.status === "loading"
+                ? "Searching the report for evidence…"
+                : viewer.status === "none"
+                ? "No evidence found in the report for this disclosure."
+                : viewer.status === "error"
+                ? viewer.message
+                : reportName}
+            </SheetDescription>
+          </SheetHeader>
+          <div className="px-4 pb-4">
+            {viewer.status === "found" ? (
+              <PdfViewer
+                file={uploadedFile}
+                page={viewer.page}
+                highlight={viewer.highlight}
+                onPageChange={(page) => setViewer((v) => ({ ...v, page }))}
+              />
+            ) : viewer.status === "loading" ? (
+              <IndeterminateBar />
+            ) : viewer.status === "none" ? (
+              <div className="rounded-md border bg-muted/20 p-4 text-sm text-muted-foreground">no evidence found</div>
+            ) : null}
+          </div>
+        </SheetContent>
+      </Sheet>
+
       {/* Hidden file input for Upload New Document */}
-      {uploadedFile && (
+      {reportName && (
         <Input
           ref={fileInputRefNew}
           type="file"
@@ -0,0 +1,169 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, CalendarClock, ExternalLink, ListChecks, RefreshCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ASSIGNEE_KEY, REMEDIATION_STYLE } from "@/components/RemediationCell"
+import { REMEDIATION_STATUSES, isOverdue, type ActionItem, type RemediationStatus } from "@/lib/remediation"
+
+/** "My actions": tracked gap items across all reports, one column per status. */
+export default function ActionsBoard() {
+  const router = useRouter()
+  const [assignee, setAssignee] = useState("")
+  const [everyone, setEveryone] = useState(false)
+  const [actions, setActions] = useState<ActionItem[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const saved = window.localStorage.getItem(ASSIGNEE_KEY) || ""
+    setAssignee(saved)
+    if (!saved) setEveryone(true)
+  }, [])
+
+  const load = async (who: string | null) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const q = who ? `?assignee=${encodeURIComponent(who)}` : ""
+      const r = await fetch(`/api/databricks/remediation${q}`, { cache: "no-store" })
+      const j = await r.json().catch(() => ({}))
+      if (!r.ok) throw new Error(j?.error || `Actions failed ${r.status}`)
+      setActions(Array.isArray(j?.actions) ? j.actions : [])
+    } catch (e: any) {
+      setError(e?.message || "Couldn't load actions")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const who = everyone ? null : assignee.trim() || null
+  // Debounced so typing a name doesn't re-read every report per keystroke
+  useEffect(() => {
+    const t = setTimeout(() => load(who), 400)
+    return () => clearTimeout(t)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [who])
+
+  const onAssignee = (v: string) => {
+    setAssignee(v)
+    window.localStorage.setItem(ASSIGNEE_KEY, v.trim())
+  }
+
+  const moveTo = async (a: ActionItem, status: RemediationStatus) => {
+    const prev = actions
+    setActions((list) => list.map((x) => (x.pdfId === a.pdfId && x.code === a.code ? { ...x, status } : x)))
+    try {
+      const r = await fetch(`/api/databricks/remediation/${encodeURIComponent(a.pdfId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: a.code, status }),
+      })
+      if (!r.ok) throw new Error(`Update failed ${r.status}`)
+    } catch (e: any) {
+      setActions(prev)
+      setError(e?.message || "Update failed")
+    }
+  }
+
+  const overdueCount = actions.filter((a) => isOverdue(a)).length
+
+  return (
+    <div className="mx-auto max-w-[92%] px-6 py-8 space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="sm" onClick={() => router.push("/")}>
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <img src="/ESGsmart.png" alt="ESGsmart" className="h-14 w-auto" />
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="w-5 h-5" />
+            My actions
+          </CardTitle>
+          <CardDescription>
+            Gap remediation tracked across all analysed reports
+            {actions.length > 0 && ` · ${actions.length} items`}
+            {overdueCount > 0 && <span className="text-red-700"> · {overdueCount} overdue</span>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col md:flex-row md:items-center gap-3">
+          <Input
+            className="md:w-64"
+            value={assignee}
+            onChange={(e) => onAssignee(e.target.value)}
+            placeholder="Your name"
+            disabled={everyone}
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={everyone} onChange={(e) => setEveryone(e.target.checked)} />
+            Everyone&apos;s actions
+          </label>
+          <Button variant="outline" size="sm" onClick={() => load(who)} disabled={loading}>
+            <RefreshCcw className="w-4 h-4 mr-2" />
+            {loading ? "Loading…" : "Refresh"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {error && <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {REMEDIATION_STATUSES.map((status) => {
+          const column = actions.filter((a) => a.status === status)
+          return (
+            <div key={status} className="rounded-md border bg-muted/20 p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className={`rounded px-1.5 py-0.5 text-xs ${REMEDIATION_STYLE[status]}`}>{status}</span>
+                <span className="text-xs text-muted-foreground">{column.length}</span>
+              </div>
+              {column.length === 0 && <div className="text-xs text-muted-foreground">Nothing here.</div>}
+              {column.map((a) => (
+                <div key={`${a.pdfId}:${a.code}`} className="rounded-md border bg-background p-3 space-y-1.5 text-sm">
+                  <div className="font-mono text-xs">{a.code}</div>
+                  {a.question && <div className="line-clamp-3">{a.question}</div>}
+                  <div className="text-xs text-muted-foreground truncate" title={a.fileName || a.pdfId}>
+                    {a.company || a.fileName || a.pdfId}
+                    {everyone && a.assignee ? ` · ${a.assignee}` : ""}
+                  </div>
+                  {a.dueDate && (
+                    <div className={`inline-flex items-center gap-1 text-xs ${isOverdue(a) ? "text-red-700" : "text-muted-foreground"}`}>
+                      <CalendarClock className="w-3 h-3" />
+                      Due {a.dueDate}
+                    </div>
+                  )}
+                  {a.notes && <div className="text-xs text-muted-foreground line-clamp-2">{a.notes}</div>}
+                  <div className="flex items-center gap-2 pt-1">
+                    <Select value={a.status} onValueChange={(v) => moveTo(a, v as RemediationStatus)}>
+                      <SelectTrigger size="sm" className="h-7 text-xs flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REMEDIATION_STATUSES.map((s) => (
+                          <SelectItem key={s} value={s}>{s}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <a
+                      href={`/?open=${encodeURIComponent(a.pdfId)}&tab=gap`}
+                      className="inline-flex items-center gap-1 text-xs text-[#007A72] hover:underline"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                      Report
+                    </a>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
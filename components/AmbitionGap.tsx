@@ -0,0 +1,49 @@
+"use client"
+
+import React from "react"
+import { Check, TriangleAlert } from "lucide-react"
+import type { AmbitionGap as Gap } from "@/lib/pathways"
+
+const pct = (f: number) => `${(f * 100).toFixed(1)}%`
+
+/** Stated Scope 1+2 target against the 1.5°C and well-below 2°C pathways. */
+export default function AmbitionGap({ gaps, targetYear }: { gaps: Gap[]; targetYear: number | string }) {
+  if (!gaps.length) return null
+  return (
+    <div className="rounded-md border bg-background p-3 text-sm">
+      <div className="font-medium mb-2">Science-based ambition (Scope 1+2, by {targetYear})</div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {gaps.map((g) => (
+          <div key={g.pathway.id} className="rounded-md border px-3 py-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{g.pathway.name}</span>
+              {g.aligned === true && (
+                <span className="inline-flex items-center gap-1 text-xs text-green-700">
+                  <Check className="w-3 h-3" />
+                  Aligned
+                </span>
+              )}
+              {g.aligned === false && (
+                <span className="inline-flex items-center gap-1 text-xs text-amber-700">
+                  <TriangleAlert className="w-3 h-3" />
+                  Short
+                </span>
+              )}
+            </div>
+            <div className="mt-1 text-xs text-muted-foreground">
+              Requires {pct(g.requiredPct)} ({(g.pathway.annualRate * 100).toFixed(1)}%/yr) · stated{" "}
+              {g.statedPct == null ? "n/a" : pct(g.statedPct)}
+            </div>
+            {g.gapPp != null && g.gapTonnes != null && (
+              <div className="mt-1 tabular-nums">
+                {g.aligned
+                  ? `Exceeds by ${Math.abs(g.gapPp).toFixed(1)} pp (${Math.round(Math.abs(g.gapTonnes)).toLocaleString()} tCO2e)`
+                  : `Gap ${g.gapPp.toFixed(1)} pp (${Math.round(g.gapTonnes).toLocaleString()} tCO2e)`}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import React from "react"
+import Link from "next/link"
+import { GitCompare, History, ListChecks, RefreshCcw, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import type { AnalysisRecord, AnalysisStatus } from "@/lib/analyses"
+
+const STATUS_STYLE: Record<AnalysisStatus, string> = {
+  ready: "bg-green-100 text-green-800",
+  processing: "bg-amber-100 text-amber-800",
+  failed: "bg-red-100 text-red-800",
+}
+
+const fmtDate = (iso: string) => {
+  const d = new Date(iso)
+  return isNaN(d.getTime()) ? "" : d.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+/** Previously analysed reports on the upload screen; clicking one reopens it. */
+export default function AnalysisHistory({
+  items,
+  loading,
+  error,
+  onOpen,
+  onRemove,
+  onRefresh,
+}: {
+  items: AnalysisRecord[]
+  loading?: boolean
+  error?: string | null
+  onOpen: (item: AnalysisRecord) => void
+  onRemove?: (item: AnalysisRecord) => void
+  onRefresh?: () => void
+}) {
+  return (
+    <Card className="h-full">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <History className="w-4 h-4" />
+              Previous analyses
+            </CardTitle>
+            <CardDescription>Reopen a report without uploading it again</CardDescription>
+          </div>
+          {onRefresh && (
+            <Button variant="ghost" size="sm" onClick={onRefresh} disabled={loading} title="Refresh">
+              <RefreshCcw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="max-h-[60vh] overflow-y-auto space-y-2">
+        {error && <div className="text-sm text-red-700">{error}</div>}
+        {!error && !loading && items.length === 0 && (
+          <div className="text-sm text-muted-foreground">No analyses yet. Upload a report to get started.</div>
+        )}
+        {items.map((item) => (
+          <div
+            key={item.pdfId}
+            className="group flex items-start gap-2 rounded-md border px-3 py-2 text-sm hover:bg-accent/50"
+          >
+            <button className="flex-1 min-w-0 text-left" onClick={() => onOpen(item)}>
+              <div className="font-medium truncate">{item.company || item.fileName || item.pdfId}</div>
+              {item.company && item.fileName && (
+                <div className="text-xs text-muted-foreground truncate">{item.fileName}</div>
+              )}
+              <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                <span className={`rounded px-1.5 py-0.5 ${STATUS_STYLE[item.status] || ""}`}>{item.status}</span>
+                <span>{fmtDate(item.uploadedAt)}</span>
+              </div>
+            </button>
+            {onRemove && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="opacity-0 group-hover:opacity-100"
+                onClick={() => onRemove(item)}
+                title="Remove from history"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {items.filter((it) => it.status === "ready").length >= 2 && (
+          <Link href="/compare" className="flex items-center gap-1.5 pt-2 text-sm text-[#007A72] hover:underline">
+            <GitCompare className="w-4 h-4" />
+            Compare two reports year over year
+          </Link>
+        )}
+        {items.some((it) => it.status === "ready") && (
+          <Link href="/actions" className="flex items-center gap-1.5 pt-1 text-sm text-[#007A72] hover:underline">
+            <ListChecks className="w-4 h-4" />
+            My actions
+          </Link>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
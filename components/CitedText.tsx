@@ -0,0 +1,46 @@
+"use client"
+
+import React from "react"
+import { CITATION_RE, parseCitedPages, type Citation } from "@/lib/citations"
+
+/**
+ * Renders assistant text with "[p. 42]"-style references turned into clickable
+ * page chips. `citations` (from the chat route) supplies the hover snippet.
+ */
+export default function CitedText({
+  text,
+  citations = [],
+  onOpenPage,
+}: {
+  text: string
+  citations?: Citation[]
+  onOpenPage?: (page: number) => void
+}) {
+  const byPage = new Map(citations.map((c) => [c.page, c]))
+  const parts: React.ReactNode[] = []
+  let last = 0
+
+  for (const m of Array.from(text.matchAll(new RegExp(CITATION_RE.source, "g")))) {
+    const at = m.index ?? 0
+    if (at > last) parts.push(text.slice(last, at))
+    for (const page of parseCitedPages(m[1])) {
+      const c = byPage.get(page)
+      parts.push(
+        <button
+          key={`${at}-${page}`}
+          type="button"
+          onClick={() => onOpenPage?.(page)}
+          disabled={!onOpenPage}
+          title={c ? c.snippet : `Page ${page}`}
+          className="mx-0.5 inline-flex items-center rounded-full border border-[#007A72]/40 bg-[#007A72]/10 px-1.5 py-0 text-[10px] font-medium text-[#007A72] align-baseline hover:bg-[#007A72]/20 disabled:cursor-default"
+        >
+          p. {page}
+        </button>
+      )
+    }
+    last = at + m[0].length
+  }
+  if (last < text.length) parts.push(text.slice(last))
+
+  return <span className="whitespace-pre-wrap">{parts}</span>
+}
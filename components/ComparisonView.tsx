@@ -0,0 +1,273 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, ArrowRight, GitCompare } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { AnalysisRecord } from "@/lib/analyses"
+import type { Comparison, GapMove } from "@/lib/compare"
+import { DEFAULT_LENS, lensName, severityLegend } from "@/lib/frameworks"
+import type { Severity as SeverityLevel } from "@/lib/gap"
+
+const SEVERITY_STYLE: Record<number, string> = {
+  0: "text-green-700 bg-green-50",
+  1: "text-yellow-700 bg-yellow-50",
+  2: "text-orange-700 bg-orange-50",
+  3: "text-red-700 bg-red-50",
+}
+
+const fmtNum = (n: number | null) => (n == null ? "—" : n.toLocaleString(undefined, { maximumFractionDigits: 2 }))
+
+type SeverityLabels = Record<SeverityLevel, string>
+
+function Severity({ value, labels }: { value: number | null; labels: SeverityLabels }) {
+  if (value == null) return <span className="text-muted-foreground">—</span>
+  return <span className={`inline-block rounded px-2 py-0.5 text-xs ${SEVERITY_STYLE[value]}`}>{labels[value as SeverityLevel]}</span>
+}
+
+function GapTable({ title, rows, tone, labels }: { title: string; rows: GapMove[]; tone: string; labels: SeverityLabels }) {
+  if (!rows.length) return null
+  return (
+    <div>
+      <div className={`font-medium mb-2 ${tone}`}>
+        {title} ({rows.length})
+      </div>
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/30 text-left text-xs text-muted-foreground">
+            <tr>
+              <th className="py-2 px-3 font-medium whitespace-nowrap">Code</th>
+              <th className="py-2 px-3 font-medium">Question</th>
+              <th className="py-2 px-3 font-medium">Before</th>
+              <th className="py-2 px-3 font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.code} className="border-t">
+                <td className="py-2 px-3 font-mono text-xs whitespace-nowrap">{r.code}</td>
+                <td className="py-2 px-3">{r.question || "—"}</td>
+                <td className="py-2 px-3"><Severity value={r.before} labels={labels} /></td>
+                <td className="py-2 px-3"><Severity value={r.after} labels={labels} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+/** Year-over-year comparison of two analysed reports (GET /api/databricks/compare). */
+export default function ComparisonView({ initialA, initialB }: { initialA: string | null; initialB: string | null }) {
+  const router = useRouter()
+  const [analyses, setAnalyses] = useState<AnalysisRecord[]>([])
+  const [a, setA] = useState<string | null>(initialA)
+  const [b, setB] = useState<string | null>(initialB)
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch("/api/databricks/analyses", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => setAnalyses(Array.isArray(j?.analyses) ? j.analyses.filter((x: AnalysisRecord) => x.status === "ready") : []))
+      .catch((e) => console.error("[compare] history error:", e))
+  }, [])
+
+  const runCompare = async (x: string, y: string) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const r = await fetch(`/api/databricks/compare?a=${encodeURIComponent(x)}&b=${encodeURIComponent(y)}`, { cache: "no-store" })
+      const j = await r.json().catch(() => ({}))
+      if (!r.ok) throw new Error(j?.error || `Comparison failed ${r.status}`)
+      setComparison(j.comparison)
+    } catch (e: any) {
+      setComparison(null)
+      setError(e?.message || "Comparison failed")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Deep links (?a=&b=) compare straight away
+  useEffect(() => {
+    if (initialA && initialB) runCompare(initialA, initialB)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const onCompare = () => {
+    if (!a || !b) return
+    router.replace(`/compare?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}`)
+    runCompare(a, b)
+  }
+
+  const label = (x: AnalysisRecord) => `${x.company || x.fileName || x.pdfId}${x.company && x.fileName ? ` — ${x.fileName}` : ""}`
+  const picker = (value: string | null, onChange: (v: string) => void, placeholder: string) => (
+    <Select value={value ?? undefined} onValueChange={onChange}>
+      <SelectTrigger className="w-full md:w-80">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {analyses.map((x) => (
+          <SelectItem key={x.pdfId} value={x.pdfId}>{label(x)}</SelectItem>
+        ))}
+        {value && !analyses.some((x) => x.pdfId === value) && <SelectItem value={value}>{value}</SelectItem>}
+      </SelectContent>
+    </Select>
+  )
+
+  const c = comparison
+  const sideLabel = (s: Comparison["before"]) => [s.company, s.year].filter(Boolean).join(" ") || s.pdfId
+  // Severity wording follows the later report's saved framework lens
+  const lens = analyses.find((x) => x.pdfId === c?.after.pdfId)?.lens ?? DEFAULT_LENS
+  const labels = severityLegend(lens)
+
+  return (
+    <div className="mx-auto max-w-[92%] px-6 py-8 space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="sm" onClick={() => router.push("/")}>
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <img src="/ESGsmart.png" alt="ESGsmart" className="h-14 w-auto" />
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="w-5 h-5" />
+            Year-over-year comparison
+          </CardTitle>
+          <CardDescription>Pick two analysed reports from the same company, e.g. FY2023 and FY2024.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col md:flex-row md:items-center gap-3">
+          {picker(a, setA, "Earlier report")}
+          <ArrowRight className="hidden md:block w-4 h-4 text-muted-foreground" />
+          {picker(b, setB, "Later report")}
+          <Button onClick={onCompare} disabled={!a || !b || a === b || loading}>
+            {loading ? "Comparing…" : "Compare"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {error && <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>}
+
+      {c && (
+        <>
+          <div className="text-lg font-semibold">
+            {sideLabel(c.before)} <span className="text-muted-foreground">→</span> {sideLabel(c.after)}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Environmental metrics</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead className="text-left text-xs text-muted-foreground">
+                    <tr>
+                      <th className="py-2 pr-3 font-medium">Metric</th>
+                      <th className="py-2 pr-3 font-medium text-right">Before</th>
+                      <th className="py-2 pr-3 font-medium text-right">After</th>
+                      <th className="py-2 font-medium text-right">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {c.metrics.map((m) => (
+                      <tr key={m.label} className="border-t">
+                        <td className="py-2 pr-3">
+                          {m.label}
+                          {m.unit && <span className="text-xs text-muted-foreground"> ({m.unit})</span>}
+                        </td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{fmtNum(m.before)}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{fmtNum(m.after)}</td>
+                        {/* Lower consumption and emissions read as improvement */}
+                        <td className={`py-2 text-right tabular-nums ${m.delta == null || m.delta === 0 ? "" : m.delta < 0 ? "text-green-700" : "text-red-700"}`}>
+                          {m.delta == null ? "—" : `${m.delta > 0 ? "+" : ""}${fmtNum(m.delta)}`}
+                          {m.pct != null && ` (${m.pct > 0 ? "+" : ""}${(m.pct * 100).toFixed(1)}%)`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">SBTi target parameters</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead className="text-left text-xs text-muted-foreground">
+                    <tr>
+                      <th className="py-2 pr-3 font-medium">Parameter</th>
+                      <th className="py-2 pr-3 font-medium text-right">Before</th>
+                      <th className="py-2 font-medium text-right">After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {c.sbti.map((f) => (
+                      <tr key={f.label} className={`border-t ${f.changed ? "bg-amber-50" : ""}`}>
+                        <td className="py-2 pr-3">{f.label}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{f.before ?? "—"}</td>
+                        <td className="py-2 text-right tabular-nums font-medium">{f.after ?? "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Frameworks, material topics and SDGs</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              {c.lists.map((l) => (
+                <div key={l.label} className="rounded-md border p-3">
+                  <div className="font-medium mb-2">{l.label}</div>
+                  {!l.added.length && !l.removed.length ? (
+                    <div className="text-muted-foreground">No change{l.kept.length ? ` (${l.kept.length} kept)` : ""}</div>
+                  ) : (
+                    <div className="flex flex-wrap gap-1.5">
+                      {l.added.map((x) => (
+                        <span key={`+${x}`} className="rounded bg-green-50 px-2 py-0.5 text-xs text-green-800">+ {x}</span>
+                      ))}
+                      {l.removed.map((x) => (
+                        <span key={`-${x}`} className="rounded bg-red-50 px-2 py-0.5 text-xs text-red-800 line-through">{x}</span>
+                      ))}
+                      {l.kept.length > 0 && <span className="text-xs text-muted-foreground self-center">{l.kept.length} kept</span>}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Disclosure gaps</CardTitle>
+              <CardDescription>
+                {lensName(lens)} · {c.gap.resolved.length} resolved · {c.gap.improved.length} improved · {c.gap.regressed.length} regressed ·{" "}
+                {c.gap.added.length} new · {c.gap.removed.length} dropped · {c.gap.unchanged} unchanged
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <GapTable title={`Resolved (${labels[3]} → ${labels[0]})`} rows={c.gap.resolved} tone="text-green-700" labels={labels} />
+              <GapTable title="Regressed" rows={c.gap.regressed} tone="text-red-700" labels={labels} />
+              <GapTable title="Improved" rows={c.gap.improved} tone="text-green-700" labels={labels} />
+              <GapTable title="New disclosures in the later report" rows={c.gap.added} tone="" labels={labels} />
+              <GapTable title="Dropped from the later report" rows={c.gap.removed} tone="" labels={labels} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,323 @@
+"use client"
+
+import React, { useEffect, useMemo, useRef, useState } from "react"
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Columns3, Filter, Layers, Search, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { DISCLOSURE_COLUMNS, SEVERITY_SHORT, type DisclosureColumnKey, type Severity } from "@/lib/gap"
+import {
+  EMPTY_GRID_STATE,
+  applyGridState,
+  categoryLabel,
+  facetOptions,
+  groupByCategory,
+  parseGridState,
+  writeGridState,
+  type FacetKey,
+  type GridState,
+} from "@/lib/disclosure-grid"
+import { getFramework, type Lens } from "@/lib/frameworks"
+
+const SEVERITY_STYLE: Record<number, string> = {
+  0: "text-green-700 bg-green-50",
+  1: "text-yellow-700 bg-yellow-50",
+  2: "text-orange-700 bg-orange-50",
+  3: "text-red-700 bg-red-50",
+}
+
+// Long free-text columns get a minimum width; the rest stay on one line
+const WIDE: DisclosureColumnKey[] = ["mainQuestion", "sectorQuestion"]
+
+function facets(lens: Lens): Array<{ key: FacetKey; label: string; format?: (v: string) => string }> {
+  return [
+    { key: "severity", label: "Severity", format: (v) => `${v} – ${SEVERITY_SHORT[Number(v) as Severity] ?? v}` },
+    { key: "mainStatus", label: "Framework status" },
+    { key: "sectorStatus", label: "Sector status" },
+    { key: "category", label: `${getFramework(lens.framework).short} category`, format: (v) => categoryLabel(v, lens) },
+  ]
+}
+
+function FacetFilter({
+  label,
+  options,
+  selected,
+  format,
+  onChange,
+}: {
+  label: string
+  options: Array<{ value: string; count: number }>
+  selected: string[]
+  format?: (v: string) => string
+  onChange: (next: string[]) => void
+}) {
+  const toggle = (v: string, on: boolean) => onChange(on ? [...selected, v] : selected.filter((x) => x !== v))
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant={selected.length ? "secondary" : "outline"} size="sm">
+          <Filter className="w-3.5 h-3.5 mr-1.5" />
+          {label}
+          {selected.length > 0 && <span className="ml-1.5 rounded bg-background px-1.5 text-xs">{selected.length}</span>}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-80 overflow-y-auto">
+        {options.map((o) => (
+          <DropdownMenuCheckboxItem
+            key={o.value}
+            checked={selected.includes(o.value)}
+            onCheckedChange={(on) => toggle(o.value, Boolean(on))}
+            onSelect={(e) => e.preventDefault()}
+          >
+            <span className="flex-1">{format ? format(o.value) : o.value}</span>
+            <span className="ml-3 text-xs text-muted-foreground tabular-nums">{o.count}</span>
+          </DropdownMenuCheckboxItem>
+        ))}
+        {selected.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <button className="w-full px-2 py-1.5 text-left text-xs text-muted-foreground hover:text-foreground" onClick={() => onChange([])}>
+              Clear {label.toLowerCase()}
+            </button>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+/**
+ * Sortable, filterable grid over the flat gap rows. View state (search,
+ * filters, sort, grouping, hidden columns) lives in the `gap_*` URL params.
+ * Category filter and grouping follow `lens`.
+ */
+export default function DisclosureGrid({
+  rows,
+  lens,
+  onRowClick,
+  extraColumn,
+}: {
+  rows: any[]
+  lens: Lens
+  onRowClick?: (row: any) => void
+  // Appended after the mapping columns, e.g. remediation tracking; not sortable
+  extraColumn?: { header: string; render: (row: any) => React.ReactNode }
+}) {
+  const [state, setState] = useState<GridState>(EMPTY_GRID_STATE)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  // Read the URL once on mount, then mirror every change back with replaceState
+  const loaded = useRef(false)
+  useEffect(() => {
+    setState(parseGridState(new URLSearchParams(window.location.search)))
+  }, [])
+  useEffect(() => {
+    // The first run still holds the empty initial state; writing it would wipe the URL
+    if (!loaded.current) {
+      loaded.current = true
+      return
+    }
+    const params = writeGridState(new URLSearchParams(window.location.search), state)
+    const qs = params.toString()
+    if (qs === window.location.search.replace(/^\?/, "")) return
+    window.history.replaceState(window.history.state, "", `${window.location.pathname}${qs ? `?${qs}` : ""}${window.location.hash}`)
+  }, [state])
+
+  const patch = (p: Partial<GridState>) => setState((s) => ({ ...s, ...p }))
+
+  const facetDefs = useMemo(() => facets(lens), [lens])
+  const options = useMemo(
+    () =>
+      Object.fromEntries(facetDefs.map((f) => [f.key, facetOptions(rows, f.key, lens)])) as Record<
+        FacetKey,
+        Array<{ value: string; count: number }>
+      >,
+    [rows, facetDefs, lens]
+  )
+  const visible = useMemo(() => applyGridState(rows, state, lens), [rows, state, lens])
+  const groups = useMemo(() => (state.group ? groupByCategory(visible, lens) : null), [visible, state.group, lens])
+  const short = getFramework(lens.framework).short
+  const columns = DISCLOSURE_COLUMNS.filter((c) => !state.hidden.includes(c.key))
+  const span = columns.length + (extraColumn ? 1 : 0)
+  const filtered = Boolean(state.q || state.severity.length || state.mainStatus.length || state.sectorStatus.length || state.category.length)
+
+  const onSort = (key: DisclosureColumnKey) => {
+    const s = state.sort
+    // asc → desc → off
+    patch({ sort: s?.key !== key ? { key, dir: "asc" } : s.dir === "asc" ? { key, dir: "desc" } : null })
+  }
+
+  const toggleGroup = (category: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      next.has(category) ? next.delete(category) : next.add(category)
+      return next
+    })
+
+  const renderRow = (row: any, i: number) => (
+    <tr
+      key={i}
+      onClick={onRowClick ? () => onRowClick(row) : undefined}
+      title={onRowClick ? "Show evidence in report" : undefined}
+      className={`border-b last:border-0 hover:bg-muted/10 transition-colors ${onRowClick ? "cursor-pointer" : ""}`}
+    >
+      {columns.map((c) => {
+        const value = c.value(row)
+        if (c.key === "severity") {
+          return (
+            <td key={c.key} className="py-2.5 px-4 whitespace-nowrap">
+              <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${SEVERITY_STYLE[row?.severity] || ""}`}>
+                {value}
+              </span>
+            </td>
+          )
+        }
+        if (c.key === "reportedValue") {
+          return (
+            <td key={c.key} className="py-2.5 px-4 whitespace-nowrap">
+              <span className={value === "Not disclosed" ? "text-muted-foreground italic" : ""}>{value}</span>
+            </td>
+          )
+        }
+        return (
+          <td
+            key={c.key}
+            className={`py-2.5 px-4 text-xs ${WIDE.includes(c.key) ? "" : "whitespace-nowrap"}`}
+            style={WIDE.includes(c.key) ? { minWidth: "300px", maxWidth: "500px" } : undefined}
+          >
+            {value}
+          </td>
+        )
+      })}
+      {extraColumn && <td className="py-2.5 px-4 align-top">{extraColumn.render(row)}</td>}
+    </tr>
+  )
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative w-full md:w-72">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={state.q}
+            onChange={(e) => patch({ q: e.target.value })}
+            placeholder="Search codes and questions…"
+            className="pl-8 h-8"
+          />
+        </div>
+        {facetDefs.map((f) => (
+          <FacetFilter
+            key={f.key}
+            label={f.label}
+            options={options[f.key]}
+            selected={state[f.key]}
+            format={f.format}
+            onChange={(next) => patch({ [f.key]: next } as Partial<GridState>)}
+          />
+        ))}
+        <Button variant={state.group ? "secondary" : "outline"} size="sm" onClick={() => patch({ group: !state.group })}>
+          <Layers className="w-3.5 h-3.5 mr-1.5" />
+          Group by {short}
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Columns3 className="w-3.5 h-3.5 mr-1.5" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+            {DISCLOSURE_COLUMNS.map((c) => (
+              <DropdownMenuCheckboxItem
+                key={c.key}
+                checked={!state.hidden.includes(c.key)}
+                // Keep at least one column on screen
+                disabled={columns.length === 1 && !state.hidden.includes(c.key)}
+                onCheckedChange={(on) =>
+                  patch({ hidden: on ? state.hidden.filter((k) => k !== c.key) : [...state.hidden, c.key] })
+                }
+                onSelect={(e) => e.preventDefault()}
+              >
+                {c.header}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {filtered && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => patch({ q: "", severity: [], mainStatus: [], sectorStatus: [], category: [] })}
+          >
+            <X className="w-3.5 h-3.5 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        {filtered ? `${visible.length} of ${rows.length}` : `All ${rows.length}`} disclosures
+        {groups ? ` in ${groups.length} ${short} categories` : ""}
+      </div>
+
+      <div className="overflow-auto rounded-lg border" style={{ maxHeight: "70vh" }}>
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 z-10">
+            <tr className="bg-muted text-left border-b">
+              {columns.map((c) => (
+                <th
+                  key={c.key}
+                  className={`py-3 px-4 font-medium cursor-pointer select-none hover:text-foreground ${WIDE.includes(c.key) ? "" : "whitespace-nowrap"}`}
+                  onClick={() => onSort(c.key)}
+                  aria-sort={state.sort?.key === c.key ? (state.sort.dir === "asc" ? "ascending" : "descending") : undefined}
+                >
+                  <span className="inline-flex items-center gap-1">
+                    {c.header}
+                    {state.sort?.key === c.key &&
+                      (state.sort.dir === "asc" ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                  </span>
+                </th>
+              ))}
+              {extraColumn && <th className="py-3 px-4 font-medium whitespace-nowrap">{extraColumn.header}</th>}
+            </tr>
+          </thead>
+          <tbody className="bg-background">
+            {visible.length === 0 ? (
+              <tr>
+                <td colSpan={span} className="py-8 text-center text-muted-foreground">
+                  No disclosures match the current filters.
+                </td>
+              </tr>
+            ) : groups ? (
+              groups.map((g) => (
+                <React.Fragment key={g.category}>
+                  <tr className="bg-muted/30 border-b cursor-pointer hover:bg-muted/50" onClick={() => toggleGroup(g.category)}>
+                    <td colSpan={span} className="py-2 px-4 font-medium">
+                      <span className="inline-flex items-center gap-1.5">
+                        {collapsed.has(g.category) ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                        {categoryLabel(g.category, lens)}
+                        <span className="text-xs font-normal text-muted-foreground">({g.rows.length})</span>
+                      </span>
+                    </td>
+                  </tr>
+                  {!collapsed.has(g.category) && g.rows.map(renderRow)}
+                </React.Fragment>
+              ))
+            ) : (
+              visible.map(renderRow)
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
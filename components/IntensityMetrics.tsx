@@ -0,0 +1,57 @@
+"use client"
+
+import React from "react"
+import { formatIntensity, intensityMetrics, intensityVsPeers } from "@/lib/intensity"
+import { ordinal } from "@/lib/benchmark-stats"
+
+/** Scope 1+2, electricity and water intensities with their formulas and, where peers have the figures, peer medians. */
+export default function IntensityMetrics({ summary, bench }: { summary: any; bench: any }) {
+  const metrics = intensityMetrics(summary)
+  const rows = metrics.map((m) => ({ ...m, peers: intensityVsPeers(m, bench) }))
+  const hasPeers = rows.some((r) => r.peers.length)
+
+  return (
+    <div className="rounded-md border bg-background p-3 text-sm">
+      <div className="font-medium mb-2">Intensity metrics</div>
+      {!rows.length ? (
+        <div className="text-xs text-muted-foreground">
+          Needs Scope 1 and 2, electricity or water together with revenue, employees or gross floor area.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left border-b">
+                {["Metric", "Value", "Formula", ...(hasPeers ? ["Peers (lower is better)"] : [])].map((h) => (
+                  <th key={h} className="py-2 pr-3 font-medium">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.id} className="border-b last:border-0 align-top">
+                  <td className="py-1.5 pr-3">{r.label}</td>
+                  <td className="py-1.5 pr-3 tabular-nums whitespace-nowrap font-medium">
+                    {formatIntensity(r.value)} {r.unit}
+                  </td>
+                  <td className="py-1.5 pr-3 text-muted-foreground">{r.formula}</td>
+                  {hasPeers && (
+                    <td className="py-1.5 pr-3 text-muted-foreground">
+                      {r.peers.length
+                        ? r.peers.map((p) => (
+                            <div key={p.label}>
+                              {p.label}: median {formatIntensity(p.stats.median)} (n = {p.stats.n}), company at the {ordinal(p.percentile)} percentile
+                            </div>
+                          ))
+                        : "—"}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import React from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FRAMEWORKS, SECTOR_OVERLAYS, type FrameworkId, type Lens, type OverlayId } from "@/lib/frameworks"
+
+/** Framework + sector overlay selects for the gap view. */
+export default function LensPicker({
+  lens,
+  onChange,
+  disabled,
+}: {
+  lens: Lens
+  onChange: (next: Lens) => void
+  disabled?: boolean
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={lens.framework}
+        onValueChange={(v) => onChange({ ...lens, framework: v as FrameworkId })}
+        disabled={disabled}
+      >
+        <SelectTrigger size="sm" className="w-44 text-xs" title="Disclosure framework lens">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FRAMEWORKS.map((f) => (
+            <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={lens.overlay}
+        onValueChange={(v) => onChange({ ...lens, overlay: v as OverlayId })}
+        disabled={disabled}
+      >
+        <SelectTrigger size="sm" className="w-52 text-xs" title="Sector overlay">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SECTOR_OVERLAYS.map((o) => (
+            <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from "react"
+import { Sparkles, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { BenchmarkFacts, GapFacts, NarrativeKind } from "@/lib/narrative"
+
+type Polish = { status: "idle" | "loading" | "done" | "rejected" | "error"; text?: string; note?: string }
+
+/**
+ * Templated narrative paragraphs with an optional "Polish wording" rewrite.
+ * The rewrite is number-checked on the server; a rejected one leaves the
+ * templated text in place.
+ */
+export default function Narrative({
+  kind,
+  facts,
+  paragraphs,
+  className,
+}: {
+  kind: NarrativeKind
+  facts: GapFacts | BenchmarkFacts | null
+  paragraphs: string[]
+  className?: string
+}) {
+  const [polish, setPolish] = useState<Polish>({ status: "idle" })
+  const [showPolished, setShowPolished] = useState(false)
+
+  // New data (another report, lens or peer set) invalidates the rewrite
+  const key = JSON.stringify(facts)
+  const keyRef = useRef(key)
+  keyRef.current = key
+  useEffect(() => {
+    setPolish({ status: "idle" })
+    setShowPolished(false)
+  }, [key])
+
+  const run = async () => {
+    if (!facts) return
+    const requested = key
+    setPolish({ status: "loading" })
+    try {
+      const r = await fetch("/api/databricks/narrative", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind, facts }),
+      })
+      const j = await r.json().catch(() => ({}))
+      // The facts changed while this was in flight; the reset effect already cleared it
+      if (keyRef.current !== requested) return
+      if (!r.ok) throw new Error(j?.error || `Polish failed ${r.status}`)
+      if (j.polished) {
+        setPolish({ status: "done", text: j.text })
+        setShowPolished(true)
+      } else {
+        setPolish({ status: "rejected", note: `Rewrite discarded (${(j.issues || []).join("; ") || "failed checks"}).` })
+      }
+    } catch (e: any) {
+      if (keyRef.current !== requested) return
+      setPolish({ status: "error", note: e?.message || "Polish failed" })
+    }
+  }
+
+  const text = showPolished && polish.text ? polish.text.split(/\n{2,}/) : paragraphs
+
+  return (
+    <div className={className}>
+      <div className="space-y-3">
+        {text.map((p, i) => (
+          <p key={i}>{p}</p>
+        ))}
+      </div>
+      {facts && (
+        <div className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
+          {showPolished ? (
+            <>
+              <span>AI-polished wording · figures checked against the data</span>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setShowPolished(false)}>
+                <Undo2 className="w-3 h-3 mr-1" />
+                Original
+              </Button>
+            </>
+          ) : polish.status === "done" ? (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setShowPolished(true)}>
+              <Sparkles className="w-3 h-3 mr-1" />
+              Show polished
+            </Button>
+          ) : (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={run} disabled={polish.status === "loading"}>
+              <Sparkles className="w-3 h-3 mr-1" />
+              {polish.status === "loading" ? "Polishing…" : "Polish wording"}
+            </Button>
+          )}
+          {polish.note && <span className={polish.status === "error" ? "text-red-700" : ""}>{polish.note}</span>}
+        </div>
+      )}
+    </div>
+  )
+}
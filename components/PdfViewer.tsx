@@ -0,0 +1,149 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from "react"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+type Rect = { left: number; top: number; width: number; height: number }
+
+const norm = (s: string) => s.toLowerCase().replace(/\s+/g, " ").trim()
+
+/**
+ * pdfjs-based viewer for the uploaded report. Renders one page at a time and
+ * highlights the text runs that belong to `highlight` (an evidence passage or
+ * citation snippet).
+ */
+export default function PdfViewer({
+  file,
+  page,
+  highlight,
+  width = 680,
+  onPageChange,
+}: {
+  file: File | Blob | null
+  page: number
+  highlight?: string | null
+  width?: number
+  onPageChange?: (page: number) => void
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const firstHitRef = useRef<HTMLDivElement | null>(null)
+  const [doc, setDoc] = useState<any | null>(null)
+  const [numPages, setNumPages] = useState(0)
+  const [rects, setRects] = useState<Rect[]>([])
+  const [size, setSize] = useState<{ w: number; h: number }>({ w: width, h: 0 })
+  const [error, setError] = useState<string | null>(null)
+  const [rendering, setRendering] = useState(false)
+
+  // Load the document once per file
+  useEffect(() => {
+    if (!file) return
+    let cancelled = false
+    let loaded: any = null
+    setError(null)
+    ;(async () => {
+      try {
+        const pdfjs: any = await import("pdfjs-dist")
+        pdfjs.GlobalWorkerOptions.workerSrc = "/pdf.worker.min.js"
+        loaded = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise
+        if (cancelled) return loaded.destroy()
+        setDoc({ pdfjs, pdf: loaded })
+        setNumPages(loaded.numPages)
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message || "Failed to open PDF")
+      }
+    })()
+    return () => {
+      cancelled = true
+      setDoc(null)
+      loaded?.destroy?.()
+    }
+  }, [file])
+
+  // Render the current page and compute highlight boxes
+  useEffect(() => {
+    if (!doc || !canvasRef.current) return
+    const { pdfjs, pdf } = doc
+    const target = Math.min(Math.max(1, page), pdf.numPages)
+    let cancelled = false
+    let task: any = null
+    setRendering(true)
+    ;(async () => {
+      try {
+        const p = await pdf.getPage(target)
+        const base = p.getViewport({ scale: 1 })
+        const viewport = p.getViewport({ scale: width / base.width })
+        const canvas = canvasRef.current
+        if (!canvas || cancelled) return
+        canvas.width = Math.floor(viewport.width)
+        canvas.height = Math.floor(viewport.height)
+        setSize({ w: canvas.width, h: canvas.height })
+        task = p.render({ canvasContext: canvas.getContext("2d"), viewport })
+        await task.promise
+
+        const needle = highlight ? norm(highlight) : ""
+        const boxes: Rect[] = []
+        if (needle) {
+          const content = await p.getTextContent()
+          for (const item of content.items as any[]) {
+            const str = norm(item?.str || "")
+            if (str.length < 4 || !needle.includes(str)) continue
+            const tx = pdfjs.Util.transform(viewport.transform, item.transform)
+            const h = Math.hypot(tx[2], tx[3])
+            boxes.push({ left: tx[4], top: tx[5] - h, width: item.width * viewport.scale, height: h * 1.15 })
+          }
+        }
+        if (!cancelled) setRects(boxes)
+      } catch (e: any) {
+        if (!cancelled && e?.name !== "RenderingCancelledException") setError(e?.message || "Failed to render page")
+      } finally {
+        if (!cancelled) setRendering(false)
+      }
+    })()
+    return () => {
+      cancelled = true
+      task?.cancel?.()
+    }
+  }, [doc, page, highlight, width])
+
+  // Jump to the highlighted passage
+  useEffect(() => {
+    if (rects.length) firstHitRef.current?.scrollIntoView({ block: "center", behavior: "smooth" })
+  }, [rects])
+
+  if (!file) {
+    return <div className="text-sm text-muted-foreground">The original PDF is not available in this session.</div>
+  }
+  if (error) {
+    return <div className="text-sm text-red-700">{error}</div>
+  }
+
+  const current = Math.min(Math.max(1, page), numPages || 1)
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <Button variant="outline" size="sm" disabled={current <= 1} onClick={() => onPageChange?.(current - 1)}>
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span>
+          Page {current} of {numPages || "…"}
+          {rendering ? " · rendering…" : rects.length ? ` · ${rects.length} highlighted` : ""}
+        </span>
+        <Button variant="outline" size="sm" disabled={!numPages || current >= numPages} onClick={() => onPageChange?.(current + 1)}>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="relative mx-auto border shadow-sm" style={{ width: size.w, height: size.h || undefined }}>
+        <canvas ref={canvasRef} className="block" />
+        {rects.map((r, i) => (
+          <div
+            key={i}
+            ref={i === 0 ? firstHitRef : undefined}
+            className="absolute pointer-events-none rounded-sm bg-yellow-300/40 ring-1 ring-yellow-500/60"
+            style={{ left: r.left, top: r.top, width: r.width, height: r.height }}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+
+import React from "react"
+import { asFrac, companyVsPeers, fmtPct, peerSets, reductionValues } from "@/lib/benchmark"
+import { ordinal } from "@/lib/benchmark-stats"
+
+const WIDTH = 640
+const LABEL_W = 90
+const ROW_H = 56
+const PAD = 16
+const COMPANY = "#dc2626"
+
+/** Box and strip plot of peer Scope 1+2 reductions per peer set, with the company marked. */
+export default function PeerDistribution({ bench }: { bench: any }) {
+  const companyFrac = asFrac(bench?.company?.sbti_scope_1_2_reduction_pct)
+  const rows = peerSets(bench)
+    .map((r) => ({ ...r, values: reductionValues(r.peers), pos: companyVsPeers(companyFrac, r.peers) }))
+    .filter((r) => r.pos.stats)
+  if (!rows.length) return null
+
+  const maxV = Math.max(1, companyFrac ?? 0, ...rows.map((r) => r.pos.stats!.max))
+  const sx = (v: number) => LABEL_W + (v / maxV) * (WIDTH - LABEL_W - PAD)
+  const height = rows.length * ROW_H + 24
+  const axisColor = "hsl(var(--muted-foreground))"
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((t) => t * maxV)
+
+  return (
+    <div className="rounded-md border bg-background p-3 text-sm">
+      <div className="font-medium mb-2">Peer distribution — Scope 1+2 reduction</div>
+      <div className="w-full overflow-x-auto">
+        <svg width={WIDTH} height={height} role="img" aria-label="Peer reduction distribution" style={{ display: "block" }}>
+          {ticks.map((t, i) => (
+            <g key={i}>
+              <line x1={sx(t)} y1={4} x2={sx(t)} y2={height - 20} stroke="hsl(var(--muted))" opacity={0.5} />
+              <text x={sx(t)} y={height - 6} fontSize="10" textAnchor="middle" fill={axisColor}>
+                {`${Math.round(t * 100)}%`}
+              </text>
+            </g>
+          ))}
+          {rows.map((r, idx) => {
+            const s = r.pos.stats!
+            const cy = idx * ROW_H + ROW_H / 2
+            return (
+              <g key={r.label}>
+                <text x={0} y={cy + 4} fontSize="11" fill="hsl(var(--foreground))">
+                  {r.label}
+                </text>
+                {/* Whiskers, box, median */}
+                <line x1={sx(s.min)} y1={cy} x2={sx(s.q1)} y2={cy} stroke={axisColor} />
+                <line x1={sx(s.q3)} y1={cy} x2={sx(s.max)} y2={cy} stroke={axisColor} />
+                <line x1={sx(s.min)} y1={cy - 6} x2={sx(s.min)} y2={cy + 6} stroke={axisColor} />
+                <line x1={sx(s.max)} y1={cy - 6} x2={sx(s.max)} y2={cy + 6} stroke={axisColor} />
+                <rect x={sx(s.q1)} y={cy - 12} width={Math.max(1, sx(s.q3) - sx(s.q1))} height={24} fill="#3b82f6" opacity={0.15} stroke="#3b82f6" />
+                <line x1={sx(s.median)} y1={cy - 12} x2={sx(s.median)} y2={cy + 12} stroke="#3b82f6" strokeWidth={2} />
+                {/* Peers, spread vertically so equal values stay visible */}
+                {r.values.map((v, i) => (
+                  <circle key={i} cx={sx(v)} cy={cy + ((i % 5) - 2) * 4} r={2.5} fill="hsl(var(--foreground))" opacity={0.45}>
+                    <title>{fmtPct(v)}</title>
+                  </circle>
+                ))}
+                {r.pos.value != null && (
+                  <g>
+                    <line x1={sx(r.pos.value)} y1={cy - 18} x2={sx(r.pos.value)} y2={cy + 18} stroke={COMPANY} strokeWidth={2} />
+                    <text x={sx(r.pos.value)} y={cy - 20} fontSize="10" textAnchor="middle" fill={COMPANY}>
+                      {r.pos.percentile != null ? `P${r.pos.percentile}` : ""}
+                    </text>
+                  </g>
+                )}
+              </g>
+            )
+          })}
+        </svg>
+      </div>
+      <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+        {rows.map((r) => {
+          const s = r.pos.stats!
+          return (
+            <li key={r.label}>
+              {r.label}: n = {s.n} · median {fmtPct(s.median)} · IQR {fmtPct(s.q1)}–{fmtPct(s.q3)}
+              {r.pos.percentile != null && ` · company at the ${ordinal(r.pos.percentile)} percentile`}
+              {r.pos.z != null && ` (z = ${r.pos.z >= 0 ? "+" : ""}${r.pos.z.toFixed(2)})`}
+            </li>
+          )
+        })}
+      </ul>
+      <div className="mt-1 flex items-center gap-4 text-xs text-muted-foreground">
+        <span className="inline-flex items-center gap-1.5">
+          <span className="inline-block w-3 h-0.5" style={{ background: COMPANY }} />
+          {bench?.company?.company_name || "Company"}
+        </span>
+        <span className="inline-flex items-center gap-1.5">
+          <span className="inline-block w-3 h-3 rounded-[2px] border border-[#3b82f6] bg-[#3b82f6]/15" />
+          Interquartile range and median
+        </span>
+      </div>
+    </div>
+  )
+}
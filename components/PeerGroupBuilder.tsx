@@ -0,0 +1,243 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { Plus, Save, Trash2, Users, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { fmtPct } from "@/lib/benchmark"
+import { EMPTY_FILTER, SIZE_METRICS, groupPeers, type PeerGroup, type PeerGroupFilter, type SizeMetric } from "@/lib/peer-groups"
+import { SECTORS, type SectorId } from "@/lib/sectors"
+
+const DEFAULT = "default"
+const ANY = "any"
+
+const SIZE_LABEL: Record<SizeMetric, string> = { revenue: "Revenue", employees: "Employees" }
+
+const optNumber = (s: string): number | null => (s.trim() === "" || !Number.isFinite(Number(s)) ? null : Number(s))
+
+/**
+ * Picks the peer set for the Benchmarking tab — the job's country/region
+ * peers or one of the client's saved groups — and builds new groups from
+ * the combined peer universe, by filter or by hand.
+ */
+export default function PeerGroupBuilder({
+  universe,
+  groups,
+  selectedId,
+  onSelect,
+  onSave,
+  onDelete,
+  error,
+  disabled,
+}: {
+  universe: any[]
+  groups: PeerGroup[]
+  selectedId: string | null
+  onSelect: (id: string | null) => void
+  onSave: (group: Omit<PeerGroup, "id" | "createdAt">) => Promise<PeerGroup | null>
+  onDelete: (id: string) => void
+  error: string | null
+  disabled?: boolean
+}) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [filter, setFilter] = useState<PeerGroupFilter>(EMPTY_FILTER)
+  const [picked, setPicked] = useState<string[]>([])
+  const [busy, setBusy] = useState(false)
+
+  const preview = useMemo(() => groupPeers(universe, { filter, companies: picked }), [universe, filter, picked])
+  const set = (patch: Partial<PeerGroupFilter>) => setFilter((f) => ({ ...f, ...patch }))
+  const toggleSector = (id: SectorId) =>
+    set({ sectors: filter.sectors.includes(id) ? filter.sectors.filter((s) => s !== id) : [...filter.sectors, id] })
+  const togglePick = (company: string) =>
+    setPicked((list) => (list.includes(company) ? list.filter((c) => c !== company) : [...list, company]))
+
+  const close = () => {
+    setOpen(false)
+    setName("")
+    setFilter(EMPTY_FILTER)
+    setPicked([])
+  }
+
+  const save = async () => {
+    if (!name.trim() || !preview.length) return
+    setBusy(true)
+    const saved = await onSave({ name: name.trim(), filter, companies: picked })
+    setBusy(false)
+    if (saved) {
+      onSelect(saved.id)
+      close()
+    }
+  }
+
+  const selected = groups.find((g) => g.id === selectedId) ?? null
+  return (
+    <div className="rounded-md border bg-background p-3 text-sm space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Users className="w-4 h-4 text-muted-foreground" />
+        <span className="text-xs text-muted-foreground">Benchmark against</span>
+        <Select value={selected ? selected.id : DEFAULT} onValueChange={(v) => onSelect(v === DEFAULT ? null : v)} disabled={disabled}>
+          <SelectTrigger size="sm" className="w-64 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT}>Same country and region (default)</SelectItem>
+            {groups.map((g) => (
+              <SelectItem key={g.id} value={g.id}>{g.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selected && (
+          <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => onDelete(selected.id)} title="Delete peer group">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+        {!open && (
+          <Button variant="outline" size="sm" onClick={() => setOpen(true)} disabled={disabled || !universe.length}>
+            <Plus className="w-4 h-4 mr-2" />
+            New peer group
+          </Button>
+        )}
+        {error && <span className="text-xs text-red-700">{error}</span>}
+      </div>
+
+      {open && (
+        <div className="space-y-4 border-t pt-3">
+          <div className="flex items-center justify-between">
+            <div className="font-medium">New peer group</div>
+            <Button variant="ghost" size="sm" onClick={close}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-4">
+            <div className="space-y-2">
+              <div className="text-xs text-muted-foreground">Sector (none selected: any)</div>
+              <div className="flex flex-wrap gap-1">
+                {SECTORS.map((s) => (
+                  <Button
+                    key={s.id}
+                    variant={filter.sectors.includes(s.id) ? "secondary" : "outline"}
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => toggleSector(s.id)}
+                  >
+                    {s.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <div className="text-xs text-muted-foreground">Target year window</div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  placeholder="From"
+                  className="h-8 text-xs w-24"
+                  value={filter.targetYearFrom ?? ""}
+                  onChange={(e) => set({ targetYearFrom: optNumber(e.target.value) })}
+                />
+                <span className="text-xs text-muted-foreground">to</span>
+                <Input
+                  type="number"
+                  placeholder="To"
+                  className="h-8 text-xs w-24"
+                  value={filter.targetYearTo ?? ""}
+                  onChange={(e) => set({ targetYearTo: optNumber(e.target.value) })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <div className="text-xs text-muted-foreground">Size band</div>
+              <div className="flex items-center gap-2">
+                <Select value={filter.sizeMetric ?? ANY} onValueChange={(v) => set({ sizeMetric: v === ANY ? null : (v as SizeMetric) })}>
+                  <SelectTrigger size="sm" className="w-28 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any size</SelectItem>
+                    {SIZE_METRICS.map((m) => (
+                      <SelectItem key={m} value={m}>{SIZE_LABEL[m]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  placeholder="Min"
+                  className="h-8 text-xs w-24"
+                  value={filter.sizeMin ?? ""}
+                  onChange={(e) => set({ sizeMin: optNumber(e.target.value) })}
+                  disabled={!filter.sizeMetric}
+                />
+                <Input
+                  type="number"
+                  placeholder="Max"
+                  className="h-8 text-xs w-24"
+                  value={filter.sizeMax ?? ""}
+                  onChange={(e) => set({ sizeMax: optNumber(e.target.value) })}
+                  disabled={!filter.sizeMetric}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                {picked.length
+                  ? `${picked.length} hand-picked — filters are ignored`
+                  : "Or hand-pick companies from the peer universe"}
+              </span>
+              {picked.length > 0 && (
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setPicked([])}>
+                  Clear picks
+                </Button>
+              )}
+            </div>
+            <div className="max-h-48 overflow-y-auto rounded-md border">
+              <table className="w-full text-xs">
+                <tbody>
+                  {universe.map((p, i) => {
+                    const company = String(p?.company_name ?? "")
+                    return (
+                      <tr key={`${i}-${company}`} className="border-b last:border-0">
+                        <td className="py-1 px-2 w-6">
+                          <Checkbox checked={picked.includes(company)} onCheckedChange={() => togglePick(company)} aria-label={`Pick ${company}`} />
+                        </td>
+                        <td className="py-1 pr-3">{company}</td>
+                        <td className="py-1 pr-3 text-muted-foreground">{p?.sector ?? ""}</td>
+                        <td className="py-1 pr-3 text-muted-foreground">{p?.main_country ?? ""}</td>
+                        <td className="py-1 pr-3 tabular-nums">{p?.sbti_target_year ?? "n/a"}</td>
+                        <td className="py-1 pr-3 tabular-nums">{fmtPct(p?.sbti_scope_1_2_reduction_pct)}</td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && save()}
+              placeholder="Group name, e.g. APAC REITs, 2030 targets"
+              className="h-8 text-xs max-w-xs"
+              maxLength={80}
+            />
+            <Button size="sm" onClick={save} disabled={!name.trim() || !preview.length || busy}>
+              <Save className="w-4 h-4 mr-2" />
+              {busy ? "Saving…" : "Save and apply"}
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              {preview.length} of {universe.length} peers match
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
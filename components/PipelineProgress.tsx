@@ -0,0 +1,68 @@
+"use client"
+
+import React from "react"
+import { Check, Circle, Loader2, MinusCircle, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { Stage } from "@/lib/pipeline"
+
+/** Stage list for a running analysis; shows the job's failure message and a retry. */
+export default function PipelineProgress({
+  stages,
+  failureMessage,
+  runPageUrl,
+  onRetry,
+}: {
+  stages: Stage[]
+  failureMessage?: string | null
+  runPageUrl?: string | null
+  onRetry?: () => void
+}) {
+  const icon = (s: Stage) => {
+    switch (s.status) {
+      case "done":
+        return <Check className="w-4 h-4 text-green-600" />
+      case "active":
+        return <Loader2 className="w-4 h-4 animate-spin text-[#007A72]" />
+      case "failed":
+        return <X className="w-4 h-4 text-red-600" />
+      case "skipped":
+        return <MinusCircle className="w-4 h-4 text-muted-foreground" />
+      default:
+        return <Circle className="w-4 h-4 text-muted-foreground/50" />
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <ol className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+        {stages.map((s) => (
+          <li key={s.id} className="flex items-start gap-2 rounded-md border bg-background px-3 py-2">
+            <span className="mt-0.5">{icon(s)}</span>
+            <span>
+              <span className={s.status === "pending" ? "text-muted-foreground" : ""}>{s.label}</span>
+              {s.detail && <span className="block text-xs text-muted-foreground">{s.detail}</span>}
+            </span>
+          </li>
+        ))}
+      </ol>
+      {failureMessage && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          <div className="font-medium">Analysis did not complete</div>
+          <div className="whitespace-pre-wrap break-words">{failureMessage}</div>
+          <div className="mt-2 flex items-center gap-3">
+            {onRetry && (
+              <Button variant="outline" size="sm" onClick={onRetry}>
+                Check again
+              </Button>
+            )}
+            {runPageUrl && (
+              <a href={runPageUrl} target="_blank" rel="noreferrer" className="text-xs underline">
+                Open job run
+              </a>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
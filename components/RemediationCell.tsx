@@ -0,0 +1,144 @@
+"use client"
+
+import React, { useState } from "react"
+import { CalendarClock, UserRound } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  REMEDIATION_STATUSES,
+  isOverdue,
+  type RemediationItem,
+  type RemediationPatch,
+  type RemediationStatus,
+} from "@/lib/remediation"
+
+// Last name typed on the actions board; prefills the assignee of new items
+export const ASSIGNEE_KEY = "esgsmart.assignee"
+
+export const REMEDIATION_STYLE: Record<RemediationStatus, string> = {
+  open: "bg-muted text-muted-foreground",
+  "in progress": "bg-blue-100 text-blue-800",
+  "data requested": "bg-amber-100 text-amber-800",
+  closed: "bg-green-100 text-green-800",
+}
+
+/** Status badge for one gap row; opens an editor for owner, status, due date and notes. */
+export default function RemediationCell({
+  item,
+  onSave,
+}: {
+  item: RemediationItem | undefined
+  onSave: (patch: RemediationPatch) => Promise<void>
+}) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<RemediationPatch>({})
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const status = item?.status ?? "open"
+  const overdue = item ? isOverdue(item) : false
+
+  const onOpenChange = (next: boolean) => {
+    if (next) {
+      setDraft({
+        assignee: item?.assignee ?? window.localStorage.getItem(ASSIGNEE_KEY) ?? "",
+        status,
+        dueDate: item?.dueDate ?? "",
+        notes: item?.notes ?? "",
+      })
+      setError(null)
+    }
+    setOpen(next)
+  }
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      await onSave(draft)
+      setOpen(false)
+    } catch (e: any) {
+      setError(e?.message || "Save failed")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    // Clicks here must not reach the row (which opens the evidence viewer)
+    <div onClick={(e) => e.stopPropagation()}>
+      <Popover open={open} onOpenChange={onOpenChange}>
+        <PopoverTrigger asChild>
+          <button className="flex flex-col items-start gap-1 text-left" title="Track remediation">
+            <span className={`rounded px-1.5 py-0.5 text-xs ${REMEDIATION_STYLE[status]}`}>{status}</span>
+            {item?.assignee && (
+              <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                <UserRound className="w-3 h-3" />
+                {item.assignee}
+              </span>
+            )}
+            {item?.dueDate && (
+              <span className={`inline-flex items-center gap-1 text-xs ${overdue ? "text-red-700" : "text-muted-foreground"}`}>
+                <CalendarClock className="w-3 h-3" />
+                {item.dueDate}
+              </span>
+            )}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 space-y-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="rem-assignee">Assignee</Label>
+            <Input
+              id="rem-assignee"
+              value={draft.assignee ?? ""}
+              onChange={(e) => setDraft((d) => ({ ...d, assignee: e.target.value }))}
+              placeholder="Name"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>Status</Label>
+              <Select value={draft.status} onValueChange={(v) => setDraft((d) => ({ ...d, status: v as RemediationStatus }))}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REMEDIATION_STATUSES.map((s) => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="rem-due">Due date</Label>
+              <Input
+                id="rem-due"
+                type="date"
+                value={draft.dueDate ?? ""}
+                onChange={(e) => setDraft((d) => ({ ...d, dueDate: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="rem-notes">Notes</Label>
+            <Textarea
+              id="rem-notes"
+              rows={3}
+              value={draft.notes ?? ""}
+              onChange={(e) => setDraft((d) => ({ ...d, notes: e.target.value }))}
+            />
+          </div>
+          {error && <div className="text-xs text-red-700">{error}</div>}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button size="sm" onClick={save} disabled={saving}>{saving ? "Saving…" : "Save"}</Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -2,22 +2,15 @@
 import React from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from "recharts"
+import { sbtiTrajectory } from "@/lib/benchmark"
+import { describe } from "@/lib/benchmark-stats"
+import { pathwayBands } from "@/lib/pathways"
 
 type Props = { bench: any }
 
 export default function SbtiPanel({ bench }: Props) {
   const c = bench?.company || {}
-  const sy = Number(c?.sbti_start_year)
-  const ty = Number(c?.sbti_target_year)
-  const s1b = num(c?.scope_1),
-    s2b = num(c?.scope_2)
-  const s1t = num(c?.sbti_scope_1_target),
-    s2t = num(c?.sbti_scope_2_target)
-  const s12b = s1b != null && s2b != null ? s1b + s2b : num(c?.sbti_scope_1_2)
-  const red = frac(c?.sbti_scope_1_2_reduction_pct)
-  const s12t = s1t ?? s2t ?? (s12b != null && red != null ? s12b * (1 - red) : null)
-
-  const chart = buildLinearSeries(sy, ty, { s1b, s1t, s2b, s2t, s12b, s12t })
+  const chart = buildChartRows(c)
 
   const peersCountry = normPeers(bench?.peers_country || [])
   const peersRegion = normPeers(bench?.peers_region || [])
@@ -52,6 +45,8 @@ export default function SbtiPanel({ bench }: Props) {
                   <Line type="monotone" dataKey="Scope 1" stroke="#ef4444" dot strokeWidth={2} />
                   <Line type="monotone" dataKey="Scope 2" stroke="#f97316" dot strokeWidth={2} />
                   <Line type="monotone" dataKey="Scope 1+2" stroke="#3b82f6" dot strokeWidth={2} />
+                  <Line type="linear" dataKey="1.5°C pathway" stroke="#22c55e" dot={false} strokeDasharray="4 3" />
+                  <Line type="linear" dataKey="Well-below 2°C pathway" stroke="#eab308" dot={false} strokeDasharray="4 3" />
                 </LineChart>
               </ResponsiveContainer>
             </div>
@@ -80,32 +75,17 @@ export default function SbtiPanel({ bench }: Props) {
   )
 }
 
-function num(v: any): number | null {
-  const n = Number(String(v ?? "").replace(/,/g, ""))
-  return Number.isFinite(n) ? n : null
-}
-function frac(x: any): number | null {
-  const n = Number(String(x ?? "").replace("%", ""))
-  if (!Number.isFinite(n)) return null
-  return n <= 1 ? n : n / 100
-}
-function buildLinearSeries(sy: number, ty: number, v: any) {
-  if (!Number.isFinite(sy) || !Number.isFinite(ty) || ty <= sy) return []
-  const ys = []
-  for (let year = sy; year <= ty; year++) {
-    ys.push({
-      year,
-      "Scope 1": lerp(v.s1b, v.s1t, sy, ty, year),
-      "Scope 2": lerp(v.s2b, v.s2t, sy, ty, year),
-      "Scope 1+2": lerp(v.s12b, v.s12t, sy, ty, year),
-    })
+// One row per year: the stated trajectories plus the upper edge of each SBTi pathway
+function buildChartRows(company: any) {
+  const rows = new Map<number, Record<string, number>>()
+  const put = (year: number, key: string, v: number) => rows.set(year, { ...(rows.get(year) ?? { year }), [key]: v })
+  for (const s of sbtiTrajectory(company).filter((s) => s.name !== "Scope 3")) {
+    for (const p of s.points) put(p.x, s.name, p.y)
   }
-  return ys
-}
-function lerp(a: number | null, b: number | null, sy: number, ty: number, y: number) {
-  if (a == null || b == null) return null as any
-  const t = (y - sy) / (ty - sy)
-  return a + (b - a) * t
+  const [p15, wb2c] = pathwayBands(company)
+  for (const p of p15?.points ?? []) put(p.x, "1.5°C pathway", p.hi)
+  for (const p of wb2c?.points ?? []) put(p.x, "Well-below 2°C pathway", p.hi)
+  return Array.from(rows.values()).sort((a, b) => a.year - b.year)
 }
 function normPeers(rows: any[]) {
   const keep = ["Company", "Sector", "Country", "Region", "Base Year", "Target Year", "% Reduction"]
@@ -118,13 +98,13 @@ function normPeers(rows: any[]) {
     "Target Year": toYear(r.sbti_target_year),
     "% Reduction": pctDisp(r.sbti_scope_1_2_reduction_pct),
   }))
-  const pctNums = mapped
-    .map((x) => toPctNum(x["% Reduction"]))
-    .filter((x) => x != null) as number[]
-  const avg = pctNums.length ? pctNums.reduce((a, b) => a + b, 0) / pctNums.length : null
-  const median = pctNums.length
-    ? [...pctNums].sort((a, b) => a - b)[Math.floor(pctNums.length / 2)]
-    : null
+  const stats = describe(
+    mapped
+      .map((x) => toPctNum(x["% Reduction"]))
+      .filter((x) => x != null) as number[]
+  )
+  const avg = stats?.mean ?? null
+  const median = stats?.median ?? null
   const blank = {
     Company: "**Average**",
     Sector: "",
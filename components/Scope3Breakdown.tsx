@@ -0,0 +1,62 @@
+"use client"
+
+import React from "react"
+import { AlertTriangle } from "lucide-react"
+import { formatNumber } from "@/lib/summary"
+import { categoryList, type Scope3Summary } from "@/lib/scope3"
+
+/** Scope 3 total and the 15 GHG Protocol categories, with unreported ones flagged. */
+export default function Scope3Breakdown({ scope3 }: { scope3: Scope3Summary }) {
+  const max = Math.max(1, ...scope3.categories.map((c) => c.value ?? 0))
+  const unit = scope3.unit ? ` ${scope3.unit}` : ""
+
+  return (
+    <div className="rounded-md border bg-background p-3 text-sm">
+      <div className="flex items-baseline justify-between gap-3 mb-2">
+        <div className="font-medium">Scope 3 by category</div>
+        <div className="text-xs text-muted-foreground">
+          {scope3.total != null ? (
+            <>
+              Total {scope3.total.toLocaleString()}
+              {unit}
+              {scope3.totalDerived && " (sum of categories)"}
+            </>
+          ) : (
+            "Total not reported"
+          )}
+        </div>
+      </div>
+
+      <ul className="space-y-1">
+        {scope3.categories.map((c) => (
+          <li key={c.n} className="grid grid-cols-[1.5rem_minmax(0,16rem)_1fr_auto] items-center gap-2 text-xs">
+            <span className="text-muted-foreground tabular-nums">{c.n}</span>
+            <span className="truncate" title={c.name}>{c.name}</span>
+            <span className="h-2 rounded-sm bg-muted overflow-hidden">
+              {c.value != null && (
+                <span className="block h-full bg-[#f59e0b]" style={{ width: `${Math.max(1, (c.value / max) * 100)}%` }} />
+              )}
+            </span>
+            {c.status === "reported" ? (
+              <span className="tabular-nums" title={`${c.value?.toLocaleString()}${unit}`}>{formatNumber(c.value ?? 0)}</span>
+            ) : c.status === "excluded" ? (
+              <span className="text-muted-foreground italic">Not relevant</span>
+            ) : (
+              <span className="text-amber-700">Not reported</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {scope3.missing.length > 0 && (
+        <div className="mt-3 flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>
+            {categoryList(scope3.missing)} {scope3.missing.length === 1 ? "is" : "are"} neither reported nor explained as not
+            relevant. The GHG Protocol expects each excluded category to be justified.
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+"use client"
+
+import React from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SECTORS, sectorFor, type ResolvedSector, type SectorId } from "@/lib/sectors"
+
+const AUTO = "auto"
+
+/** Sector used for the analysis: detected from the report, or a manual override. */
+export default function SectorPicker({
+  sector,
+  onChange,
+  disabled,
+}: {
+  sector: ResolvedSector
+  onChange: (override: SectorId | null) => void
+  disabled?: boolean
+}) {
+  const detected = sectorFor(sector.extracted).name
+  return (
+    <Select
+      value={sector.overridden ? sector.profile.id : AUTO}
+      onValueChange={(v) => onChange(v === AUTO ? null : (v as SectorId))}
+      disabled={disabled}
+    >
+      <SelectTrigger size="sm" className="w-56 text-xs" title={sector.extracted ? `Extracted sector: ${sector.extracted}` : "No sector extracted"}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={AUTO}>Auto-detected: {detected}</SelectItem>
+        {SECTORS.map((s) => (
+          <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,265 @@
+"use client"
+
+import React, { useEffect, useMemo, useState } from "react"
+import { FlaskConical, RotateCcw, Save, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { formatNumber } from "@/lib/summary"
+import { peerSets, type CompanyVsPeers } from "@/lib/benchmark"
+import {
+  MAX_YEAR,
+  MIN_YEAR,
+  SCENARIO_COVERAGES,
+  originalScenario,
+  scenarioOutcome,
+  type ScenarioCoverage,
+  type TargetScenario,
+} from "@/lib/scenarios"
+
+const COVERAGE_LABEL: Record<ScenarioCoverage, string> = { "1+2": "Scope 1+2", "1+2+3": "Scope 1+2+3" }
+
+const PEER_COLUMN: Record<string, string> = { country: "Country peers", region: "Region peers" }
+
+const pct = (f: number, digits = 1) => `${(f * 100).toFixed(digits)}%`
+const pctile = (p: CompanyVsPeers) => (p.percentile == null ? "—" : `P${p.percentile}${p.stats ? ` of ${p.stats.n}` : ""}`)
+
+/**
+ * What-if target controls for the Benchmarking tab. The draft scenario is
+ * owned by the page so the trajectory chart and insight follow it; saved
+ * scenarios are listed against the reported target.
+ */
+export default function TargetSimulator({
+  pdfId,
+  bench,
+  draft,
+  onDraftChange,
+}: {
+  pdfId: string | null
+  bench: any
+  draft: TargetScenario | null
+  onDraftChange: (s: TargetScenario | null) => void
+}) {
+  const original = useMemo(() => originalScenario(bench?.company), [bench])
+  const [saved, setSaved] = useState<TargetScenario[]>([])
+  const [name, setName] = useState("")
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setSaved([])
+    if (!pdfId) return
+    let cancelled = false
+    ;(async () => {
+      try {
+        const r = await fetch(`/api/databricks/scenarios/${encodeURIComponent(pdfId)}`, { cache: "no-store" })
+        const j = await r.json().catch(() => ({}))
+        if (!cancelled && r.ok && Array.isArray(j?.scenarios)) setSaved(j.scenarios)
+      } catch {
+        // Saved scenarios are optional; the simulator still works without them
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [pdfId])
+
+  const start = () => {
+    const thisYear = new Date().getFullYear()
+    onDraftChange(
+      original
+        ? { ...original, id: "draft", name: "" }
+        : { id: "draft", name: "", baseYear: thisYear - 1, targetYear: thisYear + 9, reduction: 0.42, coverage: "1+2", createdAt: "" }
+    )
+  }
+
+  const set = (patch: Partial<TargetScenario>) => {
+    if (!draft) return
+    const next = { ...draft, ...patch }
+    // Keep the window at least a year wide whichever end moved
+    if (next.targetYear <= next.baseYear) {
+      if (patch.baseYear !== undefined) next.targetYear = Math.min(MAX_YEAR, next.baseYear + 1)
+      else next.baseYear = Math.max(MIN_YEAR, next.targetYear - 1)
+    }
+    onDraftChange(next)
+  }
+
+  const save = async () => {
+    if (!pdfId || !draft || !name.trim()) return
+    setBusy(true)
+    setError(null)
+    try {
+      const r = await fetch(`/api/databricks/scenarios/${encodeURIComponent(pdfId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...draft, name: name.trim() }),
+      })
+      const j = await r.json().catch(() => ({}))
+      if (!r.ok) throw new Error(j?.error || `Save failed ${r.status}`)
+      setSaved((list) => [...list, j.scenario])
+      setName("")
+    } catch (e: any) {
+      setError(e?.message || "Save failed")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const remove = async (id: string) => {
+    if (!pdfId) return
+    const prev = saved
+    setSaved((list) => list.filter((s) => s.id !== id))
+    try {
+      const r = await fetch(`/api/databricks/scenarios/${encodeURIComponent(pdfId)}?id=${encodeURIComponent(id)}`, { method: "DELETE" })
+      if (!r.ok) throw new Error(`Delete failed ${r.status}`)
+    } catch (e: any) {
+      setSaved(prev)
+      setError(e?.message || "Delete failed")
+    }
+  }
+
+  const rows: Array<{ scenario: TargetScenario; label: string; kind: "original" | "draft" | "saved" }> = [
+    ...(original ? [{ scenario: original, label: "Reported target", kind: "original" as const }] : []),
+    ...(draft ? [{ scenario: draft, label: "Current draft", kind: "draft" as const }] : []),
+    ...saved.map((s) => ({ scenario: s, label: s.name, kind: "saved" as const })),
+  ]
+
+  if (!draft) {
+    return (
+      <div className="flex items-center justify-between rounded-md border bg-background p-3 text-sm">
+        <span className="text-muted-foreground">
+          Try a different base year, target year, reduction or scope coverage.
+          {saved.length > 0 && ` ${saved.length} saved scenario${saved.length === 1 ? "" : "s"}.`}
+        </span>
+        <Button variant="outline" size="sm" onClick={start} disabled={!bench?.company}>
+          <FlaskConical className="w-4 h-4 mr-2" />
+          Simulate a target
+        </Button>
+      </div>
+    )
+  }
+
+  const thisYear = new Date().getFullYear()
+  const peerLabels = peerSets(bench).map((p) => PEER_COLUMN[p.id] ?? p.label)
+  return (
+    <div className="rounded-md border bg-background p-3 text-sm space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="font-medium">Target simulator</div>
+        <div className="flex items-center gap-1">
+          {original && (
+            <Button variant="ghost" size="sm" onClick={() => onDraftChange({ ...original, id: "draft", name: "" })}>
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Reset
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => onDraftChange(null)} title="Back to the reported target">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
+        <label className="space-y-2">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Base year</span>
+            <span className="font-medium text-foreground tabular-nums">{draft.baseYear}</span>
+          </div>
+          <Slider min={MIN_YEAR} max={thisYear} step={1} value={[draft.baseYear]} onValueChange={([v]) => set({ baseYear: v })} />
+        </label>
+        <label className="space-y-2">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Target year</span>
+            <span className="font-medium text-foreground tabular-nums">{draft.targetYear}</span>
+          </div>
+          <Slider min={MIN_YEAR + 1} max={MAX_YEAR} step={1} value={[draft.targetYear]} onValueChange={([v]) => set({ targetYear: v })} />
+        </label>
+        <label className="space-y-2">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Reduction from base year</span>
+            <span className="font-medium text-foreground tabular-nums">{pct(draft.reduction, 0)}</span>
+          </div>
+          <Slider min={0} max={100} step={1} value={[Math.round(draft.reduction * 100)]} onValueChange={([v]) => set({ reduction: v / 100 })} />
+        </label>
+        <div className="space-y-2">
+          <div className="text-xs text-muted-foreground">Scope coverage</div>
+          <Select value={draft.coverage} onValueChange={(v) => set({ coverage: v as ScenarioCoverage })}>
+            <SelectTrigger size="sm" className="w-44 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCENARIO_COVERAGES.map((c) => (
+                <SelectItem key={c} value={c}>{COVERAGE_LABEL[c]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Base-year emissions stay at the reported baseline; peer percentiles compare the Scope 1+2 reduction.
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && save()}
+          placeholder="Scenario name, e.g. 2019 base, 50% by 2032"
+          className="h-8 text-xs max-w-xs"
+          maxLength={80}
+        />
+        <Button size="sm" onClick={save} disabled={!pdfId || !name.trim() || busy}>
+          <Save className="w-4 h-4 mr-2" />
+          {busy ? "Saving…" : "Save scenario"}
+        </Button>
+        {error && <span className="text-xs text-red-700">{error}</span>}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left border-b">
+              {["Scenario", "Base", "Target", "Reduction", "Scopes", "Per year", "S1+2 in target year", ...peerLabels, "vs 1.5°C", ""].map((h, i) => (
+                <th key={`${i}-${h}`} className="py-2 pr-3 font-medium">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ scenario: s, label, kind }) => {
+              const o = scenarioOutcome(bench, s)
+              return (
+                <tr key={`${kind}-${s.id}`} className={`border-b last:border-0 ${kind === "draft" ? "bg-muted/40" : ""}`}>
+                  <td className={`py-1.5 pr-3 ${kind === "saved" ? "" : "font-medium"}`}>{label}</td>
+                  <td className="py-1.5 pr-3 tabular-nums">{s.baseYear}</td>
+                  <td className="py-1.5 pr-3 tabular-nums">{s.targetYear}</td>
+                  <td className="py-1.5 pr-3 tabular-nums">{pct(s.reduction)}</td>
+                  <td className="py-1.5 pr-3">{COVERAGE_LABEL[s.coverage]}</td>
+                  <td className="py-1.5 pr-3 tabular-nums">{pct(o.annualRate)}</td>
+                  <td className="py-1.5 pr-3 tabular-nums">{o.targetEmissions == null ? "—" : formatNumber(Math.round(o.targetEmissions))}</td>
+                  {o.peers.map((p, i) => (
+                    <td key={i} className="py-1.5 pr-3 tabular-nums">{pctile(p.position)}</td>
+                  ))}
+                  <td className={`py-1.5 pr-3 tabular-nums ${o.gap15Pp != null && o.gap15Pp > 0.05 ? "text-amber-700" : ""}`}>
+                    {o.gap15Pp == null ? "—" : o.gap15Pp > 0.05 ? `−${o.gap15Pp.toFixed(1)} pp` : "Aligned"}
+                  </td>
+                  <td className="py-1.5 text-right whitespace-nowrap">
+                    {kind === "saved" && (
+                      <>
+                        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onDraftChange({ ...s, id: "draft", name: "" })}>
+                          Load
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => remove(s.id)} title="Delete scenario">
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import React from "react"
+import { ExternalLink, RotateCcw, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import type { QueueItem, QueueStatus } from "@/components/useUploadQueue"
+
+const STATUS_STYLE: Record<QueueStatus, string> = {
+  queued: "bg-muted text-muted-foreground",
+  extracting: "bg-blue-100 text-blue-800",
+  "job running": "bg-amber-100 text-amber-800",
+  ready: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+}
+
+/** Per-file status for a batch upload; finished reports open in the analysis view. */
+export default function UploadQueue({
+  items,
+  onOpen,
+  onRetry,
+  onRemove,
+  onClearFinished,
+}: {
+  items: QueueItem[]
+  onOpen: (item: QueueItem) => void
+  onRetry: (item: QueueItem) => void
+  onRemove: (item: QueueItem) => void
+  onClearFinished: () => void
+}) {
+  const counts = items.reduce<Record<string, number>>((acc, it) => {
+    acc[it.status] = (acc[it.status] || 0) + 1
+    return acc
+  }, {})
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Upload queue</CardTitle>
+            <CardDescription>
+              {counts.ready || 0} of {items.length} ready
+              {counts.failed ? ` · ${counts.failed} failed` : ""}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={onClearFinished} disabled={!counts.ready}>
+            Clear finished
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="max-h-[50vh] overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground border-b">
+              <th className="py-2 pr-2 font-medium">File</th>
+              <th className="py-2 pr-2 font-medium w-40">Status</th>
+              <th className="py-2 w-28" />
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((it) => (
+              <tr key={it.id} className="border-b last:border-0 align-top">
+                <td className="py-2 pr-2">
+                  <div className="truncate max-w-[28rem]" title={it.name}>{it.name}</div>
+                  {it.error && <div className="text-xs text-red-700 break-words">{it.error}</div>}
+                </td>
+                <td className="py-2 pr-2">
+                  <span className={`rounded px-1.5 py-0.5 text-xs ${STATUS_STYLE[it.status]}`}>
+                    {it.status === "ready" && it.cached ? "ready (cached)" : it.status}
+                  </span>
+                  {it.status === "extracting" && it.progress < 1 && (
+                    <Progress className="mt-1.5 h-1" value={it.progress * 100} />
+                  )}
+                  {it.status === "job running" && it.detail && (
+                    <div className="mt-1 text-xs text-muted-foreground">{it.detail}</div>
+                  )}
+                </td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  {it.status === "ready" && (
+                    <Button variant="outline" size="sm" onClick={() => onOpen(it)}>
+                      <ExternalLink className="w-4 h-4 mr-1" />
+                      Open
+                    </Button>
+                  )}
+                  {it.status === "failed" && !it.rejected && (
+                    <Button variant="outline" size="sm" onClick={() => onRetry(it)} title="Retry">
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {it.status !== "extracting" && (
+                    <Button variant="ghost" size="sm" onClick={() => onRemove(it)} title="Remove">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from "react"
+import type { PeerGroup } from "@/lib/peer-groups"
+
+/** Saved peer groups for one client (see `clientKey`), with save and delete. */
+export function usePeerGroups(client: string | null) {
+  const [groups, setGroups] = useState<PeerGroup[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setGroups([])
+    setError(null)
+    if (!client) return
+    let cancelled = false
+    ;(async () => {
+      try {
+        const r = await fetch(`/api/databricks/peer-groups/${encodeURIComponent(client)}`, { cache: "no-store" })
+        const j = await r.json().catch(() => ({}))
+        if (!cancelled && r.ok && Array.isArray(j?.groups)) setGroups(j.groups)
+      } catch {
+        // Without saved groups the default peers still apply
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [client])
+
+  const save = useCallback(
+    async (group: Omit<PeerGroup, "id" | "createdAt">): Promise<PeerGroup | null> => {
+      if (!client) return null
+      setError(null)
+      try {
+        const r = await fetch(`/api/databricks/peer-groups/${encodeURIComponent(client)}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(group),
+        })
+        const j = await r.json().catch(() => ({}))
+        if (!r.ok) throw new Error(j?.error || `Save failed ${r.status}`)
+        setGroups((list) => [...list, j.group])
+        return j.group as PeerGroup
+      } catch (e: any) {
+        setError(e?.message || "Save failed")
+        return null
+      }
+    },
+    [client]
+  )
+
+  const remove = useCallback(
+    async (id: string): Promise<boolean> => {
+      if (!client) return false
+      setError(null)
+      try {
+        const r = await fetch(`/api/databricks/peer-groups/${encodeURIComponent(client)}?id=${encodeURIComponent(id)}`, { method: "DELETE" })
+        if (!r.ok) throw new Error(`Delete failed ${r.status}`)
+        setGroups((list) => list.filter((g) => g.id !== id))
+        return true
+      } catch (e: any) {
+        setError(e?.message || "Delete failed")
+        return false
+      }
+    },
+    [client]
+  )
+
+  return { groups, error, save, remove }
+}
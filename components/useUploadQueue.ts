@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { summarizeRun } from "@/lib/pipeline"
+import { uploadForAnalysis } from "@/lib/upload-client"
+
+export type QueueStatus = "queued" | "extracting" | "job running" | "ready" | "failed"
+
+export type QueueItem = {
+  id: string
+  file: File
+  name: string
+  status: QueueStatus
+  progress: number // upload fraction 0..1 while extracting
+  detail: string | null
+  error: string | null
+  rejected: boolean // failed validation before upload; retrying can't help
+  cached: boolean
+  pdfId: string | null
+  batchPath: string | null
+  runId: number | null
+  startedAt: number | null
+}
+
+/**
+ * Client-side queue for batch uploads. At most `concurrency` files go through
+ * invoke at once; items whose job is running are polled (artifacts + run
+ * status) until ready, failed, or past `deadlineMs`.
+ */
+export function useUploadQueue({
+  concurrency = 3,
+  pollMs = 5000,
+  deadlineMs = 20 * 60_000,
+}: { concurrency?: number; pollMs?: number; deadlineMs?: number } = {}) {
+  const [items, setItems] = useState<QueueItem[]>([])
+  const itemsRef = useRef(items)
+  itemsRef.current = items
+  const seq = useRef(0)
+
+  const update = useCallback((id: string, patch: Partial<QueueItem>) => {
+    setItems((list) => list.map((it) => (it.id === id ? { ...it, ...patch } : it)))
+  }, [])
+
+  const enqueue = useCallback((files: File[], invalid?: (f: File) => string | null) => {
+    const added = files.map((file): QueueItem => {
+      const error = invalid?.(file) ?? null
+      return {
+        id: `q${++seq.current}`,
+        file,
+        name: file.webkitRelativePath || file.name,
+        status: error ? "failed" : "queued",
+        progress: 0,
+        detail: null,
+        error,
+        rejected: Boolean(error),
+        cached: false,
+        pdfId: null,
+        batchPath: null,
+        runId: null,
+        startedAt: null,
+      }
+    })
+    setItems((list) => [...list, ...added])
+  }, [])
+
+  const retry = useCallback((id: string) => {
+    setItems((list) =>
+      list.map((it) =>
+        it.id === id && it.status === "failed" && !it.rejected
+          ? { ...it, status: "queued", progress: 0, detail: null, error: null, pdfId: null, batchPath: null, runId: null }
+          : it
+      )
+    )
+  }, [])
+
+  const remove = useCallback((id: string) => {
+    setItems((list) => list.filter((it) => it.id !== id || it.status === "extracting"))
+  }, [])
+
+  const clearFinished = useCallback(() => {
+    setItems((list) => list.filter((it) => it.status !== "ready"))
+  }, [])
+
+  // Start queued items while below the concurrency limit
+  useEffect(() => {
+    const free = concurrency - items.filter((it) => it.status === "extracting").length
+    if (free <= 0) return
+    for (const item of items.filter((it) => it.status === "queued").slice(0, free)) {
+      update(item.id, { status: "extracting", progress: 0, error: null })
+      uploadForAnalysis(item.file, {
+        onProgress: (p) => update(item.id, { progress: p.total ? p.loaded / p.total : 0 }),
+      })
+        .then((res) =>
+          update(item.id, {
+            status: res.cached ? "ready" : "job running",
+            progress: 1,
+            cached: Boolean(res.cached),
+            pdfId: res.pdfId,
+            batchPath: res.batchPath,
+            runId: res.runId,
+            startedAt: Date.now(),
+          })
+        )
+        .catch((e: any) => update(item.id, { status: "failed", error: e?.message || "Analysis failed" }))
+    }
+  }, [items, concurrency, update])
+
+  // Poll items whose job is running, one at a time to keep request volume flat
+  const hasRunning = items.some((it) => it.status === "job running")
+  useEffect(() => {
+    if (!hasRunning) return
+    let cancelled = false
+    let timer: NodeJS.Timeout | null = null
+
+    const check = async (it: QueueItem): Promise<Partial<QueueItem> | null> => {
+      const q = it.batchPath ? `?batch_path=${encodeURIComponent(it.batchPath)}` : ""
+      const r = await fetch(`/api/databricks/fetch/${encodeURIComponent(it.pdfId!)}${q}`, { cache: "no-store" })
+      if (r.ok && (await r.json())?.ready?.all) return { status: "ready", detail: null }
+
+      const timedOut = it.startedAt != null && Date.now() - it.startedAt > deadlineMs
+      if (it.runId != null) {
+        const s = await fetch(`/api/databricks/run-status?run_id=${it.runId}`, { cache: "no-store" })
+        if (s.ok) {
+          const run = summarizeRun(await s.json())
+          if (run.phase === "failed") {
+            return { status: "failed", error: run.message || `Databricks job ${run.result || run.lifeCycle}` }
+          }
+          if (!timedOut) return { detail: run.lifeCycle.toLowerCase().replace(/_/g, " ") }
+        }
+      }
+      return timedOut ? { status: "failed", error: "Timed out waiting for analysis artifacts." } : null
+    }
+
+    const tick = async () => {
+      for (const it of itemsRef.current.filter((x) => x.status === "job running" && x.pdfId)) {
+        if (cancelled) return
+        try {
+          const patch = await check(it)
+          if (patch && !cancelled) update(it.id, patch)
+        } catch (e) {
+          console.error("[queue] poll error:", e)
+        }
+      }
+      if (!cancelled) timer = setTimeout(tick, pollMs)
+    }
+    timer = setTimeout(tick, pollMs)
+    return () => { cancelled = true; if (timer) clearTimeout(timer) }
+  }, [hasRunning, pollMs, deadlineMs, update])
+
+  return { items, enqueue, retry, remove, clearFinished }
+}
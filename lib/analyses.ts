@@ -0,0 +1,103 @@
+import type { Lens } from "@/lib/frameworks"
+import type { SectorId } from "@/lib/sectors"
+import { getStorage, joinPath, readJSON, withFileLock, writeJSON } from "@/lib/storage"
+
+export type AnalysisStatus = "processing" | "ready" | "failed"
+
+/**
+ * One uploaded report. Written by invoke and updated as artifacts land, so the
+ * upload screen can list previous analyses and reopen them without the PDF.
+ */
+export type AnalysisRecord = {
+  pdfId: string
+  fileName: string | null
+  company: string | null
+  uploadedAt: string
+  batchPath: string | null
+  runId: number | null
+  status: AnalysisStatus
+  lens?: Lens | null // framework lens chosen for the gap view; null/absent = GRI + the sector's overlay
+  sector?: SectorId | null // manual override of the extracted sector
+  peerGroup?: string | null // id of the client's saved peer group to benchmark against; null/absent = default peers
+  updatedAt: string
+}
+
+const ANALYSES_DIR = () => process.env.ESGSMART_ANALYSES_DIR || "dbfs:/tmp/esgsmart_analyses"
+const STATUSES: AnalysisStatus[] = ["processing", "ready", "failed"]
+
+export function isAnalysisStatus(v: unknown): v is AnalysisStatus {
+  return STATUSES.includes(v as AnalysisStatus)
+}
+
+function recordPath(pdfId: string) {
+  return joinPath(ANALYSES_DIR(), `${pdfId}.json`)
+}
+
+export async function loadAnalysis(pdfId: string): Promise<AnalysisRecord | null> {
+  const r = await readJSON(getStorage(), recordPath(pdfId))
+  if (!r.ok) {
+    if (r.status !== 404) console.warn(`[analyses] load ${pdfId} failed: ${r.error}`)
+    return null
+  }
+  return r.data as AnalysisRecord
+}
+
+export async function saveAnalysis(record: AnalysisRecord): Promise<AnalysisRecord> {
+  const next = { ...record, updatedAt: new Date().toISOString() }
+  await writeJSON(getStorage(), recordPath(record.pdfId), next)
+  return next
+}
+
+/** Merges `patch` into an existing record; returns null when there is none. */
+export async function updateAnalysis(
+  pdfId: string,
+  patch: Partial<Omit<AnalysisRecord, "pdfId">>
+): Promise<AnalysisRecord | null> {
+  return withFileLock(recordPath(pdfId), async () => {
+    const current = await loadAnalysis(pdfId)
+    if (!current) return null
+    return saveAnalysis({ ...current, ...patch, pdfId })
+  })
+}
+
+export async function deleteAnalysis(pdfId: string): Promise<void> {
+  await getStorage().delete(recordPath(pdfId))
+}
+
+// Content-hash pdfId → the pdfId the record is saved under (serving may assign its own)
+function contentKeyPath(contentId: string) {
+  return joinPath(ANALYSES_DIR(), `by-content/${contentId}.json`)
+}
+
+/** The pdfId recorded for an upload's content-hash id; null when it was never analysed. */
+export async function resolveContentId(contentId: string): Promise<string | null> {
+  const r = await readJSON(getStorage(), contentKeyPath(contentId))
+  if (!r.ok) {
+    if (r.status !== 404) console.warn(`[analyses] content key ${contentId} failed: ${r.error}`)
+    return null
+  }
+  return typeof r.data?.pdfId === "string" ? r.data.pdfId : null
+}
+
+export async function saveContentId(contentId: string, pdfId: string): Promise<void> {
+  await writeJSON(getStorage(), contentKeyPath(contentId), { contentId, pdfId })
+}
+
+/** Most recently updated first. */
+export async function listAnalyses(limit = 50): Promise<AnalysisRecord[]> {
+  const storage = getStorage()
+  const entries = (await storage.list(ANALYSES_DIR()))
+    .filter((e) => !e.isDir && e.path.endsWith(".json"))
+    .sort((a, b) => (b.modifiedAt ?? 0) - (a.modifiedAt ?? 0))
+    .slice(0, limit)
+
+  const records = await Promise.all(
+    entries.map(async (e) => {
+      const r = await readJSON(storage, e.path)
+      return r.ok && r.data?.pdfId ? (r.data as AnalysisRecord) : null
+    })
+  )
+  return records
+    .filter((r): r is AnalysisRecord => r !== null)
+    .sort((a, b) => (b.updatedAt || "").localeCompare(a.updatedAt || ""))
+}
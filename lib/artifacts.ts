@@ -0,0 +1,143 @@
+import { readJSON, readText, type ArtifactStorage, type JsonReadResult } from "@/lib/storage"
+
+/**
+ * Where the pipeline leaves its outputs for one report:
+ * 1. Summary row in the invoke batch predictions file
+ * 2. Benchmark artifact (written by the Databricks job)
+ * 3. Gap analysis artifact (written by the Databricks job)
+ */
+
+export type ArtifactBundle = {
+  ready: { summary: boolean; benchmark: boolean; gap: boolean; all: boolean }
+  summary: any | null
+  benchmark: any | null
+  gap: any | null
+  // Storage paths the artifacts were read from (null when not found)
+  sources: { summary: string | null; benchmark: string | null; gap: string | null }
+}
+
+const BENCHMARK_DIR = () => process.env.DATABRICKS_BENCHMARK_DIR || "dbfs:/tmp/sbti_benchmarks"
+const GAP_DIR = () => process.env.DATABRICKS_GAP_DIR || "dbfs:/tmp/gap_analysis"
+
+const benchmarkPath = (pdfId: string) => `${BENCHMARK_DIR()}/${pdfId}.json`
+
+// Gap artifact names seen across job versions, in lookup order
+const gapPaths = (pdfId: string) => {
+  const gapDir = GAP_DIR()
+  return [`${gapDir}/severity_${pdfId}.json`, `${gapDir}/${pdfId}.json`, `${gapDir}/gap_${pdfId}.json`]
+}
+
+export async function readSummaryFromBatch(
+  storage: ArtifactStorage,
+  batchPath: string,
+  pdfId: string
+): Promise<any | null> {
+  try {
+    console.log(`[artifacts] Reading batch file: ${batchPath}`)
+    const result = await readText(storage, batchPath)
+
+    if (!result.ok) {
+      console.log(`[artifacts] Batch file not ready: ${result.error}`)
+      return null
+    }
+
+    // Batch file is NDJSON - could be array, single object or one row per line
+    let predictions: any[] = []
+    try {
+      const parsed = JSON.parse(result.text)
+      predictions = Array.isArray(parsed) ? parsed : [parsed]
+    } catch {
+      const lines = result.text.split("\n").filter((l) => l.trim())
+      predictions = lines.map((line) => JSON.parse(line))
+    }
+
+    // Find the row with matching pdfId
+    const row = predictions.find((p: any) => {
+      const rowPdfId = p.pdf_id || p?.json_schema?.pdf_id || p?.metadata?.pdf_id
+      return rowPdfId === pdfId
+    })
+
+    if (row) {
+      console.log(`[artifacts] ✓ Found summary in batch`)
+      return row
+    }
+
+    console.log(`[artifacts] No matching pdfId in batch predictions`)
+    return null
+  } catch (err) {
+    console.error("[artifacts] Error reading batch:", err)
+    return null
+  }
+}
+
+export async function loadArtifacts(
+  storage: ArtifactStorage,
+  pdfId: string,
+  batchPath: string | null
+): Promise<ArtifactBundle> {
+  // Fetch summary from batch file
+  let summaryData: any = null
+  if (batchPath) {
+    summaryData = await readSummaryFromBatch(storage, batchPath, pdfId)
+  } else {
+    console.log("[artifacts] No batch_path provided, skipping summary")
+  }
+
+  // Fetch benchmark artifact
+  const benchPath = benchmarkPath(pdfId)
+  console.log(`[artifacts] Trying benchmark: ${benchPath}`)
+  const benchmarkResult = await readJSON(storage, benchPath)
+  if (benchmarkResult.ok) {
+    console.log(`[artifacts] ✓ Benchmark found`)
+  } else {
+    console.log(`[artifacts] ✗ Benchmark not ready: ${benchmarkResult.error}`)
+  }
+
+  // Try gap with multiple naming patterns
+  console.log(`[artifacts] Trying gap analysis...`)
+  let gapResult: JsonReadResult = { ok: false, status: 404, error: "Not found" }
+  let gapPath: string | null = null
+  for (const path of gapPaths(pdfId)) {
+    const res = await readJSON(storage, path)
+    if (res.ok) {
+      console.log(`[artifacts] ✓ Gap found: ${path}`)
+      gapResult = res
+      gapPath = path
+      break
+    }
+  }
+
+  if (!gapResult.ok) {
+    console.log(`[artifacts] ✗ Gap not ready`)
+  }
+
+  // Determine ready status
+  const ready = {
+    summary: summaryData !== null,
+    benchmark: benchmarkResult.ok,
+    gap: gapResult.ok,
+    all: false,
+  }
+  ready.all = ready.summary && ready.benchmark && ready.gap
+
+  return {
+    ready,
+    summary: summaryData,
+    benchmark: benchmarkResult.ok ? benchmarkResult.data : null,
+    gap: gapResult.ok ? gapResult.data : null,
+    sources: {
+      summary: ready.summary ? batchPath : null,
+      benchmark: ready.benchmark ? benchPath : null,
+      gap: gapPath,
+    },
+  }
+}
+
+/**
+ * Removes the benchmark and gap artifacts of a report, so a re-run isn't
+ * reported ready on the previous run's outputs. The batch file is left alone:
+ * each run writes a new one.
+ */
+export async function clearArtifacts(storage: ArtifactStorage, pdfId: string): Promise<void> {
+  await Promise.all([benchmarkPath(pdfId), ...gapPaths(pdfId)].map((path) => storage.delete(path)))
+}
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict"
+import { describe as suite, test } from "node:test"
+import { describe, ordinal, peerBand, percentileRank, quantile, zScore } from "@/lib/benchmark-stats"
+
+const close = (actual: number | null | undefined, expected: number) =>
+  assert.ok(actual != null && Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`)
+
+suite("quantile", () => {
+  test("interpolates between order statistics like PERCENTILE.INC", () => {
+    const v = [0.1, 0.2, 0.3, 0.4]
+    close(quantile(v, 0), 0.1)
+    close(quantile(v, 0.25), 0.175)
+    close(quantile(v, 0.5), 0.25)
+    close(quantile(v, 0.75), 0.325)
+    close(quantile(v, 1), 0.4)
+  })
+
+  test("returns the only value for a single element", () => {
+    close(quantile([0.42], 0.25), 0.42)
+    close(quantile([0.42], 0.9), 0.42)
+  })
+
+  test("clamps p to 0..1", () => {
+    close(quantile([1, 2, 3], -1), 1)
+    close(quantile([1, 2, 3], 2), 3)
+  })
+})
+
+suite("describe", () => {
+  test("is null for no usable values", () => {
+    assert.equal(describe([]), null)
+    assert.equal(describe([NaN, Infinity]), null)
+  })
+
+  test("sorts, skips non-finite values and computes the five-number summary", () => {
+    const s = describe([0.5, 0.3, NaN, 0.1, 0.4, 0.2])!
+    assert.equal(s.n, 5)
+    close(s.min, 0.1)
+    close(s.q1, 0.2)
+    close(s.median, 0.3)
+    close(s.q3, 0.4)
+    close(s.max, 0.5)
+    close(s.mean, 0.3)
+    close(s.sd, Math.sqrt(0.02))
+  })
+
+  test("takes the mean of the middle two for an even count", () => {
+    close(describe([0.1, 0.2, 0.3, 0.4])!.median, 0.25)
+  })
+
+  test("has zero spread for a single peer", () => {
+    const s = describe([0.42])!
+    assert.equal(s.n, 1)
+    close(s.q1, 0.42)
+    close(s.median, 0.42)
+    close(s.q3, 0.42)
+    assert.equal(s.sd, 0)
+  })
+})
+
+suite("percentileRank", () => {
+  test("is null without peers", () => {
+    assert.equal(percentileRank(0.5, []), null)
+  })
+
+  test("is the share of values below, from 0 to 100", () => {
+    assert.equal(percentileRank(0.05, [0.1, 0.2, 0.3, 0.4]), 0)
+    assert.equal(percentileRank(0.25, [0.1, 0.2, 0.3, 0.4]), 50)
+    assert.equal(percentileRank(0.9, [0.1, 0.2, 0.3, 0.4]), 100)
+  })
+
+  test("counts ties as half", () => {
+    assert.equal(percentileRank(0.2, [0.1, 0.2, 0.3, 0.4]), 38) // (1 + 0.5) / 4
+    assert.equal(percentileRank(0.3, [0.3, 0.3]), 50)
+    assert.equal(percentileRank(0.42, [0.42]), 50)
+  })
+})
+
+suite("zScore", () => {
+  test("is standard deviations from the mean", () => {
+    const s = describe([0.2, 0.4])! // mean 0.3, sd 0.1
+    close(zScore(0.5, s), 2)
+    close(zScore(0.2, s), -1)
+  })
+
+  test("is null when peers don't vary", () => {
+    assert.equal(zScore(0.5, describe([0.3])!), null)
+    assert.equal(zScore(0.5, describe([0.3, 0.3, 0.3])!), null)
+  })
+})
+
+suite("peerBand", () => {
+  test("maps percentiles to bands at the quartile and median boundaries", () => {
+    assert.equal(peerBand(100), "top-quartile")
+    assert.equal(peerBand(75), "top-quartile")
+    assert.equal(peerBand(74), "above-median")
+    assert.equal(peerBand(51), "above-median")
+    assert.equal(peerBand(50), "median")
+    assert.equal(peerBand(49), "below-median")
+    assert.equal(peerBand(26), "below-median")
+    assert.equal(peerBand(25), "bottom-quartile")
+    assert.equal(peerBand(0), "bottom-quartile")
+  })
+})
+
+suite("ordinal", () => {
+  test("uses st, nd and rd after 1, 2 and 3", () => {
+    assert.equal(ordinal(1), "1st")
+    assert.equal(ordinal(2), "2nd")
+    assert.equal(ordinal(3), "3rd")
+    assert.equal(ordinal(22), "22nd")
+    assert.equal(ordinal(73), "73rd")
+    assert.equal(ordinal(101), "101st")
+  })
+
+  test("uses th for 11th to 13th and the rest", () => {
+    assert.equal(ordinal(0), "0th")
+    assert.equal(ordinal(4), "4th")
+    assert.equal(ordinal(11), "11th")
+    assert.equal(ordinal(12), "12th")
+    assert.equal(ordinal(13), "13th")
+    assert.equal(ordinal(111), "111th")
+    assert.equal(ordinal(100), "100th")
+  })
+})
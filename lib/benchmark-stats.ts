@@ -0,0 +1,66 @@
+/**
+ * Descriptive statistics for peer Scope 1+2 reduction targets, shared by the
+ * peer tables (Average/Median rows), the distribution plot, the insight
+ * wording, the target simulator and the chat context (peer rows are turned
+ * into values by `reductionValues` in lib/benchmark). Quantiles interpolate
+ * linearly between order statistics (the same as Excel's PERCENTILE.INC),
+ * so the median of an even count is the mean of the middle two.
+ */
+
+export type PeerStats = {
+  n: number
+  min: number
+  q1: number
+  median: number
+  q3: number
+  max: number
+  mean: number
+  sd: number // population standard deviation; 0 for a single peer
+}
+
+/** `p` in 0..1 of an ascending-sorted, non-empty list. */
+export function quantile(sorted: number[], p: number): number {
+  const pos = (sorted.length - 1) * Math.min(1, Math.max(0, p))
+  const lo = Math.floor(pos)
+  const hi = Math.ceil(pos)
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo)
+}
+
+export function describe(values: number[]): PeerStats | null {
+  const v = values.filter((x) => Number.isFinite(x)).sort((a, b) => a - b)
+  if (!v.length) return null
+  const mean = v.reduce((a, b) => a + b, 0) / v.length
+  const sd = Math.sqrt(v.reduce((a, b) => a + (b - mean) ** 2, 0) / v.length)
+  return { n: v.length, min: v[0], q1: quantile(v, 0.25), median: quantile(v, 0.5), q3: quantile(v, 0.75), max: v[v.length - 1], mean, sd }
+}
+
+/** Share of `values` below `x` (ties count half), as 0..100. */
+export function percentileRank(x: number, values: number[]): number | null {
+  if (!values.length) return null
+  const below = values.filter((v) => v < x).length
+  const ties = values.filter((v) => v === x).length
+  return Math.round(((below + ties / 2) / values.length) * 100)
+}
+
+/** Standard deviations from the peer mean; null when peers don't vary. */
+export function zScore(x: number, stats: PeerStats): number | null {
+  return stats.sd > 0 ? (x - stats.mean) / stats.sd : null
+}
+
+// Where a percentile rank falls among the peers
+export type PeerBand = "top-quartile" | "above-median" | "median" | "below-median" | "bottom-quartile"
+
+export function peerBand(percentile: number): PeerBand {
+  if (percentile >= 75) return "top-quartile"
+  if (percentile > 50) return "above-median"
+  if (percentile === 50) return "median"
+  if (percentile > 25) return "below-median"
+  return "bottom-quartile"
+}
+
+/** "1st", "22nd", "73rd", "11th". */
+export function ordinal(n: number): string {
+  const mod100 = n % 100
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`
+  return `${n}${["th", "st", "nd", "rd"][n % 10] ?? "th"}`
+}
@@ -0,0 +1,198 @@
+import { describe, ordinal, peerBand, percentileRank, zScore, type PeerBand, type PeerStats } from "@/lib/benchmark-stats"
+
+/**
+ * Derived views of the SBTi benchmark artifact (`{ company, peers_country,
+ * peers_region }`), shared by the Benchmarking tab and the PDF export.
+ */
+
+export type TrajectorySeries = { name: string; points: Array<{ x: number; y: number }> }
+
+/** Target shares arrive as 0..1 fractions or 0..100 percentages. */
+export function asFrac(x: any): number | null {
+  if (x === null || x === undefined || x === "") return null
+  const v = Number(String(x).replace("%", ""))
+  if (!Number.isFinite(v)) return null
+  if (v >= 0 && v <= 1) return v
+  if (v > 1 && v <= 100) return v / 100
+  return null
+}
+
+export function fmtPct(x: any): string {
+  const f = asFrac(x)
+  if (f === null) return "n/a"
+  return `${(f * 100).toFixed(1)}%`
+}
+
+/**
+ * Straight-line Scope 1, 2 and 1+2 paths from base year to target year, plus
+ * Scope 3 when the artifact carries a Scope 3 base and target (or reduction).
+ * A Scope 3 target may have its own base and target years.
+ */
+export function sbtiTrajectory(company: any): TrajectorySeries[] {
+  if (!company) return []
+  const c = company
+  const sy = Number(c.sbti_start_year)
+  const ty = Number(c.sbti_target_year)
+  if (!Number.isFinite(sy) || !Number.isFinite(ty) || ty <= sy) return []
+
+  const sf = (v: any): number | null => {
+    if (v === null || v === undefined || v === "") return null
+    const n = Number(String(v).replace(/,/g, ""))
+    return Number.isFinite(n) ? n : null
+  }
+  const s1b = sf(c.scope_1)
+  const s2b = sf(c.scope_2)
+  let s12b = sf(c.sbti_scope_1_2)
+  if (s12b == null && s1b != null && s2b != null) s12b = s1b + s2b
+  let s1t = sf(c.sbti_scope_1_target)
+  let s2t = sf(c.sbti_scope_2_target)
+  let s12t = sf(c.sbti_scope_1_2_target)
+  const redRaw = sf(c.sbti_scope_1_2_reduction_pct)
+
+  if (s12t == null && redRaw != null && s12b != null) {
+    const rf = redRaw > 1 ? redRaw / 100 : redRaw
+    s12t = s12b * (1 - rf)
+  }
+  if (s12t != null && (s1t == null || s2t == null) && s1b != null && s2b != null && s1b + s2b > 0) {
+    if (s1t == null) s1t = s12t * (s1b / (s1b + s2b))
+    if (s2t == null) s2t = s12t * (s2b / (s1b + s2b))
+  }
+  if (s12t == null && s1t != null && s2t != null) s12t = s1t + s2t
+
+  const s3b = sf(c.sbti_scope_3) ?? sf(c.scope_3)
+  let s3t = sf(c.sbti_scope_3_target)
+  const red3Raw = sf(c.sbti_scope_3_reduction_pct)
+  if (s3t == null && red3Raw != null && s3b != null) s3t = s3b * (1 - (red3Raw > 1 ? red3Raw / 100 : red3Raw))
+  const sy3 = sf(c.sbti_scope_3_start_year) ?? sy
+  const ty3 = sf(c.sbti_scope_3_target_year) ?? ty
+
+  const make = (name: string, v0: number | null, v1: number | null, from = sy, to = ty) => {
+    if (v0 == null || v1 == null || !(to > from)) return { name, points: [] as Array<{ x: number; y: number }> }
+    const years: number[] = []
+    for (let y = from; y <= to; y++) years.push(y)
+    const pts = years.map((y, i) => {
+      const t = i / (years.length - 1 || 1)
+      return { x: y, y: v0 + (v1 - v0) * t }
+    })
+    return { name, points: pts }
+  }
+  return [
+    make("Scope 1", s1b, s1t),
+    make("Scope 2", s2b, s2t),
+    make("Scope 1+2", s12b, s12t),
+    make("Scope 3", s3b, s3t, sy3, ty3),
+  ]
+}
+
+export type PeerRow = {
+  Company: string
+  Sector: string
+  Country: string
+  Region: string
+  "Base Year": string
+  "Target Year": string
+  "% Reduction": string
+  _pct_num?: number
+}
+
+/** Peer rows sorted by % reduction, with Average and Median rows slotted in. */
+export function buildPeerDisplay(raw: any[]): PeerRow[] {
+  if (!Array.isArray(raw)) return []
+  const rows: PeerRow[] = raw.map((r: any) => ({
+    Company: r.company_name ?? "",
+    Sector: r.sector ?? "",
+    Country: r.main_country ?? "",
+    Region: r.main_region ?? "",
+    "Base Year": r.sbti_start_year != null ? String(r.sbti_start_year) : "n/a",
+    "Target Year": r.sbti_target_year != null ? String(r.sbti_target_year) : "n/a",
+    "% Reduction": r.sbti_scope_1_2_reduction_pct != null ? String(r.sbti_scope_1_2_reduction_pct) : "",
+  }))
+
+  const pctNum = (s: string): number | null => {
+    if (!s) return null
+    const v = Number(String(s).replace("%", ""))
+    if (!Number.isFinite(v)) return null
+    if (v >= 0 && v <= 1) return v * 100
+    if (v > 1 && v <= 100) return v
+    return null
+  }
+
+  const withNum = rows.map((r) => ({ ...r, _pct_num: pctNum(r["% Reduction"]) ?? undefined }))
+  const stats = describe(withNum.map((r) => r._pct_num).filter((x): x is number => x != null))
+  const mean = stats?.mean ?? null
+  const median = stats?.median ?? null
+
+  const avgRow: PeerRow = {
+    Company: "**Average**", Sector: "", Country: "", Region: "",
+    "Base Year": "", "Target Year": "", "% Reduction": mean == null ? "" : `${mean.toFixed(1)}%`,
+    _pct_num: mean == null ? undefined : mean,
+  }
+  const medRow: PeerRow = {
+    Company: "**Median**", Sector: "", Country: "", Region: "",
+    "Base Year": "", "Target Year": "", "% Reduction": median == null ? "" : `${median.toFixed(1)}%`,
+    _pct_num: median == null ? undefined : median,
+  }
+  const combined = [...withNum, avgRow, medRow]
+  combined.sort((a, b) => (b._pct_num ?? -Infinity) - (a._pct_num ?? -Infinity))
+  return combined.map((r) => ({
+    ...r,
+    "% Reduction": r._pct_num != null ? `${r._pct_num.toFixed(1)}%` : r["% Reduction"],
+  }))
+}
+
+// One list of peers the company is compared against
+export type PeerSet = {
+  id: string
+  label: string // "Same country", or the peer group's name
+  where: string // completes "companies …": "in the same country"
+  peers: any[]
+}
+
+/**
+ * The peer lists to benchmark against: the custom peer group when one is
+ * applied (`peer_group`, see lib/peer-groups), otherwise the artifact's
+ * country and region lists.
+ */
+export function peerSets(bench: any): PeerSet[] {
+  const group = bench?.peer_group
+  if (group) {
+    return [{ id: "group", label: String(group.name || "Peer group"), where: `in the "${group.name}" peer group`, peers: group.peers || [] }]
+  }
+  return [
+    { id: "country", label: "Same country", where: "in the same country", peers: bench?.peers_country || [] },
+    { id: "region", label: "Same region", where: "in the same region", peers: bench?.peers_region || [] },
+  ]
+}
+
+/** Peer Scope 1+2 reductions as 0..1 fractions, skipping rows without a usable value. */
+export function reductionValues(peers: any[]): number[] {
+  if (!Array.isArray(peers)) return []
+  return peers.map((p) => asFrac(p?.sbti_scope_1_2_reduction_pct)).filter((v): v is number => v !== null)
+}
+
+export type CompanyVsPeers = {
+  stats: PeerStats | null
+  value: number | null // company reduction, 0..1
+  percentile: number | null
+  band: PeerBand | null
+  z: number | null
+}
+
+/** A Scope 1+2 reduction (0..1) placed within one peer list. */
+export function companyVsPeers(companyFrac: number | null, peers: any[]): CompanyVsPeers {
+  const values = reductionValues(peers)
+  const stats = describe(values)
+  if (companyFrac === null || !stats) return { stats, value: companyFrac, percentile: null, band: null, z: null }
+  const percentile = percentileRank(companyFrac, values)
+  return { stats, value: companyFrac, percentile, band: percentile === null ? null : peerBand(percentile), z: zScore(companyFrac, stats) }
+}
+
+/** One-line summary of a peer list for the chat context and PDF export. */
+export function peerStatsLine(label: string, p: CompanyVsPeers): string {
+  if (!p.stats) return `${label}: no peers with a stated reduction`
+  const s = p.stats
+  const spread = `n=${s.n}, median ${fmtPct(s.median)}, IQR ${fmtPct(s.q1)}–${fmtPct(s.q3)}, range ${fmtPct(s.min)}–${fmtPct(s.max)}`
+  if (p.value === null || p.percentile === null) return `${label}: ${spread}`
+  const z = p.z === null ? "" : ` (z = ${p.z >= 0 ? "+" : ""}${p.z.toFixed(2)})`
+  return `${label}: ${spread}; company ${fmtPct(p.value)} at the ${ordinal(p.percentile)} percentile${z}`
+}
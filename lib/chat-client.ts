@@ -0,0 +1,46 @@
+import type { Citation } from "./citations"
+import { readSseEvents } from "./sse"
+
+/**
+ * Client side of POST /api/databricks/chat with `stream: true`.
+ * Calls `onDelta` for every chunk and resolves with the full text and its page
+ * citations. Aborting `signal` stops the stream and resolves with whatever
+ * arrived so far.
+ */
+export async function streamChat(
+  body: Record<string, any>,
+  opts: { signal?: AbortSignal; onDelta: (delta: string, full: string) => void }
+): Promise<{ content: string; stopped: boolean; citations: Citation[] }> {
+  let full = ""
+  let citations: Citation[] = []
+  try {
+    const r = await fetch("/api/databricks/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+      body: JSON.stringify({ ...body, stream: true }),
+      signal: opts.signal,
+    })
+    if (!r.ok || !r.body) {
+      let msg = `Chat failed ${r.status}`
+      try { const j = await r.json(); if (j?.error) msg = j.error } catch {}
+      throw new Error(msg)
+    }
+
+    for await (const ev of readSseEvents(r.body)) {
+      const j = JSON.parse(ev.data)
+      if (ev.event === "error" || j?.error) throw new Error(j?.error || "Stream failed")
+      if (j?.done) {
+        if (Array.isArray(j.citations)) citations = j.citations
+        break
+      }
+      if (typeof j?.delta === "string" && j.delta) {
+        full += j.delta
+        opts.onDelta(j.delta, full)
+      }
+    }
+    return { content: full, stopped: false, citations }
+  } catch (err: any) {
+    if (err?.name === "AbortError") return { content: full, stopped: true, citations }
+    throw err
+  }
+}
@@ -0,0 +1,143 @@
+import crypto from "node:crypto"
+import { getStorage, joinPath, readJSON, writeJSON } from "@/lib/storage"
+
+export type ChatRole = "user" | "assistant"
+export type ChatTurn = { role: ChatRole; content: string }
+
+/**
+ * A persisted conversation for one report. `summary` condenses
+ * `turns[0..summarizedCount)`; `summaryDigest` fingerprints that prefix so a
+ * stale summary (e.g. after Regenerate rewrote history) is never reused.
+ */
+export type Conversation = {
+  pdfId: string
+  turns: ChatTurn[]
+  summary: string | null
+  summarizedCount: number
+  summaryDigest: string | null
+  updatedAt: string
+}
+
+const CHAT_DIR = () => process.env.ESGSMART_CHAT_DIR || "dbfs:/tmp/esgsmart_chats"
+const HISTORY_TOKENS = () => Number(process.env.CHAT_HISTORY_MAX_TOKENS) || 3000
+const MAX_TURN_CHARS = 8000
+
+export function isValidPdfId(pdfId: unknown): pdfId is string {
+  return typeof pdfId === "string" && /^[\w-]{1,128}$/.test(pdfId)
+}
+
+// Rough token estimate (~4 chars/token) — good enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil((text || "").length / 4)
+}
+
+/** Keeps only user/assistant turns with text; clients can't inject system prompts. */
+export function sanitizeTurns(raw: unknown): ChatTurn[] {
+  if (!Array.isArray(raw)) return []
+  return raw
+    .map((m: any) => ({
+      role: m?.role === "ai" ? "assistant" : m?.role,
+      content: typeof m?.content === "string" ? m.content.slice(0, MAX_TURN_CHARS) : "",
+    }))
+    .filter((m): m is ChatTurn => (m.role === "user" || m.role === "assistant") && m.content.trim() !== "")
+}
+
+function digest(turns: ChatTurn[]): string {
+  return crypto.createHash("sha256").update(JSON.stringify(turns)).digest("hex").slice(0, 16)
+}
+
+function conversationPath(pdfId: string) {
+  return joinPath(CHAT_DIR(), `${pdfId}.json`)
+}
+
+export function emptyConversation(pdfId: string): Conversation {
+  return { pdfId, turns: [], summary: null, summarizedCount: 0, summaryDigest: null, updatedAt: new Date().toISOString() }
+}
+
+export async function loadConversation(pdfId: string): Promise<Conversation> {
+  const r = await readJSON(getStorage(), conversationPath(pdfId))
+  if (!r.ok) {
+    if (r.status !== 404) console.warn(`[chat-memory] load ${pdfId} failed: ${r.error}`)
+    return emptyConversation(pdfId)
+  }
+  return { ...emptyConversation(pdfId), ...r.data, turns: sanitizeTurns(r.data?.turns) }
+}
+
+export async function saveConversation(conv: Conversation): Promise<void> {
+  await writeJSON(getStorage(), conversationPath(conv.pdfId), { ...conv, updatedAt: new Date().toISOString() })
+}
+
+export async function deleteConversation(pdfId: string): Promise<void> {
+  await getStorage().delete(conversationPath(pdfId))
+}
+
+function tokensOf(turns: ChatTurn[]) {
+  return turns.reduce((n, t) => n + estimateTokens(t.content), 0)
+}
+
+// Smallest index such that turns[idx..] fits the budget (always keeps the last turn)
+function cutToFit(turns: ChatTurn[], from: number, budget: number) {
+  let used = 0
+  let idx = turns.length
+  while (idx > from) {
+    const t = estimateTokens(turns[idx - 1].content)
+    if (used + t > budget && idx < turns.length) break
+    used += t
+    idx--
+  }
+  return idx
+}
+
+/**
+ * Fits `turns` into the history budget. Turns that no longer fit are folded
+ * into a running summary via `summarize`; the recent window is cut to half the
+ * budget when that happens so we don't re-summarise on every message.
+ *
+ * Returns the turns to send verbatim, the summary to prepend (if any), and the
+ * conversation state to persist.
+ */
+export async function fitHistory(
+  conv: Conversation,
+  turns: ChatTurn[],
+  summarize: (previousSummary: string | null, turns: ChatTurn[]) => Promise<string>
+): Promise<{ recent: ChatTurn[]; summary: string | null; conv: Conversation }> {
+  const budget = HISTORY_TOKENS()
+  const summaryValid =
+    conv.summary != null &&
+    conv.summarizedCount > 0 &&
+    conv.summarizedCount < turns.length &&
+    conv.summaryDigest === digest(turns.slice(0, conv.summarizedCount))
+
+  const start = summaryValid ? conv.summarizedCount : 0
+  const prevSummary = summaryValid ? conv.summary : null
+  const base: Conversation = {
+    ...conv,
+    turns,
+    summary: prevSummary,
+    summarizedCount: start,
+    summaryDigest: summaryValid ? conv.summaryDigest : null,
+  }
+
+  if (tokensOf(turns.slice(start)) <= budget) {
+    return { recent: turns.slice(start), summary: prevSummary, conv: base }
+  }
+
+  const cut = cutToFit(turns, start, Math.floor(budget / 2))
+  // Only the newest turn is left past the summary (and it alone is over budget): nothing to fold in
+  if (cut <= start) {
+    return { recent: turns.slice(start), summary: prevSummary, conv: base }
+  }
+  try {
+    const summary = await summarize(prevSummary, turns.slice(start, cut))
+    return {
+      recent: turns.slice(cut),
+      summary,
+      conv: { ...base, summary, summarizedCount: cut, summaryDigest: digest(turns.slice(0, cut)) },
+    }
+  } catch (err) {
+    // Summariser unavailable: fall back to plain truncation
+    console.warn("[chat-memory] summarise failed, truncating history:", err)
+    const keep = cutToFit(turns, start, budget)
+    return { recent: turns.slice(keep), summary: prevSummary, conv: base }
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Page citations in assistant answers, written as "[p. 42]", "[pp. 41-42]" or
+ * "[p. 4, 7]". Shared by the chat route (building the `citations` payload) and
+ * the chat panel (rendering clickable chips).
+ */
+export type Citation = { page: number; snippet: string; score: number }
+
+export const CITATION_RE = /\[pp?\.\s*(\d+(?:\s*[-–,]\s*\d+)*)\]/g
+
+export function parseCitedPages(ref: string): number[] {
+  const pages: number[] = []
+  for (const part of ref.split(",")) {
+    const [a, b] = part.split(/[-–]/).map((x) => Number(x.trim()))
+    if (!Number.isFinite(a)) continue
+    if (Number.isFinite(b) && b >= a && b - a <= 20) {
+      for (let p = a; p <= b; p++) pages.push(p)
+    } else {
+      pages.push(a)
+    }
+  }
+  return pages
+}
+
+export function citedPages(text: string): number[] {
+  const seen = new Set<number>()
+  for (const m of Array.from(text.matchAll(CITATION_RE))) {
+    for (const p of parseCitedPages(m[1])) seen.add(p)
+  }
+  return Array.from(seen)
+}
+
+/**
+ * Resolves the pages an answer cites against the passages it was given.
+ * Pages the model cited but never saw are dropped.
+ */
+export function buildCitations(
+  answer: string,
+  passages: Array<{ page: number | null; text: string; score: number }>
+): Citation[] {
+  const out: Citation[] = []
+  for (const page of citedPages(answer)) {
+    const best = passages
+      .filter((p) => p.page === page)
+      .sort((a, b) => b.score - a.score)[0]
+    if (!best) continue
+    const snippet = best.text.replace(/\s+/g, " ").trim()
+    out.push({
+      page,
+      snippet: snippet.length > 240 ? `${snippet.slice(0, 237)}...` : snippet,
+      score: Number(best.score.toFixed(4)),
+    })
+  }
+  return out
+}
@@ -0,0 +1,201 @@
+import { SCOPE3_KEYS } from "@/lib/scope3"
+import { SCOPE1_KEYS, SCOPE2_KEYS, pick, pickNumber, toNumber } from "@/lib/summary"
+
+/**
+ * Year-over-year diff of two analyses of the same company (e.g. FY2023 vs
+ * FY2024). Works on the raw artifacts from lib/artifacts: the summary row,
+ * the benchmark `company` block and the flat gap rows.
+ */
+
+export type AnalysisSide = { pdfId: string; company: string | null; year: string | null }
+
+export type MetricDelta = {
+  label: string
+  before: number | null
+  after: number | null
+  unit: string | null
+  delta: number | null
+  pct: number | null // relative change, e.g. -0.12 for a 12% drop
+}
+
+export type ListDelta = { label: string; added: string[]; removed: string[]; kept: string[] }
+
+export type FieldChange = { label: string; before: string | null; after: string | null; changed: boolean }
+
+export type GapMove = { code: string; question: string; before: number | null; after: number | null }
+
+export type GapDiff = {
+  resolved: GapMove[] // severity 3 → 0
+  improved: GapMove[] // any other decrease
+  regressed: GapMove[] // any increase
+  added: GapMove[] // only in the later report
+  removed: GapMove[] // only in the earlier report
+  unchanged: number
+}
+
+export type Comparison = {
+  before: AnalysisSide
+  after: AnalysisSide
+  metrics: MetricDelta[]
+  lists: ListDelta[]
+  sbti: FieldChange[]
+  gap: GapDiff
+}
+
+function toList(v: unknown): string[] {
+  const raw = Array.isArray(v) ? v : typeof v === "string" ? v.split(/[,;]/) : []
+  return raw.map((x) => String(x ?? "").trim()).filter(Boolean)
+}
+
+const METRICS: Array<{ label: string; keys: string[]; unitKeys: string[] }> = [
+  { label: "Scope 1", keys: SCOPE1_KEYS, unitKeys: ["Scope1_unit", "scope_1_unit", "Scope 1 unit"] },
+  { label: "Scope 2", keys: SCOPE2_KEYS, unitKeys: ["Scope2_unit", "scope_2_unit", "Scope 2 unit"] },
+  { label: "Scope 3", keys: SCOPE3_KEYS, unitKeys: ["Scope3_unit", "scope_3_unit", "Scope 3 unit"] },
+  { label: "Electricity", keys: ["Electricity"], unitKeys: ["Electricity_unit"] },
+  { label: "Water", keys: ["Water"], unitKeys: ["Water_unit"] },
+]
+
+const LISTS: Array<{ label: string; keys: string[] }> = [
+  { label: "Frameworks", keys: ["framework"] },
+  { label: "Future frameworks", keys: ["future_framework", "futureFramework"] },
+  { label: "Material topics", keys: ["materiality_topics"] },
+  { label: "UN SDGs", keys: ["un_sdg"] },
+]
+
+export function diffMetrics(before: any, after: any): MetricDelta[] {
+  return METRICS.map(({ label, keys, unitKeys }) => {
+    const b = pickNumber(before, keys)
+    const a = pickNumber(after, keys)
+    const delta = a != null && b != null ? a - b : null
+    return {
+      label,
+      before: b,
+      after: a,
+      unit: pick(after, unitKeys, null) || pick(before, unitKeys, null) || null,
+      delta,
+      pct: delta != null && b ? delta / Math.abs(b) : null,
+    }
+  })
+}
+
+/** Set difference by case-insensitive label; keeps the later report's spelling. */
+export function diffLists(before: any, after: any): ListDelta[] {
+  return LISTS.map(({ label, keys }) => {
+    const b = toList(pick(before, keys))
+    const a = toList(pick(after, keys))
+    const bKeys = new Set(b.map((x) => x.toLowerCase()))
+    const aKeys = new Set(a.map((x) => x.toLowerCase()))
+    return {
+      label,
+      added: a.filter((x) => !bKeys.has(x.toLowerCase())),
+      removed: b.filter((x) => !aKeys.has(x.toLowerCase())),
+      kept: a.filter((x) => bKeys.has(x.toLowerCase())),
+    }
+  })
+}
+
+const SBTI_FIELDS: Array<{ label: string; key: string; pct?: boolean }> = [
+  { label: "Base year", key: "sbti_start_year" },
+  { label: "Target year", key: "sbti_target_year" },
+  { label: "Scope 1+2 reduction", key: "sbti_scope_1_2_reduction_pct", pct: true },
+  { label: "Scope 1+2 baseline", key: "sbti_scope_1_2" },
+  { label: "Scope 1+2 target", key: "sbti_scope_1_2_target" },
+  { label: "Scope 1 target", key: "sbti_scope_1_target" },
+  { label: "Scope 2 target", key: "sbti_scope_2_target" },
+  { label: "Scope 3 reduction", key: "sbti_scope_3_reduction_pct", pct: true },
+  { label: "Scope 3 target", key: "sbti_scope_3_target" },
+]
+
+function fmtSbti(v: unknown, pct?: boolean): string | null {
+  if (v === null || v === undefined || v === "") return null
+  if (!pct) return String(v)
+  const n = toNumber(String(v).replace("%", ""))
+  if (n == null) return String(v)
+  return `${((n > 1 ? n / 100 : n) * 100).toFixed(1)}%`
+}
+
+export function diffSbti(beforeCompany: any, afterCompany: any): FieldChange[] {
+  return SBTI_FIELDS.map(({ label, key, pct }) => {
+    const b = fmtSbti(beforeCompany?.[key], pct)
+    const a = fmtSbti(afterCompany?.[key], pct)
+    return { label, before: b, after: a, changed: a !== b }
+  })
+}
+
+function severityOf(row: any): number | null {
+  const n = toNumber(row?.severity)
+  return n != null && n >= 0 && n <= 3 ? n : null
+}
+
+type GapEntry = { question: string; severity: number | null }
+
+// Several source rows can map to one framework question; the best (lowest) severity wins
+function byCode(rows: any[]): Map<string, GapEntry> {
+  const out = new Map<string, GapEntry>()
+  for (const r of rows) {
+    const code = String(r?.framework_question_code || "").trim()
+    if (!code) continue
+    const severity = severityOf(r)
+    const prev = out.get(code)
+    if (!prev || (severity != null && (prev.severity == null || severity < prev.severity))) {
+      out.set(code, { question: String(r?.framework_question_name || ""), severity })
+    }
+  }
+  return out
+}
+
+/** Gap-row diff keyed by `framework_question_code`. */
+export function diffGap(beforeRows: any, afterRows: any): GapDiff {
+  const b = byCode(Array.isArray(beforeRows) ? beforeRows : [])
+  const a = byCode(Array.isArray(afterRows) ? afterRows : [])
+  const diff: GapDiff = { resolved: [], improved: [], regressed: [], added: [], removed: [], unchanged: 0 }
+
+  for (const [code, after] of a) {
+    const before = b.get(code)
+    const move: GapMove = {
+      code,
+      question: after.question || before?.question || "",
+      before: before?.severity ?? null,
+      after: after.severity,
+    }
+    if (!before) diff.added.push(move)
+    else if (move.before == null || move.after == null || move.before === move.after) diff.unchanged++
+    else if (move.before === 3 && move.after === 0) diff.resolved.push(move)
+    else if (move.after < move.before) diff.improved.push(move)
+    else diff.regressed.push(move)
+  }
+  for (const [code, before] of b) {
+    if (!a.has(code)) diff.removed.push({ code, question: before.question, before: before.severity, after: null })
+  }
+
+  const byCodeAsc = (x: GapMove, y: GapMove) => x.code.localeCompare(y.code, undefined, { numeric: true })
+  for (const list of [diff.resolved, diff.improved, diff.regressed, diff.added, diff.removed]) list.sort(byCodeAsc)
+  return diff
+}
+
+type Artifacts = { pdfId: string; summary: any; benchmark: any; gap: any }
+
+function sideOf(x: Artifacts): AnalysisSide {
+  const company = pick(x.summary, ["company_name", "Company", "company"]) || x.benchmark?.company?.company_name || null
+  const year = pick(x.summary, ["year", "Year"], "")
+  return { pdfId: x.pdfId, company, year: year !== "" ? String(year) : null }
+}
+
+/**
+ * Compares two analyses. When both reports carry a year the earlier one is
+ * treated as "before" regardless of argument order.
+ */
+export function compareAnalyses(first: Artifacts, second: Artifacts): Comparison {
+  const y1 = pickNumber(first.summary, ["year", "Year"])
+  const y2 = pickNumber(second.summary, ["year", "Year"])
+  const [before, after] = y1 != null && y2 != null && y1 > y2 ? [second, first] : [first, second]
+
+  return {
+    before: sideOf(before),
+    after: sideOf(after),
+    metrics: diffMetrics(before.summary, after.summary),
+    lists: diffLists(before.summary, after.summary),
+    sbti: diffSbti(before.benchmark?.company, after.benchmark?.company),
+    gap: diffGap(before.gap, after.gap),
+  }
+}
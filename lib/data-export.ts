@@ -0,0 +1,158 @@
+import ExcelJS from "exceljs"
+import type { ArtifactBundle } from "@/lib/artifacts"
+import { asFrac } from "@/lib/benchmark"
+import { DEFAULT_LENS, getFramework, lensCategoryOf, lensName, type Lens } from "@/lib/frameworks"
+import { DISCLOSURE_COLUMNS, GRI_NAMES, griCategory } from "@/lib/gap"
+
+/**
+ * Tabular export of one analysis for spreadsheet work: one sheet per dataset
+ * (summary, company benchmark, country and region peers, gap rows) plus a
+ * metadata sheet. The same sheets back both the XLSX workbook and the
+ * per-dataset CSV downloads.
+ */
+
+type Cell = string | number | null
+
+export type DataSheet = { id: SheetId; name: string; columns: string[]; rows: Cell[][] }
+
+export const SHEET_IDS = ["summary", "company", "peers_country", "peers_region", "gap", "metadata"] as const
+export type SheetId = (typeof SHEET_IDS)[number]
+
+export function isSheetId(v: unknown): v is SheetId {
+  return typeof v === "string" && (SHEET_IDS as readonly string[]).includes(v)
+}
+
+export type ExportInput = {
+  pdfId: string
+  fileName: string | null
+  batchPath: string | null
+  artifacts: ArtifactBundle
+  lens?: Lens | null
+  exportedAt?: Date
+}
+
+// Arrays join with "; ", nested objects stay readable as JSON
+function cell(v: unknown): Cell {
+  if (v === null || v === undefined) return null
+  if (typeof v === "number") return Number.isFinite(v) ? v : null
+  if (Array.isArray(v)) return v.map((x) => (typeof x === "object" && x !== null ? JSON.stringify(x) : String(x))).join("; ")
+  if (typeof v === "object") return JSON.stringify(v)
+  return String(v)
+}
+
+function fieldSheet(id: SheetId, name: string, obj: any): DataSheet {
+  const rows = obj && typeof obj === "object" ? Object.entries(obj).map(([k, v]) => [k, cell(v)]) : []
+  return { id, name, columns: ["Field", "Value"], rows }
+}
+
+const PEER_KEYS = [
+  "company_name",
+  "sector",
+  "main_country",
+  "main_region",
+  "sbti_start_year",
+  "sbti_target_year",
+  "sbti_scope_1_2_reduction_pct",
+]
+
+/** Raw peer fields (known ones first), plus the reduction normalised to percent. */
+function peerSheet(id: SheetId, name: string, raw: any): DataSheet {
+  const peers: any[] = Array.isArray(raw) ? raw : []
+  const extra = Array.from(new Set(peers.flatMap((p) => Object.keys(p || {})))).filter((k) => !PEER_KEYS.includes(k))
+  const keys = [...PEER_KEYS, ...extra]
+  return {
+    id,
+    name,
+    columns: [...keys, "reduction_pct_normalised"],
+    rows: peers.map((p) => {
+      const frac = asFrac(p?.sbti_scope_1_2_reduction_pct)
+      return [...keys.map((k) => cell(p?.[k])), frac == null ? null : Number((frac * 100).toFixed(2))]
+    }),
+  }
+}
+
+function gapSheet(raw: any, lens: Lens): DataSheet {
+  const rows: any[] = Array.isArray(raw) ? raw : []
+  const framework = getFramework(lens.framework)
+  return {
+    id: "gap",
+    name: "Gap mapping",
+    columns: [
+      ...DISCLOSURE_COLUMNS.map((c) => c.header),
+      "Severity Code",
+      "Reported Value (raw)",
+      "GRI Category",
+      "GRI Category Name",
+      `${framework.short} Category`,
+      `${framework.short} Category Name`,
+    ],
+    rows: rows.map((r) => {
+      const category = griCategory(r?.framework_question_code || "")
+      const severity = Number(r?.severity)
+      const lensCategory = lensCategoryOf(r, lens)
+      return [
+        ...DISCLOSURE_COLUMNS.map((c) => c.value(r)),
+        r?.severity == null || !Number.isFinite(severity) ? null : severity,
+        cell(r?.value),
+        category,
+        GRI_NAMES[category.replace(/^GRI /, "")] ?? null,
+        lensCategory,
+        framework.categories.find((c) => c.code === lensCategory)?.title ?? null,
+      ]
+    }),
+  }
+}
+
+export function buildExportSheets(input: ExportInput): DataSheet[] {
+  const { artifacts } = input
+  const lens = input.lens ?? DEFAULT_LENS
+  const meta: Array<[string, Cell]> = [
+    ["pdfId", input.pdfId],
+    ["File name", input.fileName],
+    ["Batch path", input.batchPath],
+    ["Summary source", artifacts.sources.summary],
+    ["Benchmark source", artifacts.sources.benchmark],
+    ["Gap source", artifacts.sources.gap],
+    ["Framework lens", lensName(lens)],
+    ["Exported at", (input.exportedAt ?? new Date()).toISOString()],
+  ]
+  return [
+    fieldSheet("summary", "Summary", artifacts.summary),
+    fieldSheet("company", "Company benchmark", artifacts.benchmark?.company),
+    peerSheet("peers_country", "Peers (country)", artifacts.benchmark?.peers_country),
+    peerSheet("peers_region", "Peers (region)", artifacts.benchmark?.peers_region),
+    gapSheet(artifacts.gap, lens),
+    { id: "metadata", name: "Metadata", columns: ["Field", "Value"], rows: meta },
+  ]
+}
+
+// RFC 4180 quoting; leading =+-@ is prefixed so spreadsheets don't run it as a formula
+function csvField(v: Cell): string {
+  if (v === null) return ""
+  let s = String(v)
+  if (typeof v === "string" && /^[=+\-@]/.test(s)) s = `'${s}`
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export function toCsv(sheet: DataSheet): string {
+  const lines = [sheet.columns, ...sheet.rows].map((r) => r.map(csvField).join(","))
+  // BOM so Excel opens UTF-8 correctly
+  return "\uFEFF" + lines.join("\r\n") + "\r\n"
+}
+
+export async function toXlsx(sheets: DataSheet[]) {
+  const wb = new ExcelJS.Workbook()
+  wb.creator = "ESGsmart"
+  wb.created = new Date()
+  for (const s of sheets) {
+    const ws = wb.addWorksheet(s.name, { views: [{ state: "frozen", ySplit: 1 }] })
+    ws.addRow(s.columns).font = { bold: true }
+    for (const r of s.rows) ws.addRow(r)
+    ws.columns.forEach((col, i) => {
+      const longest = Math.max(s.columns[i].length, ...s.rows.slice(0, 200).map((r) => String(r[i] ?? "").length))
+      col.width = Math.min(60, Math.max(10, longest + 2))
+    })
+    if (s.columns.length) ws.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: s.columns.length } }
+  }
+  return new Uint8Array((await wb.xlsx.writeBuffer()) as ArrayBuffer)
+}
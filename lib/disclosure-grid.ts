@@ -0,0 +1,165 @@
+import { DISCLOSURE_COLUMNS, type DisclosureColumnKey } from "@/lib/gap"
+import { getFramework, lensCategoryLabel, lensCategoryOf, lensCategoryRank, type Lens } from "@/lib/frameworks"
+
+/**
+ * View state for the Full Disclosure Mapping grid: search, multi-select
+ * filters, sort, grouping and hidden columns. Round-trips through the URL
+ * query (`gap_*` params) so a filtered view can be shared or reloaded.
+ * Categories follow the analysis' framework lens (lib/frameworks).
+ */
+
+export type SortDir = "asc" | "desc"
+
+export type GridState = {
+  q: string
+  severity: string[] // "0".."3"
+  mainStatus: string[]
+  sectorStatus: string[]
+  category: string[] // lens category codes: "GRI 305", "E1", ...
+  sort: { key: DisclosureColumnKey; dir: SortDir } | null
+  group: boolean
+  hidden: DisclosureColumnKey[]
+}
+
+export type FacetKey = "severity" | "mainStatus" | "sectorStatus" | "category"
+
+export const EMPTY_GRID_STATE: GridState = {
+  q: "",
+  severity: [],
+  mainStatus: [],
+  sectorStatus: [],
+  category: [],
+  sort: null,
+  group: false,
+  hidden: [],
+}
+
+const PARAM: Record<Exclude<keyof GridState, "sort" | "group" | "hidden" | "q">, string> = {
+  severity: "gap_severity",
+  mainStatus: "gap_status",
+  sectorStatus: "gap_sector_status",
+  category: "gap_category",
+}
+
+const COLUMN_KEYS = DISCLOSURE_COLUMNS.map((c) => c.key)
+const isColumnKey = (v: string): v is DisclosureColumnKey => (COLUMN_KEYS as string[]).includes(v)
+
+// Lists are "|"-separated: category names and statuses may contain commas
+const splitList = (v: string | null) => (v ? v.split("|").map((x) => x.trim()).filter(Boolean) : [])
+
+export function parseGridState(params: URLSearchParams): GridState {
+  const [sortKey, sortDir] = (params.get("gap_sort") || "").split(":")
+  return {
+    q: params.get("gap_q") || "",
+    severity: splitList(params.get(PARAM.severity)).filter((s) => /^[0-3]$/.test(s)),
+    mainStatus: splitList(params.get(PARAM.mainStatus)),
+    sectorStatus: splitList(params.get(PARAM.sectorStatus)),
+    category: splitList(params.get(PARAM.category)),
+    sort: isColumnKey(sortKey) ? { key: sortKey, dir: sortDir === "desc" ? "desc" : "asc" } : null,
+    group: params.get("gap_group") === "1",
+    hidden: splitList(params.get("gap_hide")).filter(isColumnKey),
+  }
+}
+
+/** Writes the grid state into `params`, dropping defaults; other params are left alone. */
+export function writeGridState(params: URLSearchParams, state: GridState): URLSearchParams {
+  const out = new URLSearchParams(params)
+  const set = (k: string, v: string) => (v ? out.set(k, v) : out.delete(k))
+  set("gap_q", state.q.trim())
+  for (const key of Object.keys(PARAM) as Array<keyof typeof PARAM>) set(PARAM[key], state[key].join("|"))
+  set("gap_sort", state.sort ? `${state.sort.key}:${state.sort.dir}` : "")
+  set("gap_group", state.group ? "1" : "")
+  set("gap_hide", state.hidden.join("|"))
+  return out
+}
+
+// Facet value for rows the lens doesn't cover
+const OUTSIDE = "—"
+
+export function categoryLabel(category: string, lens: Lens): string {
+  return category === OUTSIDE ? `Not covered by ${getFramework(lens.framework).short}` : lensCategoryLabel(category, lens)
+}
+
+function facetValue(row: any, key: FacetKey, lens: Lens): string {
+  switch (key) {
+    case "severity":
+      return String(row?.severity ?? "")
+    case "mainStatus":
+      return row?.framework_status || "—"
+    case "sectorStatus":
+      return row?.sector_status || "—"
+    case "category":
+      return lensCategoryOf(row, lens) ?? OUTSIDE
+  }
+}
+
+/** Distinct values and their counts for one filter, over all rows. */
+export function facetOptions(rows: any[], key: FacetKey, lens: Lens): Array<{ value: string; count: number }> {
+  const counts = new Map<string, number>()
+  for (const r of rows) {
+    const v = facetValue(r, key, lens)
+    if (v) counts.set(v, (counts.get(v) || 0) + 1)
+  }
+  const rank = (v: string) => (key === "category" ? lensCategoryRank(v === OUTSIDE ? null : v, lens) : 0)
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => rank(a.value) - rank(b.value) || a.value.localeCompare(b.value, undefined, { numeric: true })
+  )
+}
+
+const SEARCH_FIELDS = [
+  "framework_question_code",
+  "framework_question_name",
+  "sector_question_code",
+  "sector_question_name",
+  "source_question_code",
+]
+
+function matches(row: any, state: GridState, terms: string[], lens: Lens): boolean {
+  for (const key of ["severity", "mainStatus", "sectorStatus", "category"] as FacetKey[]) {
+    if (state[key].length && !state[key].includes(facetValue(row, key, lens))) return false
+  }
+  if (!terms.length) return true
+  const hay = SEARCH_FIELDS.map((f) => String(row?.[f] ?? "")).join(" ").toLowerCase()
+  return terms.every((t) => hay.includes(t))
+}
+
+function sortValue(row: any, key: DisclosureColumnKey): string | number {
+  if (key === "severity") {
+    const n = Number(row?.severity)
+    return Number.isFinite(n) ? n : 99
+  }
+  return DISCLOSURE_COLUMNS.find((c) => c.key === key)!.value(row)
+}
+
+/** Rows passing the search and filters, sorted if a sort is set (stable otherwise). */
+export function applyGridState(rows: any[], state: GridState, lens: Lens): any[] {
+  const terms = state.q.toLowerCase().split(/\s+/).filter(Boolean)
+  const out = rows.filter((r) => matches(r, state, terms, lens))
+  if (!state.sort) return out
+  const { key, dir } = state.sort
+  const sign = dir === "asc" ? 1 : -1
+  return out
+    .map((row, i) => ({ row, i, v: sortValue(row, key) }))
+    .sort((a, b) => {
+      const c =
+        typeof a.v === "number" && typeof b.v === "number"
+          ? a.v - b.v
+          : String(a.v).localeCompare(String(b.v), undefined, { numeric: true, sensitivity: "base" })
+      return c ? c * sign : a.i - b.i
+    })
+    .map((x) => x.row)
+}
+
+/** Groups already-filtered rows by lens category, in the framework's order; uncovered rows last. */
+export function groupByCategory(rows: any[], lens: Lens): Array<{ category: string; rows: any[] }> {
+  const groups = new Map<string, any[]>()
+  for (const r of rows) {
+    const category = lensCategoryOf(r, lens) ?? OUTSIDE
+    if (!groups.has(category)) groups.set(category, [])
+    groups.get(category)!.push(r)
+  }
+  const rank = (c: string) => lensCategoryRank(c === OUTSIDE ? null : c, lens)
+  return Array.from(groups, ([category, rows]) => ({ category, rows })).sort(
+    (a, b) => rank(a.category) - rank(b.category) || a.category.localeCompare(b.category, undefined, { numeric: true })
+  )
+}
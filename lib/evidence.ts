@@ -0,0 +1,67 @@
+import { retrievePassages, tokenize } from "@/lib/retrieval"
+
+/** The report passage that best supports a gap row's framework/sector status. */
+export type Evidence = {
+  page: number
+  text: string
+  section: string | null
+  score: number
+  /** Share of the row's distinctive query terms that appear in the passage */
+  coverage: number
+}
+
+const MIN_COVERAGE = 0.3
+const EMPTY_VALUES = /^(none|null|n\/a|na|not disclosed|not available|missing|-|—)?$/i
+
+function splitIdentifier(s: unknown): string {
+  return String(s ?? "").replace(/_/g, " ").replace(/([a-z])([A-Z])/g, "$1 $2")
+}
+
+/**
+ * Builds the retrieval query for a gap row from what the extraction reported
+ * (source code + value) and what the framework asks for. Returns null when the
+ * row carries nothing searchable.
+ */
+export function evidenceQuery(row: any): string | null {
+  const value = String(row?.value ?? "").trim()
+  const parts = [
+    splitIdentifier(row?.source_question_code),
+    EMPTY_VALUES.test(value) ? "" : value,
+    row?.framework_question_name,
+    row?.sector_question_name,
+  ]
+  const q = parts.filter((p) => typeof p === "string" && p.trim()).join(" ").slice(0, 1000)
+  return tokenize(q).length ? q : null
+}
+
+function coverage(query: string, text: string): number {
+  const q = new Set(tokenize(query))
+  if (!q.size) return 0
+  const t = new Set(tokenize(text))
+  let hit = 0
+  for (const term of Array.from(q)) if (t.has(term)) hit++
+  return hit / q.size
+}
+
+/**
+ * Finds the passage justifying a gap row, or null ("no evidence found") when
+ * nothing in the report covers enough of the row's terms.
+ */
+export async function findEvidence(pages: string[], row: any): Promise<Evidence | null> {
+  const query = evidenceQuery(row)
+  if (!query || !pages.length) return null
+  const hits = await retrievePassages({ pages }, query, 5)
+  const ranked = hits
+    .filter((h) => h.page != null)
+    .map((h) => ({ ...h, coverage: coverage(query, `${h.section ?? ""} ${h.text}`) }))
+    .filter((h) => h.coverage >= MIN_COVERAGE)
+  const best = ranked[0]
+  if (!best) return null
+  return {
+    page: best.page as number,
+    text: best.text,
+    section: best.section,
+    score: Number(best.score.toFixed(4)),
+    coverage: Number(best.coverage.toFixed(2)),
+  }
+}
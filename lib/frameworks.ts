@@ -0,0 +1,324 @@
+import { GRI_NAMES, griCategory, type Severity } from "@/lib/gap"
+
+/**
+ * Registry of disclosure framework lenses for the gap view. The pipeline maps
+ * every report to GRI disclosure codes (`framework_question_code`) and scores
+ * severity 0–3 against GRI plus a sector overlay (`sector_question_code`,
+ * IFRS RE by default). A lens re-groups those rows under another framework's
+ * structure through a crosswalk from GRI codes; rows the framework doesn't
+ * cover fall outside the lens.
+ */
+
+export type FrameworkId = "gri" | "issb" | "tcfd" | "sasb" | "esrs"
+export type OverlayId = "ifrs-re" | "sasb-fn-cb" | "sasb-rt-ig" | "none"
+
+export type Lens = { framework: FrameworkId; overlay: OverlayId }
+
+export type LensCategory = { code: string; title: string }
+
+export type Framework = {
+  id: FrameworkId
+  name: string
+  short: string
+  categories: LensCategory[] // display order
+  // Category for a GRI disclosure code ("GRI 305-1", "2-9"); null when the framework doesn't cover it
+  categoryOf: (griCode: string) => string | null
+  // Meaning of severity 0–3 under this framework and overlay
+  severityLabels: (overlay: SectorOverlay) => Record<Severity, string>
+}
+
+export type SectorOverlay = {
+  id: OverlayId
+  name: string
+  short: string | null // null for "none"
+  industry: string | null
+  codePrefix: string | null // prefix of `sector_question_code` in artifacts scored against this overlay
+}
+
+export const DEFAULT_LENS: Lens = { framework: "gri", overlay: "ifrs-re" }
+
+/** "GRI 305-1" → { standard: "305", disclosure: "305-1" }; bare "2-9" works too. */
+function parseGriCode(code: string): { standard: string; disclosure: string | null } | null {
+  const m = String(code || "").match(/(?:GRI[- ]?)?(\d+)(?:[-:](\d+))?/i)
+  if (!m) return null
+  return { standard: m[1], disclosure: m[2] ? `${m[1]}-${m[2]}` : null }
+}
+
+// Disclosure-level entries win over standard-level ones
+function crosswalk(table: Record<string, string>) {
+  return (griCode: string): string | null => {
+    const parts = parseGriCode(griCode)
+    if (!parts) return null
+    return (parts.disclosure && table[parts.disclosure]) || table[parts.standard] || null
+  }
+}
+
+function defaultSeverityLabels(primary: string) {
+  return (overlay: SectorOverlay): Record<Severity, string> =>
+    overlay.short
+      ? {
+          0: `${primary} & ${overlay.short} Present`,
+          1: `Partial (no ${overlay.short})`,
+          2: `Partial ${primary} & ${overlay.short}`,
+          3: `Missing ${primary} & ${overlay.short}`,
+        }
+      : // Without an overlay the sector dimension of the score is ignored
+        { 0: `${primary} Present`, 1: `${primary} Present (sector not assessed)`, 2: `Partial ${primary}`, 3: `Missing ${primary}` }
+}
+
+const GRI: Framework = {
+  id: "gri",
+  name: "GRI Standards",
+  short: "GRI",
+  categories: [...Object.keys(GRI_NAMES), "Other"]
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map((n) => (n === "Other" ? { code: "Other", title: "Other" } : { code: `GRI ${n}`, title: GRI_NAMES[n] })),
+  categoryOf: griCategory,
+  severityLabels: defaultSeverityLabels("GRI"),
+}
+
+const ISSB: Framework = {
+  id: "issb",
+  name: "ISSB (IFRS S1/S2)",
+  short: "ISSB",
+  categories: [
+    { code: "S1-GOV", title: "S1 Governance" },
+    { code: "S1-STR", title: "S1 Strategy & risk management" },
+    { code: "S1-MT", title: "S1 Metrics & targets" },
+    { code: "S2-STR", title: "S2 Climate strategy & resilience" },
+    { code: "S2-MT", title: "S2 Climate metrics & targets" },
+  ],
+  categoryOf: crosswalk({
+    "2": "S1-GOV",
+    "2-1": "S1-STR",
+    "2-6": "S1-STR",
+    "3": "S1-STR",
+    "201": "S1-MT",
+    "201-2": "S2-STR",
+    "302": "S2-MT",
+    "305": "S2-MT",
+    "303": "S1-MT",
+    "306": "S1-MT",
+  }),
+  severityLabels: defaultSeverityLabels("ISSB"),
+}
+
+const TCFD: Framework = {
+  id: "tcfd",
+  name: "TCFD recommendations",
+  short: "TCFD",
+  categories: [
+    { code: "GOV", title: "Governance" },
+    { code: "STR", title: "Strategy" },
+    { code: "RM", title: "Risk management" },
+    { code: "MT", title: "Metrics & targets" },
+  ],
+  categoryOf: crosswalk({
+    "2-9": "GOV",
+    "2-12": "GOV",
+    "2-13": "GOV",
+    "2-14": "GOV",
+    "2-17": "GOV",
+    "2-18": "GOV",
+    "2-19": "GOV",
+    "2-22": "STR",
+    "2-23": "RM",
+    "2-24": "RM",
+    "2-25": "RM",
+    "3-3": "RM",
+    "201-2": "STR",
+    "302": "MT",
+    "305": "MT",
+  }),
+  severityLabels: defaultSeverityLabels("TCFD"),
+}
+
+const SASB: Framework = {
+  id: "sasb",
+  name: "SASB Standards (dimensions)",
+  short: "SASB",
+  categories: [
+    { code: "ENV", title: "Environment" },
+    { code: "SOC", title: "Social capital" },
+    { code: "HUM", title: "Human capital" },
+    { code: "BMI", title: "Business model & innovation" },
+    { code: "LG", title: "Leadership & governance" },
+  ],
+  categoryOf: crosswalk({
+    "2": "LG",
+    "3": "LG",
+    "201": "BMI",
+    "201-2": "BMI",
+    "203": "SOC",
+    "204": "BMI",
+    "205": "LG",
+    "206": "LG",
+    "301": "ENV",
+    "302": "ENV",
+    "303": "ENV",
+    "304": "ENV",
+    "305": "ENV",
+    "306": "ENV",
+    "308": "BMI",
+    "401": "HUM",
+    "402": "HUM",
+    "403": "HUM",
+    "404": "HUM",
+    "405": "HUM",
+    "406": "HUM",
+    "407": "HUM",
+    "408": "HUM",
+    "409": "HUM",
+    "410": "SOC",
+    "411": "SOC",
+    "413": "SOC",
+    "414": "BMI",
+    "415": "LG",
+    "416": "SOC",
+    "417": "SOC",
+    "418": "SOC",
+  }),
+  severityLabels: defaultSeverityLabels("SASB"),
+}
+
+const ESRS: Framework = {
+  id: "esrs",
+  name: "ESRS (CSRD)",
+  short: "ESRS",
+  categories: [
+    { code: "ESRS 2", title: "General disclosures" },
+    { code: "E1", title: "Climate change" },
+    { code: "E2", title: "Pollution" },
+    { code: "E3", title: "Water and marine resources" },
+    { code: "E4", title: "Biodiversity and ecosystems" },
+    { code: "E5", title: "Resource use and circular economy" },
+    { code: "S1", title: "Own workforce" },
+    { code: "S2", title: "Workers in the value chain" },
+    { code: "S3", title: "Affected communities" },
+    { code: "S4", title: "Consumers and end-users" },
+    { code: "G1", title: "Business conduct" },
+  ],
+  categoryOf: crosswalk({
+    "2": "ESRS 2",
+    "3": "ESRS 2",
+    "201": "ESRS 2",
+    "201-2": "E1",
+    "202": "S1",
+    "203": "S3",
+    "204": "G1",
+    "205": "G1",
+    "206": "G1",
+    "301": "E5",
+    "302": "E1",
+    "303": "E3",
+    "304": "E4",
+    "305": "E1",
+    "305-7": "E2",
+    "306": "E5",
+    "308": "G1",
+    "401": "S1",
+    "402": "S1",
+    "403": "S1",
+    "404": "S1",
+    "405": "S1",
+    "406": "S1",
+    "407": "S1",
+    "408": "S2",
+    "409": "S2",
+    "410": "S3",
+    "411": "S3",
+    "413": "S3",
+    "414": "S2",
+    "415": "G1",
+    "416": "S4",
+    "417": "S4",
+    "418": "S4",
+  }),
+  severityLabels: defaultSeverityLabels("ESRS"),
+}
+
+export const FRAMEWORKS: Framework[] = [GRI, ISSB, TCFD, SASB, ESRS]
+
+export const SECTOR_OVERLAYS: SectorOverlay[] = [
+  { id: "ifrs-re", name: "IFRS RE (Real Estate, IF-RE)", short: "IFRS RE", industry: "Real Estate", codePrefix: "IF-RE" },
+  { id: "sasb-fn-cb", name: "SASB Commercial Banks (FN-CB)", short: "SASB FN-CB", industry: "Commercial Banks", codePrefix: "FN-CB" },
+  { id: "sasb-rt-ig", name: "SASB Industrial Machinery & Goods (RT-IG)", short: "SASB RT-IG", industry: "Industrial Machinery & Goods", codePrefix: "RT-IG" },
+  { id: "none", name: "No sector overlay", short: null, industry: null, codePrefix: null },
+]
+
+export function getFramework(id: FrameworkId): Framework {
+  return FRAMEWORKS.find((f) => f.id === id) ?? GRI
+}
+
+export function getOverlay(id: OverlayId): SectorOverlay {
+  return SECTOR_OVERLAYS.find((o) => o.id === id) ?? SECTOR_OVERLAYS[0]
+}
+
+export function isLens(v: any): v is Lens {
+  return FRAMEWORKS.some((f) => f.id === v?.framework) && SECTOR_OVERLAYS.some((o) => o.id === v?.overlay)
+}
+
+/** Overlay the artifact's sector columns were scored against, from the `sector_question_code` prefixes. */
+export function detectOverlay(rows: any[]): OverlayId | null {
+  for (const r of rows) {
+    const code = String(r?.sector_question_code || "").toUpperCase()
+    const hit = SECTOR_OVERLAYS.find((o) => o.codePrefix && code.startsWith(o.codePrefix))
+    if (hit) return hit.id
+  }
+  return null
+}
+
+export function lensName(lens: Lens): string {
+  const overlay = getOverlay(lens.overlay)
+  return overlay.short ? `${getFramework(lens.framework).short} + ${overlay.short}` : getFramework(lens.framework).short
+}
+
+export function severityLegend(lens: Lens): Record<Severity, string> {
+  return getFramework(lens.framework).severityLabels(getOverlay(lens.overlay))
+}
+
+/** Category code for a gap row under `lens`, or null when the row is outside it. */
+export function lensCategoryOf(row: any, lens: Lens): string | null {
+  return getFramework(lens.framework).categoryOf(String(row?.framework_question_code || ""))
+}
+
+/** "GRI 305: Emissions", "E1: Climate change", ... */
+export function lensCategoryLabel(code: string, lens: Lens): string {
+  const title = getFramework(lens.framework).categories.find((c) => c.code === code)?.title
+  return title && title !== code ? `${code}: ${title}` : code
+}
+
+export function rowsInLens(rows: any[], lens: Lens): any[] {
+  return rows.filter((r) => lensCategoryOf(r, lens) !== null)
+}
+
+/** Sort key for a category in the framework's own order; unknown and out-of-lens categories go last. */
+export function lensCategoryRank(code: string | null, lens: Lens): number {
+  const i = code === null ? -1 : getFramework(lens.framework).categories.findIndex((c) => c.code === code)
+  return i < 0 ? Number.MAX_SAFE_INTEGER : i
+}
+
+/** Severity counts per lens category, largest first. Rows without a severity count as 3. */
+export function severityByCategory(
+  rows: any[],
+  lens: Lens,
+  limit?: number
+): Array<{ category: string; label: string; counts: Record<number, number>; total: number }> {
+  const groups: Record<string, Record<number, number>> = {}
+  for (const r of rows) {
+    const category = lensCategoryOf(r, lens)
+    if (category === null) continue
+    const sev = r?.severity ?? 3
+    if (!groups[category]) groups[category] = { 0: 0, 1: 0, 2: 0, 3: 0 }
+    groups[category][sev] = (groups[category][sev] || 0) + 1
+  }
+  const sorted = Object.entries(groups)
+    .map(([category, counts]) => ({
+      category,
+      label: lensCategoryLabel(category, lens),
+      counts,
+      total: Object.values(counts).reduce((a, b) => a + b, 0),
+    }))
+    .sort((a, b) => b.total - a.total)
+  return limit ? sorted.slice(0, limit) : sorted
+}
@@ -0,0 +1,126 @@
+/**
+ * Shared helpers for the flat gap-analysis rows (`framework_question_code`,
+ * `severity` 0–3, ...), used by the Gap tab and the PDF export.
+ */
+
+export type Severity = 0 | 1 | 2 | 3
+export type SeverityCounts = { "0": number; "1": number; "2": number; "3": number }
+
+export const GRI_NAMES: Record<string, string> = {
+  "201": "Economic Performance",
+  "202": "Market Presence",
+  "203": "Indirect Economic Impacts",
+  "204": "Procurement Practices",
+  "205": "Anti-corruption",
+  "206": "Anti-competitive Behavior",
+  "2": "General Disclosures",
+  "3": "Material Topics",
+  "301": "Materials",
+  "302": "Energy",
+  "303": "Water and Effluents",
+  "304": "Biodiversity",
+  "305": "Emissions",
+  "306": "Waste",
+  "308": "Supplier Environmental Assessment",
+  "401": "Employment",
+  "402": "Labor/Management Relations",
+  "403": "Occupational Health and Safety",
+  "404": "Training and Education",
+  "405": "Diversity and Equal Opportunity",
+  "406": "Non-discrimination",
+  "407": "Freedom of Association",
+  "408": "Child Labor",
+  "409": "Forced or Compulsory Labor",
+  "410": "Security Practices",
+  "411": "Rights of Indigenous Peoples",
+  "413": "Local Communities",
+  "414": "Supplier Social Assessment",
+  "415": "Public Policy",
+  "416": "Customer Health and Safety",
+  "417": "Marketing and Labeling",
+  "418": "Customer Privacy",
+}
+
+export function countSeverities(rows: any[]): SeverityCounts {
+  const counts: SeverityCounts = { "0": 0, "1": 0, "2": 0, "3": 0 }
+  for (const r of rows) {
+    const sev = String(r?.severity ?? "")
+    if (sev in counts) counts[sev as keyof SeverityCounts]++
+  }
+  return counts
+}
+
+export function griCategory(code: string): string {
+  const match = code.match(/(?:GRI[- ])?(\d+)[-:]/) || code.match(/^(\d+)/)
+  return match ? `GRI ${match[1]}` : "Other"
+}
+
+// Clean and standardize reported values
+export function cleanReportedValue(value: string | null | undefined): string {
+  if (!value || value === "None") return "Not disclosed"
+
+  const v = String(value).toLowerCase()
+
+  // Check for availability patterns
+  if (/financ|financial|accounts|accounting/.test(v)) return "Available in financial records"
+  if (/hr|human\s*resources|personnel/.test(v)) return "Available in HR records"
+  if (/governance|board|minutes|corporate/.test(v)) return "Available in governance documentation"
+  if (/procure|supplier|vendor|purchasing/.test(v)) return "Available in procurement/supplier records"
+  if (/ops|operation|facility|bms|ems|plant/.test(v)) return "Available in operational systems"
+  if (/sustainability\s*report|esg\s*report|annual\s*report/.test(v)) return "Disclosed in sustainability report"
+  if (/available|yes|disclosed|reported/.test(v)) return "Disclosed in sustainability report"
+  if (/not\s*available|no|missing|none/.test(v)) return "Not disclosed"
+
+  // Return original if no pattern matches
+  return value
+}
+
+// Convert camelCase or snake_case to Title Case
+export function camelToTitle(str: string | null | undefined): string {
+  if (!str) return "—"
+
+  // Convert snake_case to spaces first
+  let cleaned = String(str).replace(/_/g, " ")
+
+  // Insert space before capital letters (camelCase)
+  cleaned = cleaned.replace(/([a-z])([A-Z])/g, "$1 $2")
+
+  // Capitalize first letter of each word
+  cleaned = cleaned
+    .split(" ")
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(" ")
+
+  return cleaned
+}
+
+export const SEVERITY_SHORT: Record<Severity, string> = {
+  0: "Present",
+  1: "Partial",
+  2: "Partial GRI+IFRS",
+  3: "Missing",
+}
+
+export type DisclosureColumnKey =
+  | "reportedStandard"
+  | "reportedValue"
+  | "mainCode"
+  | "mainQuestion"
+  | "mainStatus"
+  | "sectorCode"
+  | "sectorQuestion"
+  | "sectorStatus"
+  | "severity"
+
+/** Columns of the Full Disclosure Mapping, in display order. */
+export const DISCLOSURE_COLUMNS: Array<{ key: DisclosureColumnKey; header: string; value: (row: any) => string }> = [
+  { key: "reportedStandard", header: "Reported Standard", value: (r) => camelToTitle(r?.source_question_code) },
+  { key: "reportedValue", header: "Reported Value", value: (r) => cleanReportedValue(r?.value) },
+  { key: "mainCode", header: "Main Framework Code", value: (r) => r?.framework_question_code || "—" },
+  { key: "mainQuestion", header: "Main Framework Question", value: (r) => r?.framework_question_name || "—" },
+  { key: "mainStatus", header: "Main Framework Status", value: (r) => r?.framework_status || "—" },
+  { key: "sectorCode", header: "Sector Framework Code", value: (r) => r?.sector_question_code || "—" },
+  { key: "sectorQuestion", header: "Sector Framework Question", value: (r) => r?.sector_question_name || "—" },
+  { key: "sectorStatus", header: "Sector Status", value: (r) => r?.sector_status || "—" },
+  { key: "severity", header: "Severity", value: (r) => SEVERITY_SHORT[r?.severity as Severity] ?? String(r?.severity ?? "—") },
+]
@@ -0,0 +1,157 @@
+import { peerSets } from "@/lib/benchmark"
+import { describe, ordinal, percentileRank, type PeerStats } from "@/lib/benchmark-stats"
+import { EMPLOYEE_KEYS, REVENUE_KEYS, SCOPE1_KEYS, SCOPE2_KEYS, formatNumber, pick, pickNumber } from "@/lib/summary"
+
+/**
+ * Intensity KPIs: Scope 1+2 emissions, electricity and water normalised by
+ * revenue ($M), headcount and gross floor area (m²), so companies of
+ * different size can be compared. Each metric carries the formula with the
+ * figures it was computed from. Blank or non-numeric fields count as not
+ * reported, so they drop the metric instead of producing a zero. The same
+ * extraction runs over peer rows, so a peer counts towards a benchmark only
+ * when its row has both figures (in the same unit as the company's).
+ */
+
+export type NumeratorId = "ghg" | "electricity" | "water"
+export type DenominatorId = "revenue" | "employee" | "gfa"
+
+// A figure as used in a formula: value in `unit`, plus how it reads in the formula
+type Quantity = { value: number; unit: string; text: string }
+
+const SCOPE1_UNIT_KEYS = ["Scope1_unit", "scope_1_unit", "Scope 1 unit"]
+const SCOPE2_UNIT_KEYS = ["Scope2_unit", "scope_2_unit", "Scope 2 unit"]
+const GFA_KEYS = ["gross_floor_area", "total_floor_area", "floor_area", "gfa", "GFA"]
+const GFA_UNIT_KEYS = ["gross_floor_area_unit", "total_floor_area_unit", "floor_area_unit", "gfa_unit"]
+
+const SQFT_TO_M2 = 0.09290304
+
+// Emissions are normalised to tonnes; "ktCO2e" is the only other unit seen in reports
+const toTonnes = (value: number, unit: string) => (/\bkt|kilo\s*tonne/i.test(unit) ? value * 1000 : value)
+
+function emissions(row: any): Quantity | null {
+  const s1 = pickNumber(row, SCOPE1_KEYS)
+  const s2 = pickNumber(row, SCOPE2_KEYS)
+  if (s1 === null || s2 === null) return null
+  const t1 = toTonnes(s1, pick<string>(row, SCOPE1_UNIT_KEYS, ""))
+  const t2 = toTonnes(s2, pick<string>(row, SCOPE2_UNIT_KEYS, ""))
+  return { value: t1 + t2, unit: "tCO2e", text: `(Scope 1 ${t1.toLocaleString()} + Scope 2 ${t2.toLocaleString()} tCO2e)` }
+}
+
+function reported(row: any, key: string, label: string): Quantity | null {
+  const value = pickNumber(row, [key])
+  if (value === null) return null
+  const unit = String(pick(row, [`${key}_unit`], "")).trim()
+  return { value, unit, text: `${label} ${value.toLocaleString()}${unit ? ` ${unit}` : ""}` }
+}
+
+function revenue(row: any): Quantity | null {
+  const v = pickNumber(row, REVENUE_KEYS)
+  if (v === null || v <= 0) return null
+  return { value: v / 1_000_000, unit: "$M", text: `revenue $${formatNumber(v)}` }
+}
+
+function headcount(row: any): Quantity | null {
+  const v = pickNumber(row, EMPLOYEE_KEYS)
+  if (v === null || v <= 0) return null
+  return { value: v, unit: "employee", text: `${v.toLocaleString()} employees` }
+}
+
+function floorArea(row: any): Quantity | null {
+  const v = pickNumber(row, GFA_KEYS)
+  if (v === null || v <= 0) return null
+  const unit = pick<string>(row, GFA_UNIT_KEYS, "")
+  if (/ft|sq\.?\s*f/i.test(unit)) {
+    return { value: v * SQFT_TO_M2, unit: "m²", text: `GFA ${v.toLocaleString()} sq ft (${Math.round(v * SQFT_TO_M2).toLocaleString()} m²)` }
+  }
+  return { value: v, unit: "m²", text: `GFA ${v.toLocaleString()} m²` }
+}
+
+const NUMERATORS: Record<NumeratorId, { label: string; get: (row: any) => Quantity | null }> = {
+  ghg: { label: "Scope 1+2", get: emissions },
+  electricity: { label: "Electricity", get: (row) => reported(row, "Electricity", "Electricity") },
+  water: { label: "Water", get: (row) => reported(row, "Water", "Water") },
+}
+
+const DENOMINATORS: Record<DenominatorId, { label: string; get: (row: any) => Quantity | null }> = {
+  revenue: { label: "per $M revenue", get: revenue },
+  employee: { label: "per employee", get: headcount },
+  gfa: { label: "per m² GFA", get: floorArea },
+}
+
+export type IntensityMetric = {
+  id: `${NumeratorId}-${DenominatorId}`
+  label: string // "Scope 1+2 per $M revenue"
+  value: number
+  unit: string // "tCO2e/$M"
+  formula: string // "(Scope 1 … + Scope 2 … tCO2e) ÷ revenue $450.0M"
+}
+
+function metric(row: any, num: NumeratorId, den: DenominatorId): IntensityMetric | null {
+  const n = NUMERATORS[num].get(row)
+  const d = DENOMINATORS[den].get(row)
+  if (!n || !d) return null
+  return {
+    id: `${num}-${den}`,
+    label: `${NUMERATORS[num].label} ${DENOMINATORS[den].label}`,
+    value: n.value / d.value,
+    unit: `${n.unit || "units"}/${d.unit}`,
+    formula: `${n.text} ÷ ${d.text}`,
+  }
+}
+
+// Top-level fields win; json_schema fills in what they lack or leave blank
+function summaryFields(summary: any): Record<string, unknown> {
+  const row: Record<string, unknown> = { ...(summary?.json_schema || {}) }
+  for (const [k, v] of Object.entries(summary || {})) {
+    if (v !== null && v !== undefined && v !== "") row[k] = v
+  }
+  return row
+}
+
+/** Every intensity the summary artifact (as fetched) has figures for, emissions first. */
+export function intensityMetrics(summary: any): IntensityMetric[] {
+  const row = summaryFields(summary)
+  const out: IntensityMetric[] = []
+  for (const num of Object.keys(NUMERATORS) as NumeratorId[]) {
+    for (const den of Object.keys(DENOMINATORS) as DenominatorId[]) {
+      const m = metric(row, num, den)
+      if (m) out.push(m)
+    }
+  }
+  return out
+}
+
+/** Three significant figures below 100, whole numbers above. */
+export function formatIntensity(n: number): string {
+  if (!Number.isFinite(n)) return "n/a"
+  return Math.abs(n) >= 100 ? Math.round(n).toLocaleString() : Number(n.toPrecision(3)).toLocaleString()
+}
+
+// The company's intensity within one peer list; percentile is the share of peers with a lower intensity
+export type IntensityVsPeers = { label: string; stats: PeerStats; percentile: number }
+
+/** `m` against each peer set in `bench` that has comparable values; empty when none does. */
+export function intensityVsPeers(m: IntensityMetric, bench: any): IntensityVsPeers[] {
+  const [num, den] = m.id.split("-") as [NumeratorId, DenominatorId]
+  const out: IntensityVsPeers[] = []
+  for (const set of peerSets(bench)) {
+    const values = set.peers
+      .map((p) => metric(p, num, den))
+      .filter((p): p is IntensityMetric => p !== null && p.unit === m.unit)
+      .map((p) => p.value)
+    const stats = describe(values)
+    const percentile = percentileRank(m.value, values)
+    if (stats && percentile !== null) out.push({ label: set.label, stats, percentile })
+  }
+  return out
+}
+
+/** One line per metric with its formula and peer position, for the chat context and PDF export. */
+export function intensityLines(summary: any, bench: any): string[] {
+  return intensityMetrics(summary).map((m) => {
+    const peers = intensityVsPeers(m, bench)
+      .map((p) => `${p.label}: n=${p.stats.n}, median ${formatIntensity(p.stats.median)}, company at the ${ordinal(p.percentile)} percentile`)
+      .join("; ")
+    return `${m.label}: ${formatIntensity(m.value)} ${m.unit} = ${m.formula}${peers ? ` [peers, lower is better — ${peers}]` : ""}`
+  })
+}
@@ -0,0 +1,290 @@
+import { asFrac, companyVsPeers, fmtPct, peerSets } from "@/lib/benchmark"
+import { ordinal, type PeerBand } from "@/lib/benchmark-stats"
+import { countSeverities } from "@/lib/gap"
+import { getFramework, getOverlay, rowsInLens, severityByCategory, severityLegend, type Lens } from "@/lib/frameworks"
+
+/**
+ * Data-driven narratives for the gap overview and the benchmark insight.
+ * Each narrative is two steps: extract plain facts from the artifacts, then
+ * fill sentence templates with them. A sentence whose placeholders have no
+ * value is dropped rather than rendered with gaps. The facts also back the
+ * optional LLM-polished wording (POST /api/databricks/narrative), which is
+ * only accepted when `checkPolished` finds no number or claim that the facts
+ * don't support.
+ */
+
+type Value = string | number | null | undefined
+
+/** Replaces `{name}` placeholders; null when any of them has no value. */
+export function fill(template: string, values: Record<string, Value>): string | null {
+  let missing = false
+  const out = template.replace(/\{(\w+)\}/g, (_, k: string) => {
+    const v = values[k]
+    if (v === null || v === undefined || v === "") {
+      missing = true
+      return ""
+    }
+    return String(v)
+  })
+  return missing ? null : out
+}
+
+const list = (items: string[]) =>
+  items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`
+
+const pct = (n: number, total: number) => (total > 0 ? Math.round((n / total) * 100) : 0)
+
+/* -------------------- Gap overview -------------------- */
+
+export type GapFacts = {
+  framework: string
+  total: number
+  missing: number
+  missingPct: number
+  aligned: number
+  alignedPct: number
+  partial: number
+  partialPct: number
+  missingLabel: string
+  alignedLabel: string
+  // Categories with the most severity-3 rows, most first
+  topMissing: Array<{ label: string; missing: number; total: number }>
+  // Categories of a meaningful size that are mostly aligned
+  strengths: Array<{ label: string; alignedPct: number; total: number }>
+}
+
+const TOP_MISSING = 3
+const STRENGTH_MIN_ROWS = 3
+const STRENGTH_MIN_PCT = 75
+
+export function gapFacts(rows: any[], lens: Lens): GapFacts {
+  const inLens = rowsInLens(Array.isArray(rows) ? rows : [], lens)
+  const counts = countSeverities(inLens)
+  const total = inLens.length
+  const legend = severityLegend(lens)
+  const groups = severityByCategory(inLens, lens)
+  const partial = counts["1"] + counts["2"]
+  return {
+    framework: getFramework(lens.framework).short,
+    total,
+    missing: counts["3"],
+    missingPct: pct(counts["3"], total),
+    aligned: counts["0"],
+    alignedPct: pct(counts["0"], total),
+    partial,
+    partialPct: pct(partial, total),
+    missingLabel: legend[3],
+    alignedLabel: legend[0],
+    topMissing: groups
+      .filter((g) => (g.counts[3] || 0) > 0)
+      .sort((a, b) => (b.counts[3] || 0) - (a.counts[3] || 0) || b.total - a.total)
+      .slice(0, TOP_MISSING)
+      .map((g) => ({ label: g.label, missing: g.counts[3] || 0, total: g.total })),
+    strengths: groups
+      .filter((g) => g.total >= STRENGTH_MIN_ROWS && pct(g.counts[0] || 0, g.total) >= STRENGTH_MIN_PCT)
+      .sort((a, b) => (b.counts[0] || 0) / b.total - (a.counts[0] || 0) / a.total || b.total - a.total)
+      .slice(0, 2)
+      .map((g) => ({ label: g.label, alignedPct: pct(g.counts[0] || 0, g.total), total: g.total })),
+  }
+}
+
+/** Overview paragraphs for the Gap tab (and PDF export). */
+export function gapNarrative(f: GapFacts): string[] {
+  if (!f.total) return [`No disclosures fall within the ${f.framework} lens for this report.`]
+  const v: Record<string, Value> = {
+    ...f,
+    topMissing: list(f.topMissing.map((c) => `${c.label} (${c.missing} of ${c.total} missing)`)),
+    strengths: list(f.strengths.map((c) => `${c.label} (${c.alignedPct}% aligned)`)),
+  }
+  const paragraphs = [
+    fill(
+      `A total of {total} disclosure standards were assessed. Of these, {missing} disclosures ({missingPct}%) are classified as "{missingLabel}", and {partial} ({partialPct}%) are partially covered.`,
+      v
+    ),
+    fill(
+      f.alignedPct < 50
+        ? `Only {aligned} disclosures ({alignedPct}%) are classified as "{alignedLabel}".`
+        : `{aligned} disclosures ({alignedPct}%) are classified as "{alignedLabel}".`,
+      v
+    ),
+    f.missing > 0
+      ? fill(`Key areas with the most severe gaps include {topMissing}.`, v)
+      : `No disclosures are fully missing under this lens.`,
+    fill(`Notable strengths: {strengths}.`, v),
+  ]
+  return paragraphs.filter((p): p is string => p !== null)
+}
+
+/* -------------------- Benchmark insight -------------------- */
+
+// The company's rank within one peer list
+export type PeerPosition = {
+  where: string // "in the same country", see PeerSet
+  n: number
+  median: string // "42.0%"
+  percentile: number | null // null without a company reduction
+  band: PeerBand | null
+}
+
+export type BenchmarkFacts = {
+  company: string
+  baseYear: number | null
+  targetYear: number | null
+  years: number | null
+  reduction: string | null // "42.0%"
+  peers: PeerPosition[] // peer sets with at least one stated reduction
+  peerScope: string // all peer sets together, for the no-peers sentence
+}
+
+const BAND_TEXT: Record<PeerBand, string> = {
+  "top-quartile": "top quartile",
+  "above-median": "above the median",
+  median: "at the median",
+  "below-median": "below the median",
+  "bottom-quartile": "bottom quartile",
+}
+
+function position(companyFrac: number | null, peers: any[], where: string): PeerPosition | null {
+  const p = companyVsPeers(companyFrac, peers)
+  if (!p.stats) return null
+  return { where, n: p.stats.n, median: fmtPct(p.stats.median), percentile: p.percentile, band: p.band }
+}
+
+export function benchmarkFacts(bench: any): BenchmarkFacts | null {
+  if (!bench?.company) return null
+  const c = bench.company
+  const startY = Number(c.sbti_start_year)
+  const targetY = Number(c.sbti_target_year)
+  const companyFrac = asFrac(c.sbti_scope_1_2_reduction_pct)
+  const sets = peerSets(bench)
+  return {
+    company: c.company_name || "the company",
+    baseYear: Number.isFinite(startY) && startY ? startY : null,
+    targetYear: Number.isFinite(targetY) && targetY ? targetY : null,
+    years: Number.isFinite(startY) && Number.isFinite(targetY) && startY && targetY ? targetY - startY + 1 : null,
+    reduction: companyFrac === null ? null : fmtPct(companyFrac),
+    peers: sets.map((s) => position(companyFrac, s.peers, s.where)).filter((p): p is PeerPosition => p !== null),
+    peerScope: bench?.peer_group ? sets[0].where : "in the same country or region",
+  }
+}
+
+function peerSentence(p: PeerPosition): string | null {
+  if (p.percentile === null || !p.band) return null
+  return fill(
+    `Among {n} SBTi-validated companies {where}, it ranks at the {percentile} percentile ({band}; median {median}).`,
+    { n: p.n, where: p.where, percentile: ordinal(p.percentile), band: BAND_TEXT[p.band], median: p.median }
+  )
+}
+
+export function benchmarkNarrative(f: BenchmarkFacts): string {
+  const v: Record<string, Value> = {
+    company: f.company,
+    // Unknown values read as "n/a" in this sentence rather than dropping it
+    targetYear: f.targetYear ?? "n/a",
+    baseYear: f.baseYear ?? "n/a",
+    reduction: f.reduction ?? "n/a",
+    years: f.years === null ? "n/a" : `${f.years} years`,
+  }
+  const target = fill(
+    `If {company} sets a near-term target of its Scope 1+2 reduction by {targetYear}, ` +
+      `it will aim for a {reduction} reduction from its {baseYear} baseline, over {years}.`,
+    v
+  )
+  const ranks = f.peers.map(peerSentence).filter((x): x is string => x !== null)
+  const fallback =
+    f.reduction === null
+      ? `Without a stated reduction, the target can't be ranked against peers.`
+      : !f.peers.length
+        ? `No SBTi-validated peers ${f.peerScope} state a reduction to compare against.`
+        : null
+  return [target, ...ranks, ...(ranks.length ? [] : [fallback])].filter(Boolean).join(" ")
+}
+
+/** Benchmark insight sentence for the Benchmarking tab and PDF export; "" without a company row. */
+export function benchmarkInsight(bench: any): string {
+  const f = benchmarkFacts(bench)
+  return f ? benchmarkNarrative(f) : ""
+}
+
+/* -------------------- LLM polish check -------------------- */
+
+export type NarrativeKind = "gap" | "benchmark"
+
+export function isGapFacts(v: any): v is GapFacts {
+  return (
+    typeof v?.total === "number" &&
+    typeof v?.missing === "number" &&
+    typeof v?.aligned === "number" &&
+    Array.isArray(v?.topMissing) &&
+    Array.isArray(v?.strengths)
+  )
+}
+
+const isPosition = (p: any) => typeof p?.where === "string" && typeof p?.n === "number" && typeof p?.median === "string"
+
+export function isBenchmarkFacts(v: any): v is BenchmarkFacts {
+  return typeof v?.company === "string" && typeof v?.peerScope === "string" && Array.isArray(v?.peers) && v.peers.every(isPosition)
+}
+
+/** The deterministic text for `facts`, as one string. */
+export function draftFor(kind: NarrativeKind, facts: GapFacts | BenchmarkFacts): string {
+  return kind === "gap" ? gapNarrative(facts as GapFacts).join("\n\n") : benchmarkNarrative(facts as BenchmarkFacts)
+}
+
+// "1,234", "42.0", "2030" → "1234", "42", "2030"
+function numbersIn(text: string): Set<string> {
+  const out = new Set<string>()
+  for (const m of text.matchAll(/\d[\d,]*(?:\.\d+)?/g)) {
+    const n = Number(m[0].replace(/,/g, ""))
+    if (Number.isFinite(n)) out.add(String(n))
+  }
+  return out
+}
+
+// Phrases the polished text must not use when every ranked peer set points the same way
+const CONTRADICTIONS = {
+  above: /less ambitious|below (the )?(\w+ )?(median|average)|bottom quartile|\blags?\b|behind (its )?peers/i,
+  below: /more ambitious|above (the )?(\w+ )?(median|average)|top quartile|\bleads?\b|ahead of (its )?peers|outperform/i,
+  mixed: /(more|less) ambitious than (both|all)|(above|below) both/i,
+}
+
+function direction(f: BenchmarkFacts): keyof typeof CONTRADICTIONS | null {
+  const bands = f.peers.map((p) => p.band).filter((b): b is PeerBand => !!b && b !== "median")
+  if (!bands.length) return null
+  const up = bands.filter((b) => b === "top-quartile" || b === "above-median").length
+  return up === bands.length ? "above" : up === 0 ? "below" : "mixed"
+}
+
+/**
+ * Problems with an LLM rewrite of `draft`. It may not introduce numbers the
+ * draft doesn't contain, must keep the headline figures, and must not flip
+ * the benchmark comparison.
+ */
+export function checkPolished(kind: NarrativeKind, facts: GapFacts | BenchmarkFacts, draft: string, polished: string): string[] {
+  const issues: string[] = []
+  if (!polished.trim()) return ["empty response"]
+  const allowed = numbersIn(draft)
+  const extra = Array.from(numbersIn(polished)).filter((n) => !allowed.has(n))
+  if (extra.length) issues.push(`numbers not in the data: ${extra.join(", ")}`)
+
+  const required: Value[] =
+    kind === "gap"
+      ? [(facts as GapFacts).total, (facts as GapFacts).missing, (facts as GapFacts).aligned]
+      : [
+          (facts as BenchmarkFacts).reduction,
+          (facts as BenchmarkFacts).targetYear,
+          ...(facts as BenchmarkFacts).peers.map((p) => p.percentile),
+        ]
+  const present = numbersIn(polished)
+  for (const r of required) {
+    if (r === null || r === undefined) continue
+    const missing = Array.from(numbersIn(String(r))).filter((n) => !present.has(n))
+    if (missing.length) issues.push(`dropped ${r}`)
+  }
+
+  if (kind === "benchmark") {
+    const dir = direction(facts as BenchmarkFacts)
+    if (dir && CONTRADICTIONS[dir].test(polished)) issues.push("contradicts the peer comparison")
+  }
+  return issues
+}
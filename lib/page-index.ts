@@ -0,0 +1,59 @@
+import { getStorage, joinPath, readJSON, writeJSON } from "@/lib/storage"
+
+/**
+ * Per-page report text, written at invoke time so chat answers can cite
+ * "[p. N]" references that match the uploaded PDF's page numbers.
+ */
+export type PageIndex = {
+  pdfId: string
+  pageCount: number
+  pages: string[]
+  createdAt: string
+}
+
+const PAGES_DIR = () => process.env.ESGSMART_PAGES_DIR || "dbfs:/tmp/esgsmart_pages"
+
+export async function extractPdfPages(buf: Buffer): Promise<string[]> {
+  // Inline require to avoid Webpack bundling issues (pdfjs-dist is a server external)
+  const pdfjs = require("pdfjs-dist/legacy/build/pdf.js")
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(buf),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0, // errors only; font warnings are noise for text extraction
+  }).promise
+
+  const pages: string[] = []
+  try {
+    for (let i = 1; i <= doc.numPages; i++) {
+      const page = await doc.getPage(i)
+      const content = await page.getTextContent()
+      let text = ""
+      for (const item of content.items as any[]) {
+        if (typeof item?.str !== "string") continue
+        text += item.str + (item.hasEOL ? "\n" : " ")
+      }
+      pages.push(text.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim())
+      page.cleanup()
+    }
+  } finally {
+    await doc.destroy()
+  }
+  return pages
+}
+
+function pageIndexPath(pdfId: string) {
+  return joinPath(PAGES_DIR(), `${pdfId}.json`)
+}
+
+export async function savePageIndex(pdfId: string, pages: string[]): Promise<void> {
+  const index: PageIndex = { pdfId, pageCount: pages.length, pages, createdAt: new Date().toISOString() }
+  await writeJSON(getStorage(), pageIndexPath(pdfId), index)
+}
+
+export async function loadPageIndex(pdfId: string): Promise<PageIndex | null> {
+  const r = await readJSON(getStorage(), pageIndexPath(pdfId))
+  if (!r.ok || !Array.isArray(r.data?.pages)) return null
+  return r.data as PageIndex
+}
@@ -0,0 +1,114 @@
+import { sbtiTrajectory } from "@/lib/benchmark"
+
+/**
+ * Science-based reference pathways for the company's Scope 1+2 target. Under
+ * SBTi's Absolute Contraction Approach the required cut is linear in base-year
+ * emissions: 4.2% of the base per year for 1.5°C and 2.5% per year for
+ * well-below 2°C, counted from the base year. Comparing the stated target
+ * against those gives the ambition gap.
+ */
+
+export type PathwayId = "1.5c" | "wb2c"
+
+export type Pathway = { id: PathwayId; name: string; annualRate: number }
+
+export const PATHWAYS: Pathway[] = [
+  { id: "1.5c", name: "1.5°C", annualRate: 0.042 },
+  { id: "wb2c", name: "Well-below 2°C", annualRate: 0.025 },
+]
+
+/** Share of base-year emissions that must be cut by `targetYear`, capped at 100%. */
+export function requiredReduction(pathway: Pathway, baseYear: number, targetYear: number): number {
+  return Math.min(1, Math.max(0, pathway.annualRate * (targetYear - baseYear)))
+}
+
+export type Scope12Target = {
+  baseYear: number
+  targetYear: number
+  base: number // tCO2e in the base year
+  target: number | null // stated target-year emissions; null without a stated target
+}
+
+const sf = (v: any): number | null => {
+  if (v === null || v === undefined || v === "") return null
+  const n = Number(String(v).replace(/,/g, ""))
+  return Number.isFinite(n) ? n : null
+}
+
+/** Base and stated target for Scope 1+2, derived the same way as the trajectory chart. */
+export function scope12Target(company: any): Scope12Target | null {
+  const c = company || {}
+  const baseYear = sf(c.sbti_start_year)
+  const targetYear = sf(c.sbti_target_year)
+  if (baseYear == null || targetYear == null || targetYear <= baseYear) return null
+  const s1 = sf(c.scope_1)
+  const s2 = sf(c.scope_2)
+  const base = sf(c.sbti_scope_1_2) ?? (s1 != null && s2 != null ? s1 + s2 : null)
+  if (base == null || base <= 0) return null
+  const stated = sbtiTrajectory(c).find((s) => s.name === "Scope 1+2")?.points ?? []
+  return { baseYear, targetYear, base, target: stated.length ? stated[stated.length - 1].y : null }
+}
+
+// Points are { x: year, lo, hi } in tCO2e
+export type PathwayBand = { id: PathwayId; name: string; points: Array<{ x: number; lo: number; hi: number }> }
+
+/**
+ * Reference bands from base to target year: at or below the 1.5°C line is
+ * 1.5°C-aligned; between it and the well-below 2°C line is WB2C-aligned.
+ */
+export function pathwayBands(company: any): PathwayBand[] {
+  const t = scope12Target(company)
+  if (!t) return []
+  const at = (p: Pathway, year: number) => t.base * (1 - requiredReduction(p, t.baseYear, year))
+  const [p15, wb2c] = PATHWAYS
+  const years: number[] = []
+  for (let y = t.baseYear; y <= t.targetYear; y++) years.push(y)
+  return [
+    { id: "1.5c", name: `${p15.name} aligned`, points: years.map((x) => ({ x, lo: 0, hi: at(p15, x) })) },
+    { id: "wb2c", name: `${wb2c.name} aligned`, points: years.map((x) => ({ x, lo: at(p15, x), hi: at(wb2c, x) })) },
+  ]
+}
+
+export type AmbitionGap = {
+  pathway: Pathway
+  requiredPct: number // 0..1 reduction from base by the target year
+  requiredEmissions: number
+  statedPct: number | null
+  gapPp: number | null // required minus stated, percentage points; <= 0 when aligned
+  gapTonnes: number | null // stated minus required target-year emissions; <= 0 when aligned
+  aligned: boolean | null
+}
+
+/** Ambition gap of the stated Scope 1+2 target against each pathway; empty without a base. */
+export function ambitionGaps(company: any): AmbitionGap[] {
+  const t = scope12Target(company)
+  if (!t) return []
+  return PATHWAYS.map((pathway) => {
+    const requiredPct = requiredReduction(pathway, t.baseYear, t.targetYear)
+    const requiredEmissions = t.base * (1 - requiredPct)
+    const statedPct = t.target == null ? null : 1 - t.target / t.base
+    const gapPp = statedPct == null ? null : (requiredPct - statedPct) * 100
+    return {
+      pathway,
+      requiredPct,
+      requiredEmissions,
+      statedPct,
+      gapPp,
+      gapTonnes: t.target == null ? null : t.target - requiredEmissions,
+      // Rounding noise shouldn't flip a target that is exactly on the line
+      aligned: gapPp == null ? null : gapPp <= 0.05,
+    }
+  })
+}
+
+/** One line per pathway, e.g. "1.5°C: needs 42.0% by 2030; stated 30.0% — short by 12.0 pp (1,200 tCO2e)". */
+export function ambitionGapLines(company: any): string[] {
+  const t = scope12Target(company)
+  return ambitionGaps(company).map((g) => {
+    const need = `${g.pathway.name}: needs ${(g.requiredPct * 100).toFixed(1)}% by ${t?.targetYear}`
+    if (g.statedPct == null || g.gapPp == null || g.gapTonnes == null) return `${need}; no stated target`
+    const stated = `stated ${(g.statedPct * 100).toFixed(1)}%`
+    if (g.aligned) return `${need}; ${stated} — aligned`
+    return `${need}; ${stated} — short by ${g.gapPp.toFixed(1)} pp (${Math.round(g.gapTonnes).toLocaleString()} tCO2e)`
+  })
+}
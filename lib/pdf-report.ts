@@ -0,0 +1,573 @@
+import fs from "node:fs/promises"
+import path from "node:path"
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage, type RGB } from "pdf-lib"
+import {
+  asFrac,
+  buildPeerDisplay,
+  companyVsPeers,
+  peerSets,
+  peerStatsLine,
+  reductionValues,
+  sbtiTrajectory,
+  type PeerRow,
+  type TrajectorySeries,
+} from "@/lib/benchmark"
+import type { PeerStats } from "@/lib/benchmark-stats"
+import type { ChatTurn } from "@/lib/chat-memory"
+import { DEFAULT_LENS, getFramework, lensName, rowsInLens, severityByCategory, severityLegend, type Lens } from "@/lib/frameworks"
+import { DISCLOSURE_COLUMNS, countSeverities, type Severity } from "@/lib/gap"
+import { benchmarkInsight, gapFacts, gapNarrative } from "@/lib/narrative"
+import { emissionsBars, formatNumber, summaryCards, summaryHighlights } from "@/lib/summary"
+import { categoryList, scope3Summary, type Scope3Summary } from "@/lib/scope3"
+import { intensityLines } from "@/lib/intensity"
+import { ambitionGapLines, pathwayBands, type PathwayBand } from "@/lib/pathways"
+
+/**
+ * Server-side PDF export of one analysis: summary, SBTi benchmarking, gap
+ * analysis and (optionally) the chat transcript. Drawn directly with pdf-lib
+ * so it needs no headless browser; charts are simple vector shapes that mirror
+ * the ones on the page.
+ */
+
+export type ReportInput = {
+  pdfId: string
+  fileName: string | null
+  summary: any | null
+  benchmark: any | null
+  gap: any[] | null
+  transcript: ChatTurn[] | null
+  lens?: Lens | null // gap sections; defaults to DEFAULT_LENS
+  sector?: string | null // manual sector override shown instead of the extracted one
+  generatedAt?: Date
+}
+
+const A4: [number, number] = [595.28, 841.89]
+const MARGIN = 48
+const HEADER_H = 56
+const FOOTER_H = 36
+
+const BRAND = rgb(0, 0x7a / 255, 0x72 / 255) // #007A72
+const INK = rgb(0.07, 0.09, 0.15)
+const MUTED = rgb(0.42, 0.45, 0.5)
+const RULE = rgb(0.86, 0.87, 0.89)
+const SHADE = rgb(0.96, 0.97, 0.97)
+const COMPANY_MARK = rgb(0.86, 0.15, 0.15)
+const BANDS = [rgb(0.13, 0.77, 0.37), rgb(0.92, 0.7, 0.03)] // green, yellow
+const SERIES = [rgb(0.23, 0.51, 0.96), rgb(0.06, 0.73, 0.51), rgb(0.96, 0.62, 0.04), rgb(0.55, 0.36, 0.96)] // blue, emerald, amber, violet
+const SEVERITY_COLOR: Record<Severity, RGB> = {
+  0: rgb(0.13, 0.77, 0.37),
+  1: rgb(0.92, 0.7, 0.03),
+  2: rgb(0.98, 0.45, 0.09),
+  3: rgb(0.94, 0.27, 0.27),
+}
+
+const ASSET = (name: string) => path.join(process.cwd(), "public", name)
+
+type Column = { header: string; width: number; align?: "left" | "right" }
+
+/** Cursor-based page writer: wraps text, breaks pages and stamps header/footer. */
+class ReportWriter {
+  pages: PDFPage[] = []
+  page!: PDFPage
+  y = 0
+  private chars: Set<number>
+
+  constructor(
+    private doc: PDFDocument,
+    private font: PDFFont,
+    private bold: PDFFont,
+    private logo: PDFImage | null
+  ) {
+    this.chars = new Set(font.getCharacterSet())
+  }
+
+  get width() {
+    return this.page.getWidth() - MARGIN * 2
+  }
+
+  /** Helvetica only covers WinAnsi; fold accents and replace anything else. */
+  clean(text: unknown): string {
+    return String(text ?? "")
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[→⇒]/g, "->")
+      .replace(/[\r\t]/g, " ")
+      .split("")
+      .map((ch) => (ch === "\n" || this.chars.has(ch.codePointAt(0)!) ? ch : "?"))
+      .join("")
+  }
+
+  addPage(landscape = false) {
+    this.page = this.doc.addPage(landscape ? [A4[1], A4[0]] : A4)
+    this.pages.push(this.page)
+    const h = this.page.getHeight()
+    if (this.logo) {
+      const scale = 28 / this.logo.height
+      this.page.drawImage(this.logo, { x: MARGIN, y: h - MARGIN + 4 - 28, width: this.logo.width * scale, height: 28 })
+    } else {
+      this.page.drawText("ESGsmart", { x: MARGIN, y: h - MARGIN - 16, size: 16, font: this.bold, color: BRAND })
+    }
+    this.page.drawLine({
+      start: { x: MARGIN, y: h - MARGIN - HEADER_H + 20 },
+      end: { x: this.page.getWidth() - MARGIN, y: h - MARGIN - HEADER_H + 20 },
+      thickness: 1,
+      color: BRAND,
+    })
+    this.y = h - MARGIN - HEADER_H
+  }
+
+  ensure(height: number, landscape?: boolean) {
+    if (this.y - height < MARGIN + FOOTER_H) this.addPage(landscape ?? this.page.getWidth() > this.page.getHeight())
+  }
+
+  gap(h: number) {
+    this.y -= h
+  }
+
+  wrap(text: string, size: number, maxWidth: number, font = this.font): string[] {
+    const out: string[] = []
+    for (const para of this.clean(text).split("\n")) {
+      let line = ""
+      for (const word of para.split(/\s+/).filter(Boolean)) {
+        const next = line ? `${line} ${word}` : word
+        if (font.widthOfTextAtSize(next, size) <= maxWidth) {
+          line = next
+          continue
+        }
+        if (line) out.push(line)
+        // Hard-break words longer than the column
+        let rest = word
+        while (font.widthOfTextAtSize(rest, size) > maxWidth && rest.length > 1) {
+          let n = rest.length - 1
+          while (n > 1 && font.widthOfTextAtSize(rest.slice(0, n), size) > maxWidth) n--
+          out.push(rest.slice(0, n))
+          rest = rest.slice(n)
+        }
+        line = rest
+      }
+      out.push(line)
+    }
+    return out
+  }
+
+  text(text: string, opts: { size?: number; bold?: boolean; color?: RGB; indent?: number; lineGap?: number } = {}) {
+    const size = opts.size ?? 10
+    const font = opts.bold ? this.bold : this.font
+    const lh = size * (opts.lineGap ?? 1.35)
+    const indent = opts.indent ?? 0
+    for (const line of this.wrap(text, size, this.width - indent, font)) {
+      this.ensure(lh)
+      this.y -= lh
+      this.page.drawText(line, { x: MARGIN + indent, y: this.y + size * 0.25, size, font, color: opts.color ?? INK })
+    }
+  }
+
+  heading(text: string, level: 1 | 2 = 1) {
+    const size = level === 1 ? 16 : 12
+    this.ensure(size * 3)
+    this.gap(level === 1 ? 12 : 8)
+    this.text(text, { size, bold: true, color: level === 1 ? BRAND : INK })
+    this.gap(4)
+  }
+
+  bullets(items: string[]) {
+    for (const item of items) {
+      this.ensure(14)
+      this.page.drawCircle({ x: MARGIN + 4, y: this.y - 9, size: 1.6, color: INK })
+      this.text(item, { indent: 12 })
+    }
+  }
+
+  /** Label/value cards laid out in a grid, like the Summary tab. */
+  cards(items: Array<{ label: string; value: any }>, perRow = 3) {
+    const colW = (this.width - (perRow - 1) * 8) / perRow
+    for (let i = 0; i < items.length; i += perRow) {
+      const row = items.slice(i, i + perRow)
+      const lines = row.map((c) => this.wrap(String(c.value || "—"), 11, colW - 16, this.bold).slice(0, 3))
+      const h = 26 + Math.max(...lines.map((l) => l.length)) * 14
+      this.ensure(h + 8)
+      row.forEach((c, j) => {
+        const x = MARGIN + j * (colW + 8)
+        this.page.drawRectangle({ x, y: this.y - h, width: colW, height: h, borderColor: RULE, borderWidth: 1, color: SHADE })
+        this.page.drawText(this.clean(c.label), { x: x + 8, y: this.y - 16, size: 8, font: this.font, color: MUTED })
+        lines[j].forEach((l, k) => {
+          this.page.drawText(l, { x: x + 8, y: this.y - 32 - k * 14, size: 11, font: this.bold, color: INK })
+        })
+      })
+      this.y -= h + 8
+    }
+  }
+
+  /** Wrapped-cell table; the header row repeats after a page break. */
+  table(columns: Column[], rows: string[][], opts: { size?: number; emphasise?: (row: number) => boolean } = {}) {
+    const size = opts.size ?? 8
+    const lh = size * 1.3
+    const pad = 4
+    const total = columns.reduce((a, c) => a + c.width, 0)
+    const widths = columns.map((c) => (c.width / total) * this.width)
+
+    const drawRow = (cells: string[], header: boolean, shade: boolean) => {
+      const font = header ? this.bold : this.font
+      const wrapped = cells.map((c, i) => this.wrap(c || "", size, widths[i] - pad * 2, font))
+      const h = Math.max(...wrapped.map((w) => w.length)) * lh + pad * 2
+      if (this.y - h < MARGIN + FOOTER_H) {
+        this.addPage(this.page.getWidth() > this.page.getHeight())
+        if (!header) drawRow(columns.map((c) => c.header), true, false)
+      }
+      if (header || shade) {
+        this.page.drawRectangle({ x: MARGIN, y: this.y - h, width: this.width, height: h, color: header ? SHADE : rgb(0.98, 0.98, 0.98) })
+      }
+      let x = MARGIN
+      wrapped.forEach((lines, i) => {
+        lines.forEach((l, k) => {
+          const w = font.widthOfTextAtSize(l, size)
+          const tx = columns[i].align === "right" ? x + widths[i] - pad - w : x + pad
+          this.page.drawText(l, { x: tx, y: this.y - pad - (k + 1) * lh + size * 0.3, size, font, color: header ? MUTED : INK })
+        })
+        x += widths[i]
+      })
+      this.y -= h
+      this.page.drawLine({ start: { x: MARGIN, y: this.y }, end: { x: MARGIN + this.width, y: this.y }, thickness: 0.5, color: RULE })
+    }
+
+    this.ensure(lh * 3 + pad * 4)
+    drawRow(columns.map((c) => c.header), true, false)
+    rows.forEach((r, i) => drawRow(r, false, opts.emphasise?.(i) ?? false))
+  }
+
+  legend(entries: Array<{ label: string; color: RGB }>) {
+    this.ensure(16)
+    let x = MARGIN
+    for (const e of entries) {
+      const label = this.clean(e.label)
+      const w = 14 + this.font.widthOfTextAtSize(label, 8) + 14
+      if (x + w > MARGIN + this.width) {
+        x = MARGIN
+        this.y -= 14
+        this.ensure(16)
+      }
+      this.page.drawRectangle({ x, y: this.y - 10, width: 8, height: 8, color: e.color })
+      this.page.drawText(label, { x: x + 12, y: this.y - 9, size: 8, font: this.font, color: INK })
+      x += w
+    }
+    this.y -= 18
+  }
+
+  barChart(data: Array<{ label: string; value: number }>, height = 150) {
+    this.ensure(height + 20)
+    const max = Math.max(1, ...data.map((d) => (Number.isFinite(d.value) ? d.value : 0)))
+    const slot = this.width / Math.max(1, data.length)
+    const barW = Math.min(90, slot * 0.5)
+    const base = this.y - height
+    data.forEach((d, i) => {
+      const v = Number.isFinite(d.value) ? d.value : 0
+      const h = Math.max(1, (v / max) * (height - 30))
+      const x = MARGIN + i * slot + (slot - barW) / 2
+      this.page.drawRectangle({ x, y: base, width: barW, height: h, color: SERIES[i % SERIES.length] })
+      const value = formatNumber(v)
+      this.page.drawText(value, { x: x + (barW - this.font.widthOfTextAtSize(value, 8)) / 2, y: base + h + 4, size: 8, font: this.font, color: INK })
+      const label = this.clean(d.label)
+      this.page.drawText(label, { x: x + (barW - this.font.widthOfTextAtSize(label, 9)) / 2, y: base - 14, size: 9, font: this.font, color: MUTED })
+    })
+    this.page.drawLine({ start: { x: MARGIN, y: base }, end: { x: MARGIN + this.width, y: base }, thickness: 0.5, color: RULE })
+    this.y = base - 22
+  }
+
+  /** Series as lines over optional shaded reference bands (see lib/pathways). */
+  lineChart(series: TrajectorySeries[], height = 200, bands: PathwayBand[] = []) {
+    const pts = series.flatMap((s) => s.points)
+    if (!pts.length) return this.text("No trajectory data available.", { color: MUTED })
+    const bandPts = bands.flatMap((b) => b.points)
+    this.ensure(height + 30)
+    const left = MARGIN + 44
+    const right = MARGIN + this.width
+    const top = this.y - 8
+    const bottom = this.y - height
+    const xs = [...pts.map((p) => p.x), ...bandPts.map((p) => p.x)]
+    const ys = [...pts.map((p) => p.y), ...bandPts.flatMap((p) => [p.lo, p.hi])]
+    const [minX, maxX] = [Math.min(...xs), Math.max(...xs)]
+    const [minY, maxY] = [Math.min(0, ...ys), Math.max(...ys)]
+    const sx = (x: number) => (maxX === minX ? left : left + ((x - minX) / (maxX - minX)) * (right - left))
+    const sy = (y: number) => (maxY === minY ? bottom : bottom + ((y - minY) / (maxY - minY)) * (top - bottom))
+
+    for (let i = 0; i <= 4; i++) {
+      const v = minY + (i * (maxY - minY)) / 4
+      const y = sy(v)
+      this.page.drawLine({ start: { x: left, y }, end: { x: right, y }, thickness: 0.5, color: RULE })
+      const label = formatNumber(v)
+      this.page.drawText(label, { x: left - 6 - this.font.widthOfTextAtSize(label, 7), y: y - 2.5, size: 7, font: this.font, color: MUTED })
+    }
+    const step = Math.max(1, Math.ceil((maxX - minX) / 10))
+    for (let x = minX; x <= maxX; x += step) {
+      const label = String(x)
+      this.page.drawText(label, { x: sx(x) - this.font.widthOfTextAtSize(label, 7) / 2, y: bottom - 12, size: 7, font: this.font, color: MUTED })
+    }
+    bands.forEach((b, i) => {
+      if (!b.points.length) return
+      // drawSvgPath flips y around its origin, so page coordinates go in negated
+      const edge = (p: { x: number }, y: number) => `${sx(p.x).toFixed(2)} ${(-sy(y)).toFixed(2)}`
+      const upper = b.points.map((p, k) => `${k ? "L" : "M"} ${edge(p, p.hi)}`).join(" ")
+      const lower = [...b.points].reverse().map((p) => `L ${edge(p, p.lo)}`).join(" ")
+      this.page.drawSvgPath(`${upper} ${lower} Z`, { x: 0, y: 0, color: BANDS[i % BANDS.length], opacity: 0.18 })
+    })
+    series.forEach((s, i) => {
+      const color = SERIES[i % SERIES.length]
+      for (let k = 1; k < s.points.length; k++) {
+        const a = s.points[k - 1]
+        const b = s.points[k]
+        this.page.drawLine({ start: { x: sx(a.x), y: sy(a.y) }, end: { x: sx(b.x), y: sy(b.y) }, thickness: 1.6, color })
+      }
+    })
+    this.y = bottom - 20
+    this.legend([
+      ...series.map((s, i) => ({ label: s.name, color: SERIES[i % SERIES.length], shown: s.points.length > 0 })).filter((e) => e.shown),
+      ...bands.map((b, i) => ({ label: b.name, color: BANDS[i % BANDS.length] })),
+    ])
+  }
+
+  /** Box and strip plot per row on a 0–100% axis, with the company value marked. */
+  boxPlot(rows: Array<{ label: string; values: number[]; stats: PeerStats; company: number | null }>) {
+    const labelW = 90
+    const rowH = 30
+    const left = MARGIN + labelW
+    const span = this.width - labelW - 10
+    const sx = (v: number) => left + Math.min(1, Math.max(0, v)) * span
+    this.ensure(rows.length * rowH + 20)
+    for (const r of rows) {
+      const cy = this.y - rowH / 2
+      const s = r.stats
+      this.page.drawText(this.clean(r.label), { x: MARGIN, y: cy - 3, size: 8, font: this.font, color: INK })
+      this.page.drawLine({ start: { x: sx(s.min), y: cy }, end: { x: sx(s.max), y: cy }, thickness: 0.6, color: MUTED })
+      this.page.drawRectangle({ x: sx(s.q1), y: cy - 7, width: Math.max(1, sx(s.q3) - sx(s.q1)), height: 14, color: SERIES[0], opacity: 0.15, borderColor: SERIES[0], borderWidth: 0.6 })
+      this.page.drawLine({ start: { x: sx(s.median), y: cy - 7 }, end: { x: sx(s.median), y: cy + 7 }, thickness: 1.4, color: SERIES[0] })
+      r.values.forEach((v, i) => this.page.drawCircle({ x: sx(v), y: cy + ((i % 5) - 2) * 2.5, size: 1.4, color: INK, opacity: 0.5 }))
+      if (r.company !== null) {
+        this.page.drawLine({ start: { x: sx(r.company), y: cy - 11 }, end: { x: sx(r.company), y: cy + 11 }, thickness: 1.6, color: COMPANY_MARK })
+      }
+      this.y -= rowH
+    }
+    for (let t = 0; t <= 100; t += 25) {
+      const label = `${t}%`
+      this.page.drawText(label, { x: sx(t / 100) - this.font.widthOfTextAtSize(label, 7) / 2, y: this.y - 8, size: 7, font: this.font, color: MUTED })
+    }
+    this.y -= 14
+    this.legend([
+      { label: "Company", color: COMPANY_MARK },
+      { label: "Peer interquartile range and median", color: SERIES[0] },
+    ])
+  }
+
+  /** Horizontal 100%-stacked bars, one per category. */
+  stackedBars(rows: Array<{ label: string; counts: Record<number, number>; total: number }>) {
+    const labelW = 120
+    const barW = this.width - labelW - 36
+    for (const r of rows) {
+      this.ensure(16)
+      const label = this.clean(r.label)
+      this.page.drawText(label, { x: MARGIN, y: this.y - 10, size: 8, font: this.font, color: INK })
+      let x = MARGIN + labelW
+      for (const sev of [0, 1, 2, 3] as Severity[]) {
+        const n = r.counts[sev] || 0
+        if (!n || !r.total) continue
+        const w = (n / r.total) * barW
+        this.page.drawRectangle({ x, y: this.y - 12, width: w, height: 10, color: SEVERITY_COLOR[sev] })
+        x += w
+      }
+      this.page.drawText(String(r.total), { x: MARGIN + labelW + barW + 6, y: this.y - 10, size: 8, font: this.font, color: MUTED })
+      this.y -= 16
+    }
+    this.gap(4)
+  }
+
+  /** Footer with the ESGpedia mark and "Page n of N", once all pages exist. */
+  finish(mark: PDFImage | null) {
+    const total = this.pages.length
+    this.pages.forEach((p, i) => {
+      const w = p.getWidth()
+      p.drawLine({ start: { x: MARGIN, y: MARGIN + 12 }, end: { x: w - MARGIN, y: MARGIN + 12 }, thickness: 0.5, color: RULE })
+      const label = "Powered by ESGpedia"
+      let x = MARGIN
+      if (mark) {
+        p.drawImage(mark, { x, y: MARGIN - 6, width: 12, height: 12 })
+        x += 16
+      }
+      p.drawText(label, { x, y: MARGIN - 3, size: 8, font: this.font, color: MUTED })
+      const num = `Page ${i + 1} of ${total}`
+      p.drawText(num, { x: w - MARGIN - this.font.widthOfTextAtSize(num, 8), y: MARGIN - 3, size: 8, font: this.font, color: MUTED })
+    })
+  }
+}
+
+async function embedPng(doc: PDFDocument, name: string): Promise<PDFImage | null> {
+  try {
+    return await doc.embedPng(await fs.readFile(ASSET(name)))
+  } catch (e) {
+    console.warn(`[pdf-report] ${name} not embedded:`, e)
+    return null
+  }
+}
+
+function peerTable(w: ReportWriter, title: string, raw: any[]) {
+  w.heading(title, 2)
+  const rows = buildPeerDisplay(raw)
+  if (!rows.filter((r) => !r.Company.startsWith("**")).length) {
+    w.text("No peers found.", { color: MUTED })
+    return
+  }
+  const cols: Array<{ key: keyof PeerRow; width: number; align?: "right" }> = [
+    { key: "Company", width: 4 },
+    { key: "Sector", width: 3 },
+    { key: "Country", width: 2 },
+    { key: "Region", width: 2 },
+    { key: "Base Year", width: 1.3, align: "right" },
+    { key: "Target Year", width: 1.3, align: "right" },
+    { key: "% Reduction", width: 1.5, align: "right" },
+  ]
+  w.table(
+    cols.map((c) => ({ header: String(c.key), width: c.width, align: c.align })),
+    rows.map((r) => cols.map((c) => String(r[c.key] ?? "").replace(/\*\*/g, ""))),
+    { emphasise: (i) => rows[i].Company.startsWith("**") }
+  )
+}
+
+function scope3Table(w: ReportWriter, scope3: Scope3Summary) {
+  w.heading("Scope 3 by category", 2)
+  const unit = scope3.unit ? ` (${scope3.unit})` : ""
+  w.table(
+    [
+      { header: "#", width: 0.5, align: "right" },
+      { header: "Category", width: 6 },
+      { header: `Emissions${unit}`, width: 2.5, align: "right" },
+    ],
+    scope3.categories.map((c) => [
+      String(c.n),
+      c.name,
+      c.status === "reported" ? (c.value ?? 0).toLocaleString() : c.status === "excluded" ? "Not relevant" : "Not reported",
+    ])
+  )
+  if (scope3.missing.length) {
+    w.text(`${categoryList(scope3.missing)} ${scope3.missing.length === 1 ? "is" : "are"} neither reported nor explained as not relevant.`, {
+      size: 9,
+      color: MUTED,
+    })
+  }
+}
+
+export async function renderReportPdf(input: ReportInput): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  const cards = summaryCards(input.summary, input.sector)
+  const company = String(cards[0].value || input.fileName || input.pdfId)
+  doc.setTitle(`${company} – ESGsmart analysis`)
+  doc.setAuthor("ESGsmart")
+  doc.setProducer("ESGsmart · Powered by ESGpedia")
+  doc.setCreationDate(input.generatedAt ?? new Date())
+
+  const w = new ReportWriter(
+    doc,
+    await doc.embedFont(StandardFonts.Helvetica),
+    await doc.embedFont(StandardFonts.HelveticaBold),
+    await embedPng(doc, "ESGsmart.png")
+  )
+  w.addPage()
+
+  // Cover block
+  w.text(company, { size: 22, bold: true })
+  w.text(
+    [input.fileName, `Generated ${(input.generatedAt ?? new Date()).toISOString().slice(0, 10)}`].filter(Boolean).join(" · "),
+    { color: MUTED }
+  )
+
+  // Summary
+  w.heading("Summary")
+  if (input.summary) {
+    w.cards(cards)
+    const scope3 = scope3Summary(input.summary)
+    const highlights = summaryHighlights(input.summary, scope3)
+    if (highlights.length) {
+      w.heading("Highlights", 2)
+      w.bullets(highlights)
+    }
+    w.heading("Emissions by scope", 2)
+    w.barChart(emissionsBars(input.summary, scope3))
+    scope3Table(w, scope3)
+    const intensity = intensityLines(input.summary, input.benchmark)
+    if (intensity.length) {
+      w.heading("Intensity metrics", 2)
+      w.bullets(intensity)
+    }
+  } else {
+    w.text("Summary not available.", { color: MUTED })
+  }
+
+  // Benchmarking
+  w.addPage()
+  w.heading("SBTi Benchmarking")
+  if (input.benchmark?.company) {
+    w.heading("Target trajectory", 2)
+    w.lineChart(sbtiTrajectory(input.benchmark.company), 200, pathwayBands(input.benchmark.company))
+    const ambition = ambitionGapLines(input.benchmark.company)
+    if (ambition.length) {
+      w.heading("Science-based ambition (Scope 1+2)", 2)
+      w.bullets(ambition)
+    }
+    const insight = benchmarkInsight(input.benchmark)
+    if (insight) w.text(insight)
+    const companyFrac = asFrac(input.benchmark.company.sbti_scope_1_2_reduction_pct)
+    const sets = peerSets(input.benchmark).map((p) => ({ ...p, pos: companyVsPeers(companyFrac, p.peers) }))
+    const plotted = sets.filter((p) => p.pos.stats)
+    if (plotted.length) {
+      w.heading("Peer distribution (Scope 1+2 reduction)", 2)
+      w.boxPlot(plotted.map((p) => ({ label: p.label, values: reductionValues(p.peers), stats: p.pos.stats!, company: companyFrac })))
+      w.bullets(sets.map((p) => peerStatsLine(p.label, p.pos)))
+    }
+    for (const p of sets) peerTable(w, `Peers ${p.where}`, p.peers)
+  } else {
+    w.text("Benchmark not available.", { color: MUTED })
+  }
+
+  // Gap analysis
+  w.addPage()
+  w.heading("Gap Analysis")
+  const lens = input.lens ?? DEFAULT_LENS
+  const legend = severityLegend(lens)
+  const gap = rowsInLens(Array.isArray(input.gap) ? input.gap : [], lens)
+  w.text(`Framework lens: ${lensName(lens)}`, { size: 9, color: MUTED })
+  if (gap.length) {
+    const counts = countSeverities(gap)
+    for (const p of gapNarrative(gapFacts(gap, lens))) {
+      w.text(p)
+      w.gap(4)
+    }
+    w.heading("Disclosures by severity", 2)
+    w.stackedBars([{ label: "All disclosures", counts: { 0: counts["0"], 1: counts["1"], 2: counts["2"], 3: counts["3"] }, total: gap.length }])
+    w.heading(`Severity by ${getFramework(lens.framework).short} category`, 2)
+    w.stackedBars(severityByCategory(gap, lens, 15).map((g) => ({ label: g.category, counts: g.counts, total: g.total })))
+    w.legend(([0, 1, 2, 3] as Severity[]).map((s) => ({ label: `${s} – ${legend[s]}`, color: SEVERITY_COLOR[s] })))
+
+    // Nine columns need the width of a landscape page
+    w.addPage(true)
+    w.heading("Full Disclosure Mapping")
+    w.table(
+      DISCLOSURE_COLUMNS.map((c) => ({ header: c.header, width: /Question/.test(c.header) ? 2.4 : 1.3 })),
+      gap.map((row) => DISCLOSURE_COLUMNS.map((c) => c.value(row))),
+      { size: 7 }
+    )
+  } else {
+    w.text(`No gap findings within the ${lensName(lens)} lens for this document.`, { color: MUTED })
+  }
+
+  // Chat transcript
+  if (input.transcript?.length) {
+    w.addPage()
+    w.heading("Chat transcript")
+    for (const turn of input.transcript) {
+      w.ensure(30)
+      w.gap(4)
+      w.text(turn.role === "user" ? "You" : "ESGsmart", { size: 9, bold: true, color: turn.role === "user" ? MUTED : BRAND })
+      w.text(turn.content, { size: 9 })
+    }
+  }
+
+  w.finish(await embedPng(doc, "cropped-ESGpedia-favicon-2024-final-32x32.png"))
+  return doc.save()
+}
@@ -0,0 +1,54 @@
+import crypto from "node:crypto"
+import type { PeerGroup } from "@/lib/peer-groups"
+import { getStorage, joinPath, readJSON, withFileLock, writeJSON } from "@/lib/storage"
+
+/** One file per client (see `clientKey`): `{ client, groups: PeerGroup[] }`, oldest first. */
+type PeerGroupFile = { client: string; groups: PeerGroup[]; updatedAt: string }
+
+const PEER_GROUPS_DIR = () => process.env.ESGSMART_PEER_GROUPS_DIR || "dbfs:/tmp/esgsmart_peer_groups"
+
+const MAX_GROUPS = 30
+
+function filePath(client: string) {
+  return joinPath(PEER_GROUPS_DIR(), `${client}.json`)
+}
+
+export async function loadPeerGroups(client: string): Promise<PeerGroup[]> {
+  const r = await readJSON(getStorage(), filePath(client))
+  if (!r.ok) {
+    if (r.status !== 404) console.warn(`[peer-groups] load ${client} failed: ${r.error}`)
+    return []
+  }
+  return Array.isArray(r.data?.groups) ? (r.data.groups as PeerGroup[]) : []
+}
+
+/** The saved group with that id; null when there is none. */
+export async function findPeerGroup(client: string, id: string): Promise<PeerGroup | null> {
+  return (await loadPeerGroups(client)).find((g) => g.id === id) ?? null
+}
+
+async function writePeerGroups(client: string, groups: PeerGroup[]) {
+  const file: PeerGroupFile = { client, groups, updatedAt: new Date().toISOString() }
+  await writeJSON(getStorage(), filePath(client), file)
+}
+
+/** Adds a group, dropping the oldest beyond MAX_GROUPS. */
+export async function addPeerGroup(client: string, group: Omit<PeerGroup, "id" | "createdAt">): Promise<PeerGroup> {
+  const saved: PeerGroup = { ...group, id: crypto.randomUUID(), createdAt: new Date().toISOString() }
+  return withFileLock(filePath(client), async () => {
+    const groups = [...(await loadPeerGroups(client)), saved].slice(-MAX_GROUPS)
+    await writePeerGroups(client, groups)
+    return saved
+  })
+}
+
+/** False when no group has that id. */
+export async function deletePeerGroup(client: string, id: string): Promise<boolean> {
+  return withFileLock(filePath(client), async () => {
+    const groups = await loadPeerGroups(client)
+    const kept = groups.filter((g) => g.id !== id)
+    if (kept.length === groups.length) return false
+    await writePeerGroups(client, kept)
+    return true
+  })
+}
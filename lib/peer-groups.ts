@@ -0,0 +1,150 @@
+import { sectorFor, isSectorId, type SectorId } from "@/lib/sectors"
+import { EMPLOYEE_KEYS, REVENUE_KEYS, pickNumber } from "@/lib/summary"
+
+/**
+ * Custom peer groups. A group narrows the peer universe (every company in the
+ * artifact's `peers_country` and `peers_region`, deduplicated) by sector,
+ * target-year window and size band, or lists hand-picked companies. Groups
+ * are named and saved per client (the reporting company), so they carry over
+ * to that client's later reports. Persistence lives in lib/peer-group-store.
+ */
+
+export const SIZE_METRICS = ["revenue", "employees"] as const
+export type SizeMetric = (typeof SIZE_METRICS)[number]
+
+const SIZE_KEYS: Record<SizeMetric, string[]> = {
+  revenue: REVENUE_KEYS,
+  employees: EMPLOYEE_KEYS,
+}
+
+export type PeerGroupFilter = {
+  sectors: SectorId[] // empty: any sector
+  targetYearFrom: number | null
+  targetYearTo: number | null
+  sizeMetric: SizeMetric | null
+  sizeMin: number | null
+  sizeMax: number | null
+}
+
+export type PeerGroup = {
+  id: string
+  name: string
+  filter: PeerGroupFilter
+  companies: string[] // hand-picked names; when set, the filter is ignored
+  createdAt: string
+}
+
+export const EMPTY_FILTER: PeerGroupFilter = {
+  sectors: [],
+  targetYearFrom: null,
+  targetYearTo: null,
+  sizeMetric: null,
+  sizeMin: null,
+  sizeMax: null,
+}
+
+const nameKey = (p: any) => String(p?.company_name ?? "").trim().toLowerCase()
+
+/** Country and region peers as one list, first occurrence wins. */
+export function peerUniverse(bench: any): any[] {
+  const seen = new Set<string>()
+  const out: any[] = []
+  for (const p of [...(bench?.peers_country || []), ...(bench?.peers_region || [])]) {
+    const k = nameKey(p)
+    if (!k || seen.has(k)) continue
+    seen.add(k)
+    out.push(p)
+  }
+  return out
+}
+
+/** Null when the peer row has no numeric value for the metric (blank counts as none). */
+export function peerSize(peer: any, metric: SizeMetric): number | null {
+  return pickNumber(peer, SIZE_KEYS[metric])
+}
+
+/** Universe members that pass the filter; peers without a value for a bounded field are left out. */
+export function filterPeers(universe: any[], f: PeerGroupFilter): any[] {
+  return universe.filter((p) => {
+    if (f.sectors.length && !f.sectors.includes(sectorFor(p?.sector).id)) return false
+    const ty = Number(p?.sbti_target_year)
+    if ((f.targetYearFrom !== null || f.targetYearTo !== null) && !Number.isFinite(ty)) return false
+    if (f.targetYearFrom !== null && ty < f.targetYearFrom) return false
+    if (f.targetYearTo !== null && ty > f.targetYearTo) return false
+    if (f.sizeMetric && (f.sizeMin !== null || f.sizeMax !== null)) {
+      const size = peerSize(p, f.sizeMetric)
+      if (size === null) return false
+      if (f.sizeMin !== null && size < f.sizeMin) return false
+      if (f.sizeMax !== null && size > f.sizeMax) return false
+    }
+    return true
+  })
+}
+
+export function groupPeers(universe: any[], group: Pick<PeerGroup, "filter" | "companies">): any[] {
+  if (group.companies.length) {
+    const wanted = new Set(group.companies.map((c) => c.trim().toLowerCase()))
+    return universe.filter((p) => wanted.has(nameKey(p)))
+  }
+  return filterPeers(universe, group.filter)
+}
+
+/** The benchmark with the group as its only peer set (see `peerSets` in lib/benchmark). */
+export function withPeerGroup(bench: any, group: PeerGroup | null): any {
+  if (!bench || !group) return bench
+  return { ...bench, peer_group: { id: group.id, name: group.name, peers: groupPeers(peerUniverse(bench), group) } }
+}
+
+/** Storage key for a client's groups: the company name, slugged; null without one. */
+export function clientKey(companyName: unknown): string | null {
+  const slug = String(companyName ?? "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80)
+  return slug || null
+}
+
+/** The client whose groups apply to a report: the benchmarked company, else the one in the summary. */
+export function reportClient(summary: any, bench: any): string | null {
+  return clientKey(bench?.company?.company_name || summary?.company_name || summary?.json_schema?.company_name)
+}
+
+export const isClientKey = (v: unknown): v is string => typeof v === "string" && /^[a-z0-9][a-z0-9-]{0,79}$/.test(v)
+
+const MAX_NAME = 80
+const MAX_COMPANIES = 200
+
+const optNumber = (v: unknown): number | null => {
+  if (v === null || v === undefined || v === "") return null
+  const n = Number(v)
+  return Number.isFinite(n) ? n : null
+}
+
+/** Validates a group from the client; id and createdAt are assigned by the store. */
+export function sanitizePeerGroup(
+  raw: any
+): { ok: true; group: Omit<PeerGroup, "id" | "createdAt"> } | { ok: false; error: string } {
+  const name = String(raw?.name ?? "").trim().slice(0, MAX_NAME)
+  if (!name) return { ok: false, error: "name is required" }
+  const f = raw?.filter ?? {}
+  const filter: PeerGroupFilter = {
+    sectors: Array.isArray(f.sectors) ? f.sectors.filter(isSectorId) : [],
+    targetYearFrom: optNumber(f.targetYearFrom),
+    targetYearTo: optNumber(f.targetYearTo),
+    sizeMetric: SIZE_METRICS.includes(f.sizeMetric) ? f.sizeMetric : null,
+    sizeMin: optNumber(f.sizeMin),
+    sizeMax: optNumber(f.sizeMax),
+  }
+  if (filter.targetYearFrom !== null && filter.targetYearTo !== null && filter.targetYearTo < filter.targetYearFrom) {
+    return { ok: false, error: "targetYearTo must not be before targetYearFrom" }
+  }
+  if (filter.sizeMin !== null && filter.sizeMax !== null && filter.sizeMax < filter.sizeMin) {
+    return { ok: false, error: "sizeMax must not be below sizeMin" }
+  }
+  const companies = Array.isArray(raw?.companies)
+    ? Array.from(new Set(raw.companies.map((c: unknown) => String(c ?? "").trim().slice(0, 200)).filter(Boolean))).slice(0, MAX_COMPANIES)
+    : []
+  return { ok: true, group: { name, filter, companies: companies as string[] } }
+}
@@ -0,0 +1,125 @@
+/**
+ * Progress model for one analysis: the upload (bytes sent, then invoke's
+ * server-side parse, extraction and batch write), the Databricks job run
+ * (from /api/databricks/run-status) and artifact readiness (from /fetch).
+ * Pure functions so the page can recompute stages on every poll.
+ */
+
+export type StageId = "upload" | "submitted" | "job" | "benchmark" | "gap"
+export type StageStatus = "pending" | "active" | "done" | "failed" | "skipped"
+export type Stage = { id: StageId; label: string; status: StageStatus; detail?: string }
+
+export type JobPhase = "queued" | "running" | "succeeded" | "failed"
+export type JobRunState = {
+  phase: JobPhase
+  lifeCycle: string
+  result: string | null
+  message: string | null
+  runPageUrl: string | null
+  tasks: Array<{ key: string; lifeCycle: string; result: string | null; message: string | null }>
+}
+
+export type ArtifactReady = { summary: boolean; benchmark: boolean; gap: boolean }
+
+const QUEUED = new Set(["PENDING", "QUEUED", "BLOCKED", "WAITING_FOR_RETRY"])
+const FAILED_LIFECYCLE = new Set(["INTERNAL_ERROR", "SKIPPED"])
+const FAILED_RESULT = new Set([
+  "FAILED",
+  "TIMEDOUT",
+  "CANCELED",
+  "CANCELLED",
+  "MAXIMUM_CONCURRENT_RUNS_REACHED",
+  "UPSTREAM_FAILED",
+  "UPSTREAM_CANCELED",
+])
+
+/** Normalizes a Jobs 2.1 `runs/get` payload. */
+export function summarizeRun(raw: any): JobRunState {
+  const state = raw?.state || {}
+  const lifeCycle = String(state.life_cycle_state || "PENDING")
+  const result = state.result_state ? String(state.result_state) : null
+  const tasks = (Array.isArray(raw?.tasks) ? raw.tasks : []).map((t: any) => ({
+    key: String(t?.task_key || ""),
+    lifeCycle: String(t?.state?.life_cycle_state || "PENDING"),
+    result: t?.state?.result_state ? String(t.state.result_state) : null,
+    message: t?.state?.state_message || null,
+  }))
+
+  let phase: JobPhase = "running"
+  if (FAILED_LIFECYCLE.has(lifeCycle) || (result && FAILED_RESULT.has(result))) phase = "failed"
+  else if (result === "SUCCESS" || result === "SUCCESS_WITH_FAILURES") phase = "succeeded"
+  else if (QUEUED.has(lifeCycle)) phase = "queued"
+
+  // The run-level message is often empty when a task fails; surface the task's instead
+  const failedTask = tasks.find((t: JobRunState["tasks"][number]) => t.result && FAILED_RESULT.has(t.result))
+  const message = state.state_message || failedTask?.message || null
+
+  return { phase, lifeCycle, result, message, runPageUrl: raw?.run_page_url || null, tasks }
+}
+
+export function buildStages(input: {
+  invoking: boolean
+  upload: { loaded: number; total: number } | null // bytes sent while invoking
+  invoked: boolean
+  runId: number | null
+  job: JobRunState | null
+  ready: ArtifactReady
+  timedOut: boolean
+}): { stages: Stage[]; failed: boolean; failureMessage: string | null } {
+  const { invoking, upload, invoked, runId, job, ready, timedOut } = input
+  // Parsing, extraction and the batch write happen inside the one invoke request, so they are one stage
+  const sent = invoked || (invoking && upload != null && upload.loaded >= upload.total)
+  const stages: Stage[] = [
+    sent
+      ? { id: "upload", label: "PDF uploaded", status: "done" }
+      : {
+          id: "upload",
+          label: "Uploading PDF",
+          status: invoking ? "active" : "pending",
+          detail: invoking && upload?.total ? `${Math.round((upload.loaded / upload.total) * 100)}%` : undefined,
+        },
+    invoked
+      ? { id: "submitted", label: "Submitted", status: "done" }
+      : { id: "submitted", label: "Extracting and submitting", status: sent ? "active" : "pending" },
+  ]
+
+  // Job
+  let jobStage: Stage
+  if (!invoked) jobStage = { id: "job", label: "Job", status: "pending" }
+  else if (runId == null) jobStage = { id: "job", label: "Job", status: "skipped", detail: "No job configured" }
+  else if (!job) jobStage = { id: "job", label: "Job queued", status: "active", detail: `Run ${runId}` }
+  else if (job.phase === "queued") jobStage = { id: "job", label: "Job queued", status: "active", detail: job.lifeCycle }
+  else if (job.phase === "running") {
+    const done = job.tasks.filter((t) => t.lifeCycle === "TERMINATED").length
+    jobStage = {
+      id: "job",
+      label: "Job running",
+      status: "active",
+      detail: job.tasks.length ? `${done}/${job.tasks.length} tasks done` : job.lifeCycle,
+    }
+  } else if (job.phase === "failed") {
+    jobStage = { id: "job", label: "Job terminated", status: "failed", detail: job.result || job.lifeCycle }
+  } else {
+    jobStage = { id: "job", label: "Job terminated", status: "done", detail: job.result || undefined }
+  }
+  stages.push(jobStage)
+
+  const jobFailed = jobStage.status === "failed"
+  const artifactsActive = invoked && !jobFailed && (runId == null || job?.phase === "succeeded" || job?.phase === "running")
+  const artifact = (id: StageId, label: string, isReady: boolean): Stage => ({
+    id,
+    label,
+    status: isReady ? "done" : jobFailed || timedOut ? "failed" : artifactsActive ? "active" : "pending",
+  })
+  stages.push(artifact("benchmark", "Benchmark ready", ready.benchmark))
+  stages.push(artifact("gap", "Gap ready", ready.gap))
+
+  const allReady = ready.summary && ready.benchmark && ready.gap
+  let failureMessage: string | null = null
+  if (!allReady && jobFailed) {
+    failureMessage = job?.message || `Databricks job ${job?.result || job?.lifeCycle || "failed"}`
+  } else if (!allReady && timedOut) {
+    failureMessage = "Timed out waiting for analysis artifacts."
+  }
+  return { stages, failed: failureMessage != null, failureMessage }
+}
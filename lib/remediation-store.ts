@@ -0,0 +1,53 @@
+import { listAnalyses } from "@/lib/analyses"
+import { emptyItem, type ActionItem, type RemediationItem, type RemediationPatch } from "@/lib/remediation"
+import { getStorage, joinPath, readJSON, withFileLock, writeJSON } from "@/lib/storage"
+
+/** One file per report: `{ pdfId, items: { [framework_question_code]: RemediationItem } }`. */
+type RemediationFile = { pdfId: string; items: Record<string, RemediationItem>; updatedAt: string }
+
+const REMEDIATION_DIR = () => process.env.ESGSMART_REMEDIATION_DIR || "dbfs:/tmp/esgsmart_remediation"
+
+function filePath(pdfId: string) {
+  return joinPath(REMEDIATION_DIR(), `${pdfId}.json`)
+}
+
+export async function loadRemediation(pdfId: string): Promise<Record<string, RemediationItem>> {
+  const r = await readJSON(getStorage(), filePath(pdfId))
+  if (!r.ok) {
+    if (r.status !== 404) console.warn(`[remediation] load ${pdfId} failed: ${r.error}`)
+    return {}
+  }
+  const items = r.data?.items
+  return items && typeof items === "object" ? (items as Record<string, RemediationItem>) : {}
+}
+
+/** Merges `patch` into the item for `code`, creating it on first edit. */
+export async function updateRemediation(pdfId: string, code: string, patch: RemediationPatch): Promise<RemediationItem> {
+  return withFileLock(filePath(pdfId), async () => {
+    const items = await loadRemediation(pdfId)
+    const now = new Date().toISOString()
+    const item: RemediationItem = { ...emptyItem(code), ...items[code], ...patch, code, updatedAt: now }
+    const file: RemediationFile = { pdfId, items: { ...items, [code]: item }, updatedAt: now }
+    await writeJSON(getStorage(), filePath(pdfId), file)
+    return item
+  })
+}
+
+/**
+ * Tracked items across every report in the analysis history, soonest due
+ * first. `assignee` matches case-insensitively.
+ */
+export async function listActions(opts: { assignee?: string | null } = {}): Promise<ActionItem[]> {
+  const who = opts.assignee?.trim().toLowerCase() || null
+  const analyses = await listAnalyses(200)
+  const perReport = await Promise.all(
+    analyses.map(async (a) => {
+      const items = await loadRemediation(a.pdfId)
+      return Object.values(items).map((it): ActionItem => ({ ...it, pdfId: a.pdfId, company: a.company, fileName: a.fileName }))
+    })
+  )
+  return perReport
+    .flat()
+    .filter((it) => !who || (it.assignee || "").toLowerCase() === who)
+    .sort((a, b) => (a.dueDate || "9999").localeCompare(b.dueDate || "9999") || a.code.localeCompare(b.code, undefined, { numeric: true }))
+}
@@ -0,0 +1,91 @@
+import { lensCategoryOf, type Lens } from "@/lib/frameworks"
+
+/**
+ * Remediation tracking for gap rows: who is closing each missing disclosure,
+ * where it stands and by when. Items are keyed by pdfId +
+ * `framework_question_code`; rows nobody has touched yet count as "open".
+ * Persistence lives in lib/remediation-store (server only).
+ */
+
+export const REMEDIATION_STATUSES = ["open", "in progress", "data requested", "closed"] as const
+export type RemediationStatus = (typeof REMEDIATION_STATUSES)[number]
+
+export type RemediationItem = {
+  code: string // framework_question_code
+  question: string
+  severity: number | null
+  assignee: string | null
+  status: RemediationStatus
+  dueDate: string | null // YYYY-MM-DD
+  notes: string
+  updatedAt: string
+}
+
+export type RemediationPatch = Partial<Pick<RemediationItem, "question" | "severity" | "assignee" | "status" | "dueDate" | "notes">>
+
+/** An item on the cross-report "My actions" board. */
+export type ActionItem = RemediationItem & { pdfId: string; company: string | null; fileName: string | null }
+
+export function isRemediationStatus(v: unknown): v is RemediationStatus {
+  return REMEDIATION_STATUSES.includes(v as RemediationStatus)
+}
+
+const MAX_NOTES = 4000
+
+/** Validates a client patch; unknown fields are dropped. */
+export function sanitizePatch(raw: any): { ok: true; patch: RemediationPatch } | { ok: false; error: string } {
+  const patch: RemediationPatch = {}
+  if (raw?.status !== undefined) {
+    if (!isRemediationStatus(raw.status)) return { ok: false, error: `status must be one of: ${REMEDIATION_STATUSES.join(", ")}` }
+    patch.status = raw.status
+  }
+  if (raw?.dueDate !== undefined) {
+    if (raw.dueDate !== null && raw.dueDate !== "" && !/^\d{4}-\d{2}-\d{2}$/.test(String(raw.dueDate))) {
+      return { ok: false, error: "dueDate must be YYYY-MM-DD" }
+    }
+    patch.dueDate = raw.dueDate || null
+  }
+  if (raw?.assignee !== undefined) patch.assignee = String(raw.assignee ?? "").trim().slice(0, 120) || null
+  if (raw?.notes !== undefined) patch.notes = String(raw.notes ?? "").slice(0, MAX_NOTES)
+  if (raw?.question !== undefined) patch.question = String(raw.question ?? "").slice(0, 500)
+  if (raw?.severity !== undefined) {
+    const n = Number(raw.severity)
+    patch.severity = raw.severity === null || !Number.isFinite(n) ? null : n
+  }
+  return { ok: true, patch }
+}
+
+export function emptyItem(code: string): RemediationItem {
+  return { code, question: "", severity: null, assignee: null, status: "open", dueDate: null, notes: "", updatedAt: "" }
+}
+
+/** Past its due date and not closed. `today` is YYYY-MM-DD. */
+export function isOverdue(item: Pick<RemediationItem, "status" | "dueDate">, today = new Date().toISOString().slice(0, 10)) {
+  return item.status !== "closed" && !!item.dueDate && item.dueDate < today
+}
+
+export type RemediationRollup = { total: number; closed: number; inProgress: number; overdue: number }
+
+/**
+ * Per lens category: how many gap codes (severity 1–3) there are and how many
+ * are closed or being worked on. Codes outside the lens are skipped.
+ */
+export function rollupByCategory(rows: any[], items: Record<string, RemediationItem>, lens: Lens): Record<string, RemediationRollup> {
+  const seen = new Set<string>()
+  const out: Record<string, RemediationRollup> = {}
+  for (const r of rows) {
+    const code = String(r?.framework_question_code || "").trim()
+    const sev = Number(r?.severity ?? 3)
+    if (!code || seen.has(code) || !(sev > 0)) continue
+    seen.add(code)
+    const category = lensCategoryOf(r, lens)
+    if (category === null) continue
+    const roll = (out[category] ??= { total: 0, closed: 0, inProgress: 0, overdue: 0 })
+    const item = items[code]
+    roll.total++
+    if (item?.status === "closed") roll.closed++
+    else if (item && item.status !== "open") roll.inProgress++
+    if (item && isOverdue(item)) roll.overdue++
+  }
+  return out
+}
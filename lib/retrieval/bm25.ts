@@ -0,0 +1,50 @@
+import type { Passage, Retriever, ScoredPassage } from "./types"
+
+const STOPWORDS = new Set(
+  "a an and are as at be by can did do does for from has have how in is it its of on or our that the their there these this to was we were what when which who will with".split(
+    " "
+  )
+)
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:[.-][a-z0-9]+)*/g) || [])
+    .filter((t) => !STOPWORDS.has(t))
+    .map((t) => (t.length > 4 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t))
+}
+
+/** Okapi BM25 over in-memory passages (k1=1.2, b=0.75). */
+export class Bm25Retriever implements Retriever {
+  private docs: Array<{ tf: Map<string, number>; len: number }>
+  private df = new Map<string, number>()
+  private avgLen: number
+
+  constructor(private passages: Passage[], private k1 = 1.2, private b = 0.75) {
+    this.docs = passages.map((p) => {
+      const tf = new Map<string, number>()
+      const toks = tokenize(`${p.section ?? ""} ${p.text}`)
+      for (const t of toks) tf.set(t, (tf.get(t) || 0) + 1)
+      for (const t of tf.keys()) this.df.set(t, (this.df.get(t) || 0) + 1)
+      return { tf, len: toks.length }
+    })
+    this.avgLen = this.docs.reduce((a, d) => a + d.len, 0) / (this.docs.length || 1)
+  }
+
+  async search(query: string, k: number): Promise<ScoredPassage[]> {
+    const terms = Array.from(new Set(tokenize(query)))
+    if (!terms.length) return []
+    const N = this.docs.length
+    const scored: ScoredPassage[] = []
+    this.docs.forEach((d, i) => {
+      let score = 0
+      for (const t of terms) {
+        const f = d.tf.get(t)
+        if (!f) continue
+        const n = this.df.get(t) || 0
+        const idf = Math.log(1 + (N - n + 0.5) / (n + 0.5))
+        score += (idf * f * (this.k1 + 1)) / (f + this.k1 * (1 - this.b + (this.b * d.len) / (this.avgLen || 1)))
+      }
+      if (score > 0) scored.push({ ...this.passages[i], score })
+    })
+    return scored.sort((a, b) => b.score - a.score).slice(0, k)
+  }
+}
@@ -0,0 +1,92 @@
+import type { Passage } from "./types"
+
+const TARGET_CHARS = 900
+const MAX_CHARS = 1400
+
+// Short, unpunctuated lines that look like "3.2 Methodology" or "CLIMATE RISK"
+function isHeading(line: string): boolean {
+  const l = line.trim()
+  if (l.length < 4 || l.length > 80 || /[.;,:]$/.test(l)) return false
+  if (/^\d+(\.\d+)*\s+\S/.test(l)) return true
+  const letters = l.replace(/[^A-Za-z]/g, "")
+  if (letters.length >= 4 && letters === letters.toUpperCase()) return true
+  const words = l.split(/\s+/)
+  return words.length <= 8 && words.every((w) => /^[A-Z0-9&(]/.test(w) || w.length <= 3)
+}
+
+// Splits an over-long paragraph on sentence boundaries, hard-cutting as a last resort
+function splitLong(para: string): string[] {
+  if (para.length <= MAX_CHARS) return [para]
+  const sentences = para.match(/[^.!?]+[.!?]+(\s+|$)|[^.!?]+$/g) || [para]
+  const out: string[] = []
+  let cur = ""
+  for (const s of sentences) {
+    if (cur && cur.length + s.length > TARGET_CHARS) {
+      out.push(cur.trim())
+      cur = ""
+    }
+    cur += s
+    while (cur.length > MAX_CHARS) {
+      out.push(cur.slice(0, MAX_CHARS).trim())
+      cur = cur.slice(MAX_CHARS)
+    }
+  }
+  if (cur.trim()) out.push(cur.trim())
+  return out
+}
+
+function chunkPage(text: string, page: number | null, state: { section: string | null }, out: Passage[]) {
+  const paragraphs = text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/[ \t]+/g, " ").trim())
+    .filter(Boolean)
+
+  let buf: string[] = []
+  let bufLen = 0
+  let bufSection = state.section
+  const flush = () => {
+    const t = buf.join("\n").trim()
+    if (t) out.push({ id: `c${out.length}`, text: t, page, section: bufSection })
+    buf = []
+    bufLen = 0
+    bufSection = state.section
+  }
+
+  for (const para of paragraphs) {
+    const firstLine = para.split("\n")[0]
+    if (isHeading(firstLine)) {
+      // A new section starts a new passage so retrieval keeps headings with their body
+      if (bufLen > TARGET_CHARS / 3) flush()
+      state.section = firstLine.trim()
+      if (!buf.length) bufSection = state.section
+    }
+    for (const piece of splitLong(para)) {
+      if (bufLen && bufLen + piece.length > TARGET_CHARS) flush()
+      buf.push(piece)
+      bufLen += piece.length
+    }
+  }
+  flush()
+}
+
+/**
+ * Chunks report text into retrieval passages of ~900 chars, keeping page and
+ * section provenance. Pass `pages` when page boundaries are known; otherwise
+ * form feeds in `text` are treated as page breaks.
+ */
+export function chunkReport(input: { text?: string; pages?: string[] }): Passage[] {
+  const out: Passage[] = []
+  const state = { section: null as string | null }
+  if (input.pages?.length) {
+    input.pages.forEach((p, i) => chunkPage(p || "", i + 1, state, out))
+    return out
+  }
+  const text = input.text || ""
+  if (text.includes("\f")) {
+    text.split("\f").forEach((p, i) => chunkPage(p, i + 1, state, out))
+  } else {
+    chunkPage(text, null, state, out)
+  }
+  return out
+}
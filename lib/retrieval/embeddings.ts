@@ -0,0 +1,59 @@
+import type { EmbeddingProvider, Passage, Retriever, ScoredPassage } from "./types"
+
+const BATCH = 32
+
+/** Databricks serving endpoint with the OpenAI-style embeddings contract. */
+export class DatabricksEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string
+
+  constructor(private host: string, private token: string, private endpoint: string) {
+    this.name = `databricks:${endpoint}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const url = `${this.host.replace(/\/+$/, "")}/serving-endpoints/${this.endpoint}/invocations`
+    const out: number[][] = []
+    for (let i = 0; i < texts.length; i += BATCH) {
+      const r = await fetch(url, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${this.token}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ input: texts.slice(i, i + BATCH) }),
+      })
+      if (!r.ok) throw new Error(`Embedding endpoint error ${r.status}: ${(await r.text()).slice(0, 300)}`)
+      const j = await r.json()
+      const rows: any[] = j?.data ?? j?.predictions ?? []
+      for (const row of rows) out.push(Array.isArray(row) ? row : row?.embedding ?? [])
+    }
+    if (out.length !== texts.length) throw new Error("Embedding endpoint returned wrong number of vectors")
+    return out
+  }
+}
+
+function normalize(v: number[]): number[] {
+  const n = Math.sqrt(v.reduce((a, x) => a + x * x, 0)) || 1
+  return v.map((x) => x / n)
+}
+
+/** Cosine-similarity search; passage vectors are computed once, on first search. */
+export class EmbeddingRetriever implements Retriever {
+  private vectors: Promise<number[][]> | null = null
+
+  constructor(private passages: Passage[], private provider: EmbeddingProvider) {}
+
+  async search(query: string, k: number): Promise<ScoredPassage[]> {
+    if (!this.passages.length) return []
+    if (!this.vectors) {
+      this.vectors = this.provider
+        .embed(this.passages.map((p) => (p.section ? `${p.section}\n${p.text}` : p.text)))
+        .then((vs) => vs.map(normalize))
+      // Let a failed build be retried next time instead of caching the rejection
+      this.vectors.catch(() => { this.vectors = null })
+    }
+    const [vectors, [q]] = await Promise.all([this.vectors, this.provider.embed([query])])
+    const qn = normalize(q)
+    return vectors
+      .map((v, i) => ({ ...this.passages[i], score: v.reduce((a, x, j) => a + x * (qn[j] ?? 0), 0) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+  }
+}
@@ -0,0 +1,80 @@
+import crypto from "node:crypto"
+import { Bm25Retriever } from "./bm25"
+import { chunkReport } from "./chunk"
+import { DatabricksEmbeddingProvider, EmbeddingRetriever } from "./embeddings"
+import type { EmbeddingProvider, Passage, Retriever, ScoredPassage } from "./types"
+
+export type { EmbeddingProvider, Passage, Retriever, ScoredPassage } from "./types"
+export { chunkReport } from "./chunk"
+export { Bm25Retriever, tokenize } from "./bm25"
+
+const TOP_K = () => Number(process.env.RETRIEVAL_TOP_K) || 6
+const CACHE_SIZE = 20
+
+/**
+ * Embedding provider chosen by RETRIEVAL_PROVIDER:
+ *   - "bm25" (default): no embeddings, lexical BM25 only
+ *   - "databricks": DATABRICKS_EMBEDDING_ENDPOINT (default databricks-bge-large-en)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  const kind = (process.env.RETRIEVAL_PROVIDER || "bm25").toLowerCase()
+  if (kind === "bm25") return null
+  if (kind !== "databricks") throw new Error(`Unknown RETRIEVAL_PROVIDER: ${kind}`)
+  const host = process.env.DATABRICKS_HOST
+  const token = process.env.DATABRICKS_TOKEN
+  if (!host || !token) throw new Error("Missing env: DATABRICKS_HOST / DATABRICKS_TOKEN")
+  return new DatabricksEmbeddingProvider(
+    host,
+    token,
+    process.env.DATABRICKS_EMBEDDING_ENDPOINT || "databricks-bge-large-en"
+  )
+}
+
+type Entry = { passages: Passage[]; lexical: Retriever; dense: Retriever | null }
+
+// Small in-process LRU keyed by report text hash; rebuilt on cold starts
+const cache = new Map<string, Entry>()
+
+function indexFor(input: { text?: string; pages?: string[] }): Entry {
+  const key = crypto
+    .createHash("sha256")
+    .update(input.pages ? input.pages.join("\f") : input.text || "")
+    .digest("hex")
+  const hit = cache.get(key)
+  if (hit) {
+    cache.delete(key)
+    cache.set(key, hit)
+    return hit
+  }
+  const passages = chunkReport(input)
+  const provider = getEmbeddingProvider()
+  const entry: Entry = {
+    passages,
+    lexical: new Bm25Retriever(passages),
+    dense: provider ? new EmbeddingRetriever(passages, provider) : null,
+  }
+  cache.set(key, entry)
+  if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value as string)
+  return entry
+}
+
+/**
+ * Top-k passages of the report relevant to `query`. Uses the embedding
+ * provider when configured, falling back to BM25 if it fails.
+ */
+export async function retrievePassages(
+  input: { text?: string; pages?: string[] },
+  query: string,
+  k: number = TOP_K()
+): Promise<ScoredPassage[]> {
+  if (!(input.text || input.pages?.length) || !query.trim()) return []
+  const entry = indexFor(input)
+  if (entry.dense) {
+    try {
+      return await entry.dense.search(query, k)
+    } catch (err) {
+      console.warn("[retrieval] embedding search failed, using BM25:", err)
+    }
+  }
+  return entry.lexical.search(query, k)
+}
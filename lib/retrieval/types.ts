@@ -0,0 +1,20 @@
+export type Passage = {
+  id: string
+  text: string
+  /** 1-based PDF page, when the source text carried page boundaries */
+  page: number | null
+  /** Nearest heading-like line above the passage, if any */
+  section: string | null
+}
+
+export type ScoredPassage = Passage & { score: number }
+
+export interface Retriever {
+  search(query: string, k: number): Promise<ScoredPassage[]>
+}
+
+/** Turns texts into dense vectors; one vector per input, same order. */
+export interface EmbeddingProvider {
+  readonly name: string
+  embed(texts: string[]): Promise<number[][]>
+}
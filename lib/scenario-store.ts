@@ -0,0 +1,50 @@
+import crypto from "node:crypto"
+import type { TargetScenario } from "@/lib/scenarios"
+import { getStorage, joinPath, readJSON, withFileLock, writeJSON } from "@/lib/storage"
+
+/** One file per report: `{ pdfId, scenarios: TargetScenario[] }`, oldest first. */
+type ScenarioFile = { pdfId: string; scenarios: TargetScenario[]; updatedAt: string }
+
+const SCENARIOS_DIR = () => process.env.ESGSMART_SCENARIOS_DIR || "dbfs:/tmp/esgsmart_scenarios"
+
+// Plenty for side-by-side comparison; stops a runaway client growing the file
+const MAX_SCENARIOS = 20
+
+function filePath(pdfId: string) {
+  return joinPath(SCENARIOS_DIR(), `${pdfId}.json`)
+}
+
+export async function loadScenarios(pdfId: string): Promise<TargetScenario[]> {
+  const r = await readJSON(getStorage(), filePath(pdfId))
+  if (!r.ok) {
+    if (r.status !== 404) console.warn(`[scenarios] load ${pdfId} failed: ${r.error}`)
+    return []
+  }
+  return Array.isArray(r.data?.scenarios) ? (r.data.scenarios as TargetScenario[]) : []
+}
+
+async function writeScenarios(pdfId: string, scenarios: TargetScenario[]) {
+  const file: ScenarioFile = { pdfId, scenarios, updatedAt: new Date().toISOString() }
+  await writeJSON(getStorage(), filePath(pdfId), file)
+}
+
+/** Adds a scenario, dropping the oldest beyond MAX_SCENARIOS. */
+export async function addScenario(pdfId: string, scenario: Omit<TargetScenario, "id" | "createdAt">): Promise<TargetScenario> {
+  const saved: TargetScenario = { ...scenario, id: crypto.randomUUID(), createdAt: new Date().toISOString() }
+  return withFileLock(filePath(pdfId), async () => {
+    const scenarios = [...(await loadScenarios(pdfId)), saved].slice(-MAX_SCENARIOS)
+    await writeScenarios(pdfId, scenarios)
+    return saved
+  })
+}
+
+/** False when no scenario has that id. */
+export async function deleteScenario(pdfId: string, id: string): Promise<boolean> {
+  return withFileLock(filePath(pdfId), async () => {
+    const scenarios = await loadScenarios(pdfId)
+    const kept = scenarios.filter((s) => s.id !== id)
+    if (kept.length === scenarios.length) return false
+    await writeScenarios(pdfId, kept)
+    return true
+  })
+}
@@ -0,0 +1,108 @@
+import { asFrac, companyVsPeers, peerSets, sbtiTrajectory, type CompanyVsPeers } from "@/lib/benchmark"
+import { ambitionGaps } from "@/lib/pathways"
+
+/**
+ * What-if targets for the Benchmarking tab. A scenario overrides the base
+ * year, target year, Scope 1+2 reduction and scope coverage of the
+ * artifact's company row; everything downstream (trajectory, pathway bands,
+ * insight wording, peer percentiles) is recomputed from that modified row.
+ * Base-year emissions stay the reported baseline: the artifact has no
+ * emissions for other years. Persistence lives in lib/scenario-store.
+ */
+
+export const SCENARIO_COVERAGES = ["1+2", "1+2+3"] as const
+export type ScenarioCoverage = (typeof SCENARIO_COVERAGES)[number]
+
+export type TargetScenario = {
+  id: string
+  name: string
+  baseYear: number
+  targetYear: number
+  reduction: number // 0..1 of base-year emissions
+  coverage: ScenarioCoverage // "1+2+3" applies the same cut to Scope 3
+  createdAt: string
+}
+
+export const MIN_YEAR = 2010
+export const MAX_YEAR = 2050
+
+const isYear = (n: unknown): n is number => Number.isInteger(n) && (n as number) >= MIN_YEAR && (n as number) <= MAX_YEAR
+
+/** The artifact's own target as a scenario; null when it has no base/target year. */
+export function originalScenario(company: any): TargetScenario | null {
+  const c = company || {}
+  const baseYear = Number(c.sbti_start_year)
+  const targetYear = Number(c.sbti_target_year)
+  if (!Number.isFinite(baseYear) || !Number.isFinite(targetYear) || targetYear <= baseYear) return null
+  const s12 = sbtiTrajectory(c).find((s) => s.name === "Scope 1+2")?.points ?? []
+  const derived = s12.length && s12[0].y > 0 ? 1 - s12[s12.length - 1].y / s12[0].y : null
+  const hasScope3 = c.sbti_scope_3_target != null || c.sbti_scope_3_reduction_pct != null
+  return {
+    id: "original",
+    name: "Reported target",
+    baseYear,
+    targetYear,
+    reduction: asFrac(c.sbti_scope_1_2_reduction_pct) ?? derived ?? 0,
+    coverage: hasScope3 ? "1+2+3" : "1+2",
+    createdAt: "",
+  }
+}
+
+/** The company row with the scenario's target in place of the reported one. */
+export function scenarioCompany(company: any, s: TargetScenario): any {
+  const withScope3 = s.coverage === "1+2+3"
+  return {
+    ...company,
+    sbti_start_year: s.baseYear,
+    sbti_target_year: s.targetYear,
+    sbti_scope_1_2_reduction_pct: s.reduction,
+    // Explicit targets would win over the reduction in sbtiTrajectory
+    sbti_scope_1_target: null,
+    sbti_scope_2_target: null,
+    sbti_scope_1_2_target: null,
+    sbti_scope_3_target: null,
+    sbti_scope_3_reduction_pct: withScope3 ? s.reduction : null,
+    sbti_scope_3_start_year: s.baseYear,
+    sbti_scope_3_target_year: s.targetYear,
+  }
+}
+
+export type ScenarioOutcome = {
+  reduction: number
+  annualRate: number // average cut per year, 0..1 of base
+  targetEmissions: number | null // Scope 1+2 in the target year
+  peers: Array<{ label: string; position: CompanyVsPeers }> // one per peer set
+  gap15Pp: number | null // percentage points short of 1.5°C; <= 0 when aligned
+}
+
+/** Headline numbers for a scenario against the peer sets in `bench` (sector-narrowed or a custom group). */
+export function scenarioOutcome(bench: any, s: TargetScenario): ScenarioOutcome {
+  const company = scenarioCompany(bench?.company, s)
+  const s12 = sbtiTrajectory(company).find((x) => x.name === "Scope 1+2")?.points ?? []
+  const gap15 = ambitionGaps(company).find((g) => g.pathway.id === "1.5c")
+  return {
+    reduction: s.reduction,
+    annualRate: s.reduction / (s.targetYear - s.baseYear),
+    targetEmissions: s12.length ? s12[s12.length - 1].y : null,
+    peers: peerSets(bench).map((p) => ({ label: p.label, position: companyVsPeers(s.reduction, p.peers) })),
+    gap15Pp: gap15?.gapPp ?? null,
+  }
+}
+
+const MAX_NAME = 80
+
+/** Validates a scenario from the client; id and createdAt are assigned by the store. */
+export function sanitizeScenario(
+  raw: any
+): { ok: true; scenario: Omit<TargetScenario, "id" | "createdAt"> } | { ok: false; error: string } {
+  const name = String(raw?.name ?? "").trim().slice(0, MAX_NAME)
+  if (!name) return { ok: false, error: "name is required" }
+  const baseYear = Number(raw?.baseYear)
+  const targetYear = Number(raw?.targetYear)
+  if (!isYear(baseYear) || !isYear(targetYear)) return { ok: false, error: `baseYear and targetYear must be years between ${MIN_YEAR} and ${MAX_YEAR}` }
+  if (targetYear <= baseYear) return { ok: false, error: "targetYear must be after baseYear" }
+  const reduction = Number(raw?.reduction)
+  if (!Number.isFinite(reduction) || reduction < 0 || reduction > 1) return { ok: false, error: "reduction must be between 0 and 1" }
+  const coverage = SCENARIO_COVERAGES.includes(raw?.coverage) ? (raw.coverage as ScenarioCoverage) : "1+2"
+  return { ok: true, scenario: { name, baseYear, targetYear, reduction, coverage } }
+}
@@ -0,0 +1,94 @@
+import { pick, pickNumber, toNumber } from "@/lib/summary"
+
+/**
+ * Scope 3 emissions from the summary row: the total and the 15 GHG Protocol
+ * categories. Category values arrive either as flat columns
+ * (`scope_3_category_6`, `Scope3_cat6`) or as a `scope_3_categories`
+ * object/array, depending on the model version.
+ */
+
+export const SCOPE3_CATEGORIES: Array<{ n: number; name: string }> = [
+  { n: 1, name: "Purchased goods and services" },
+  { n: 2, name: "Capital goods" },
+  { n: 3, name: "Fuel- and energy-related activities" },
+  { n: 4, name: "Upstream transportation and distribution" },
+  { n: 5, name: "Waste generated in operations" },
+  { n: 6, name: "Business travel" },
+  { n: 7, name: "Employee commuting" },
+  { n: 8, name: "Upstream leased assets" },
+  { n: 9, name: "Downstream transportation and distribution" },
+  { n: 10, name: "Processing of sold products" },
+  { n: 11, name: "Use of sold products" },
+  { n: 12, name: "End-of-life treatment of sold products" },
+  { n: 13, name: "Downstream leased assets" },
+  { n: 14, name: "Franchises" },
+  { n: 15, name: "Investments" },
+]
+
+export const SCOPE3_KEYS = ["Scope3", "scope_3", "Scope 3", "scope_3_emissions"]
+const UNIT_KEYS = ["Scope3_unit", "scope_3_unit", "Scope 3 unit"]
+
+// "Not relevant", "N/A", "excluded": the report addresses the category but gives no figure
+const EXCLUDED = /not\s*(relevant|applicable|material)|^n\/?a$|exclud/i
+
+// reported: a figure; excluded: stated as not relevant; missing: not mentioned
+export type Scope3Status = "reported" | "excluded" | "missing"
+
+export type Scope3Category = { n: number; name: string; value: number | null; status: Scope3Status }
+
+export type Scope3Summary = {
+  total: number | null
+  totalDerived: boolean // summed from categories because no total was extracted
+  unit: string
+  categories: Scope3Category[]
+  missing: number[] // category numbers with no figure and no exclusion
+}
+
+// Nested `scope_3_categories` as { "6": v } / { "Business travel": v } or [{ category, value }]
+function nestedValue(nested: any, n: number, name: string): unknown {
+  if (Array.isArray(nested)) {
+    const hit = nested.find((e) => {
+      const c = e?.category ?? e?.n ?? e?.name
+      return Number(c) === n || String(c).toLowerCase() === name.toLowerCase()
+    })
+    return hit?.value ?? hit?.emissions
+  }
+  if (nested && typeof nested === "object") {
+    return pick(nested, [String(n), `category_${n}`, `cat${n}`, name], undefined)
+  }
+  return undefined
+}
+
+function categoryValue(row: any, n: number, name: string): unknown {
+  const flat = pick(row, [`scope_3_category_${n}`, `Scope3_cat${n}`, `scope3_cat_${n}`], undefined)
+  if (flat !== undefined) return flat
+  return nestedValue(row?.scope_3_categories ?? row?.Scope3_categories, n, name)
+}
+
+export function scope3Summary(row: any): Scope3Summary {
+  const s = row || {}
+  const categories: Scope3Category[] = SCOPE3_CATEGORIES.map(({ n, name }) => {
+    const raw = categoryValue(s, n, name)
+    const value = toNumber(raw)
+    if (value !== null) return { n, name, value, status: "reported" }
+    const excluded = typeof raw === "string" && EXCLUDED.test(raw.trim())
+    return { n, name, value: null, status: excluded ? "excluded" : "missing" }
+  })
+  const reported = categories.filter((c) => c.status === "reported")
+  const extracted = pickNumber(s, SCOPE3_KEYS)
+  const total = extracted ?? (reported.length ? reported.reduce((a, c) => a + (c.value ?? 0), 0) : null)
+  return {
+    total,
+    totalDerived: extracted === null && total !== null,
+    unit: pick<string>(s, UNIT_KEYS, ""),
+    categories,
+    missing: categories.filter((c) => c.status === "missing").map((c) => c.n),
+  }
+}
+
+/** "Categories 4, 8 and 13" style list of category numbers. */
+export function categoryList(ns: number[]): string {
+  if (!ns.length) return ""
+  const label = ns.length === 1 ? "Category" : "Categories"
+  return ns.length === 1 ? `${label} ${ns[0]}` : `${label} ${ns.slice(0, -1).join(", ")} and ${ns[ns.length - 1]}`
+}
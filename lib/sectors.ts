@@ -0,0 +1,162 @@
+import type { Lens, OverlayId } from "@/lib/frameworks"
+import { pick } from "@/lib/summary"
+
+/**
+ * Sector model. The extracted `sector` field (or a manual override saved on
+ * the analysis record) selects a profile, which decides the default sector
+ * overlay for the gap lens, which benchmark peers count as comparable, the
+ * sector KPIs on the summary, the quick questions and the assistant persona.
+ */
+
+export type SectorId = "real-estate" | "banking" | "manufacturing" | "general"
+
+export type SectorKpi = { label: string; keys: string[]; unitKeys?: string[] }
+
+export type SectorProfile = {
+  id: SectorId
+  name: string
+  match: RegExp | null // against extracted and peer `sector` strings; null for the fallback profile
+  overlay: OverlayId
+  persona: string // "You are an ESG reporting assistant for a Singapore <persona>."
+  kpis: SectorKpi[]
+  quickQuestions: string[]
+}
+
+export const SECTORS: SectorProfile[] = [
+  {
+    id: "real-estate",
+    name: "Real Estate",
+    match: /real\s*estate|\breits?\b|propert|landlord|hospitality/i,
+    overlay: "ifrs-re",
+    persona: "real estate company or REIT",
+    kpis: [
+      { label: "Energy intensity", keys: ["energy_intensity", "Energy_intensity", "building_energy_intensity"], unitKeys: ["energy_intensity_unit", "Energy_intensity_unit"] },
+      { label: "Green-certified floor area", keys: ["green_certified_floor_area_pct", "green_building_pct", "certified_floor_area"] },
+      { label: "GRESB score", keys: ["gresb_score", "GRESB"] },
+      { label: "Water intensity", keys: ["water_intensity", "Water_intensity"], unitKeys: ["water_intensity_unit"] },
+    ],
+    quickQuestions: [
+      "Does Singapore mandate GRI-aligned disclosures for real estate companies?",
+      "How does our building energy intensity compare with the IFRS RE metrics we should report?",
+      "Are there peers with similar revenue or size that have more aggressive targets?",
+      "Which missing disclosures can we address with data we already have internally?",
+    ],
+  },
+  {
+    id: "banking",
+    name: "Banking & Financials",
+    match: /bank|financ|insur|asset\s*manag|capital\s*market|lending/i,
+    overlay: "sasb-fn-cb",
+    persona: "bank",
+    kpis: [
+      { label: "Financed emissions", keys: ["financed_emissions", "scope_3_category_15", "Scope3_cat15"], unitKeys: ["financed_emissions_unit"] },
+      { label: "Sustainable finance", keys: ["sustainable_finance_volume", "green_loans", "sustainable_financing"], unitKeys: ["sustainable_finance_unit"] },
+      { label: "Fossil fuel exposure", keys: ["fossil_fuel_exposure_pct", "fossil_fuel_exposure"] },
+      { label: "Data breaches", keys: ["data_breaches", "number_of_data_breaches"] },
+    ],
+    quickQuestions: [
+      "What do MAS environmental risk management guidelines expect us to disclose?",
+      "How complete is our financed emissions (Scope 3 category 15) disclosure?",
+      "Are there peer banks with more aggressive SBTi targets?",
+      "Which missing disclosures can we address with data we already have internally?",
+    ],
+  },
+  {
+    id: "manufacturing",
+    name: "Manufacturing & Industrials",
+    match: /manufactur|industrial|machinery|chemical|semiconductor|electronic|engineering|materials|steel|cement/i,
+    overlay: "sasb-rt-ig",
+    persona: "manufacturer",
+    kpis: [
+      { label: "Energy consumption", keys: ["Electricity", "energy_consumption", "total_energy"], unitKeys: ["Electricity_unit", "energy_unit"] },
+      { label: "Water withdrawal", keys: ["Water", "water_withdrawal"], unitKeys: ["Water_unit"] },
+      { label: "Waste generated", keys: ["waste_generated", "Waste", "total_waste"], unitKeys: ["Waste_unit", "waste_unit"] },
+      { label: "Lost-time injury rate", keys: ["ltifr", "LTIFR", "lost_time_injury_rate"] },
+    ],
+    quickQuestions: [
+      "Which SASB industrial disclosures are we missing?",
+      "How does our energy and waste reporting compare with peers?",
+      "Are there peers with similar revenue or size that have more aggressive targets?",
+      "Which missing disclosures can we address with data we already have internally?",
+    ],
+  },
+  {
+    id: "general",
+    name: "General",
+    match: null,
+    overlay: "none",
+    persona: "listed company",
+    kpis: [
+      { label: "Energy consumption", keys: ["Electricity", "energy_consumption"], unitKeys: ["Electricity_unit"] },
+      { label: "Water", keys: ["Water"], unitKeys: ["Water_unit"] },
+    ],
+    quickQuestions: [
+      "Does Singapore mandate GRI-aligned disclosures for listed companies?",
+      "Are there peers with similar revenue or size that have more aggressive targets?",
+      "Which missing disclosures can we address with data we already have internally?",
+    ],
+  },
+]
+
+export function isSectorId(v: unknown): v is SectorId {
+  return SECTORS.some((s) => s.id === v)
+}
+
+export function getSector(id: SectorId): SectorProfile {
+  return SECTORS.find((s) => s.id === id) ?? SECTORS[SECTORS.length - 1]
+}
+
+/** Profile for a free-text sector ("REITs", "Commercial Banks", ...); "general" when nothing matches. */
+export function sectorFor(text: string | null | undefined): SectorProfile {
+  const t = String(text || "").trim()
+  return (t && SECTORS.find((s) => s.match?.test(t))) || getSector("general")
+}
+
+export type ResolvedSector = {
+  profile: SectorProfile
+  extracted: string | null // sector as extracted from the report
+  overridden: boolean
+}
+
+/** The override wins; otherwise the summary's (or benchmark company's) extracted sector. */
+export function resolveSector(summary: any, override?: SectorId | null, benchCompany?: any): ResolvedSector {
+  const extracted =
+    pick<string | null>(summary, ["sector"], null) ??
+    pick<string | null>(summary?.json_schema, ["sector"], null) ??
+    pick<string | null>(benchCompany, ["sector"], null)
+  if (override && isSectorId(override)) return { profile: getSector(override), extracted, overridden: true }
+  return { profile: sectorFor(extracted), extracted, overridden: false }
+}
+
+/** GRI with the profile's sector overlay; used until a lens is picked for the analysis. */
+export function sectorLens(profile: SectorProfile): Lens {
+  return { framework: "gri", overlay: profile.overlay }
+}
+
+/** The profile's KPIs with their values from the summary row; null when the report doesn't state one. */
+export function sectorKpis(summary: any, profile: SectorProfile): Array<{ label: string; value: string | null }> {
+  return profile.kpis.map((k) => {
+    const v = pick<string | number | null>(summary, k.keys, null)
+    if (v === null || v === "") return { label: k.label, value: null }
+    const unit = k.unitKeys ? pick<string>(summary, k.unitKeys, "") : ""
+    return { label: k.label, value: `${typeof v === "number" ? v.toLocaleString() : v}${unit ? ` ${unit}` : ""}` }
+  })
+}
+
+// Fewer same-sector peers than this and the full list is more useful
+const MIN_SECTOR_PEERS = 3
+
+/**
+ * Benchmark with `peers_country` / `peers_region` narrowed to the profile's
+ * sector. Each list is only narrowed when enough peers match; "general" keeps
+ * everything.
+ */
+export function sectorBenchmark(bench: any, profile: SectorProfile): any {
+  if (!bench || profile.id === "general") return bench
+  const narrow = (peers: any) => {
+    if (!Array.isArray(peers)) return peers
+    const same = peers.filter((p) => sectorFor(p?.sector).id === profile.id)
+    return same.length >= MIN_SECTOR_PEERS ? same : peers
+  }
+  return { ...bench, peers_country: narrow(bench.peers_country), peers_region: narrow(bench.peers_region) }
+}
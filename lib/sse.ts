@@ -0,0 +1,54 @@
+export type SseEvent = { event: string; data: string }
+
+/**
+ * Parses a Server-Sent Events byte stream into events. Works on both the server
+ * (upstream serving endpoint) and the browser (our own chat route).
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buf = ""
+  let cr = "" // a trailing "\r" held back until the next chunk shows whether "\n" follows
+
+  const parse = (block: string): SseEvent | null => {
+    let event = "message"
+    const data: string[] = []
+    for (const line of block.split("\n")) {
+      if (!line || line.startsWith(":")) continue
+      const idx = line.indexOf(":")
+      const field = idx === -1 ? line : line.slice(0, idx)
+      const value = idx === -1 ? "" : line.slice(idx + 1).replace(/^ /, "")
+      if (field === "event") event = value
+      else if (field === "data") data.push(value)
+    }
+    return data.length ? { event, data: data.join("\n") } : null
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      const text = cr + decoder.decode(value, { stream: true })
+      cr = text.endsWith("\r") ? "\r" : ""
+      buf += text.slice(0, text.length - cr.length).replace(/\r\n?/g, "\n")
+
+      let sep = buf.indexOf("\n\n")
+      while (sep !== -1) {
+        const ev = parse(buf.slice(0, sep))
+        buf = buf.slice(sep + 2)
+        if (ev) yield ev
+        sep = buf.indexOf("\n\n")
+      }
+    }
+    buf += (cr + decoder.decode()).replace(/\r\n?/g, "\n")
+    const tail = parse(buf.trim())
+    if (tail) yield tail
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+export function encodeSseEvent(data: unknown, event?: string): Uint8Array {
+  const head = event ? `event: ${event}\n` : ""
+  return new TextEncoder().encode(`${head}data: ${JSON.stringify(data)}\n\n`)
+}
@@ -0,0 +1,156 @@
+import type { ArtifactStorage, StorageEntry, StorageReadResult } from "./types"
+import { toDbfsUri } from "./paths"
+
+const READ_CHUNK = 1_000_000 // DBFS read/add-block cap at 1MB per call
+const PUT_INLINE_MAX = 1_000_000 // dbfs/put rejects inline contents above 1MB
+
+async function fetchWithRetry(
+  url: string,
+  options: RequestInit,
+  retries = 3
+): Promise<Response> {
+  for (let i = 0; i < retries; i++) {
+    try {
+      const r = await fetch(url, options)
+      // Don't retry client errors (404 = file doesn't exist)
+      if (r.ok || (r.status >= 400 && r.status < 500)) return r
+      if (i < retries - 1) {
+        await new Promise((res) => setTimeout(res, 1000 * (i + 1)))
+      } else {
+        return r
+      }
+    } catch (err) {
+      if (i === retries - 1) throw err
+      await new Promise((res) => setTimeout(res, 1000 * (i + 1)))
+    }
+  }
+  throw new Error("Max retries exceeded")
+}
+
+function isNotFound(status: number, body: string) {
+  return status === 404 || /RESOURCE_DOES_NOT_EXIST/.test(body)
+}
+
+export class DbfsStorage implements ArtifactStorage {
+  readonly kind = "dbfs" as const
+
+  constructor(private host: string, private token: string) {
+    this.host = host.replace(/\/+$/, "")
+  }
+
+  private headers(json = false): Record<string, string> {
+    return json
+      ? { Authorization: `Bearer ${this.token}`, "Content-Type": "application/json" }
+      : { Authorization: `Bearer ${this.token}` }
+  }
+
+  private async get(api: string, params: Record<string, string>) {
+    const q = new URLSearchParams(params)
+    return fetchWithRetry(`${this.host}/api/2.0/dbfs/${api}?${q.toString()}`, {
+      headers: this.headers(),
+      cache: "no-store",
+    })
+  }
+
+  private async post(api: string, body: unknown): Promise<any> {
+    const r = await fetchWithRetry(`${this.host}/api/2.0/dbfs/${api}`, {
+      method: "POST",
+      headers: this.headers(true),
+      body: JSON.stringify(body),
+    })
+    if (!r.ok) throw new Error(`DBFS ${api} failed ${r.status}: ${await r.text()}`)
+    return r.json().catch(() => ({}))
+  }
+
+  async read(path: string): Promise<StorageReadResult> {
+    const dbfsPath = toDbfsUri(path)
+    const chunks: Buffer[] = []
+    let offset = 0
+
+    try {
+      // Page through the file; DBFS caps each read at 1MB
+      while (true) {
+        const r = await this.get("read", {
+          path: dbfsPath,
+          offset: String(offset),
+          length: String(READ_CHUNK),
+        })
+
+        if (!r.ok) {
+          const t = await r.text()
+          if (isNotFound(r.status, t)) return { ok: false, status: 404, error: "File not found" }
+          return { ok: false, status: r.status, error: t.slice(0, 600) }
+        }
+
+        const j = (await r.json()) as { data?: string; bytes_read?: number }
+        const bytesRead = j?.bytes_read ?? 0
+        if (!j?.data || bytesRead === 0) break
+
+        chunks.push(Buffer.from(j.data, "base64"))
+        offset += bytesRead
+
+        // If we read less than requested, we've reached EOF
+        if (bytesRead < READ_CHUNK) break
+      }
+    } catch (err: any) {
+      return { ok: false, status: 500, error: err?.message || String(err) }
+    }
+
+    return { ok: true, data: Buffer.concat(chunks) }
+  }
+
+  async write(path: string, contents: string | Buffer): Promise<void> {
+    const dbfsPath = toDbfsUri(path)
+    const buf = typeof contents === "string" ? Buffer.from(contents, "utf8") : contents
+
+    if (buf.length <= PUT_INLINE_MAX) {
+      await this.post("put", { path: dbfsPath, overwrite: true, contents: buf.toString("base64") })
+      return
+    }
+
+    // Larger files go through the streaming create/add-block/close API
+    const { handle } = await this.post("create", { path: dbfsPath, overwrite: true })
+    try {
+      for (let off = 0; off < buf.length; off += READ_CHUNK) {
+        const block = buf.subarray(off, off + READ_CHUNK)
+        await this.post("add-block", { handle, data: block.toString("base64") })
+      }
+    } finally {
+      await this.post("close", { handle })
+    }
+  }
+
+  async list(dir: string): Promise<StorageEntry[]> {
+    const r = await this.get("list", { path: toDbfsUri(dir) })
+    if (!r.ok) {
+      const t = await r.text()
+      if (isNotFound(r.status, t)) return []
+      throw new Error(`DBFS list failed ${r.status}: ${t.slice(0, 300)}`)
+    }
+    const j = (await r.json()) as {
+      files?: Array<{ path: string; is_dir?: boolean; file_size?: number; modification_time?: number }>
+    }
+    return (j?.files || []).map((f) => ({
+      path: toDbfsUri(f.path),
+      isDir: Boolean(f.is_dir),
+      size: f.file_size ?? 0,
+      modifiedAt: f.modification_time ?? null,
+    }))
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const r = await this.get("get-status", { path: toDbfsUri(path) })
+    if (r.ok) return true
+    const t = await r.text()
+    if (isNotFound(r.status, t)) return false
+    throw new Error(`DBFS get-status failed ${r.status}: ${t.slice(0, 300)}`)
+  }
+
+  async delete(path: string): Promise<void> {
+    try {
+      await this.post("delete", { path: toDbfsUri(path), recursive: false })
+    } catch (err: any) {
+      if (!/ 404:|RESOURCE_DOES_NOT_EXIST/.test(String(err?.message))) throw err
+    }
+  }
+}
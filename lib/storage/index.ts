@@ -0,0 +1,75 @@
+import { DbfsStorage } from "./dbfs"
+import { LocalStorage } from "./local"
+import type { ArtifactStorage, StorageKind } from "./types"
+
+export type { ArtifactStorage, StorageEntry, StorageKind, StorageReadResult } from "./types"
+export { joinPath, toDbfsUri, toRootedPath } from "./paths"
+
+export type JsonReadResult =
+  | { ok: true; data: any }
+  | { ok: false; status: number; error: string }
+
+function need(name: string): string {
+  const v = process.env[name]
+  if (!v) throw new Error(`Missing env: ${name}`)
+  return v
+}
+
+/**
+ * Returns the storage backend chosen by ARTIFACT_STORAGE:
+ *   - "dbfs" (default): Databricks DBFS via DATABRICKS_HOST / DATABRICKS_TOKEN
+ *   - "local": files under ARTIFACT_LOCAL_DIR (default ./.artifacts)
+ */
+export function getStorage(): ArtifactStorage {
+  const kind = (process.env.ARTIFACT_STORAGE || "dbfs").toLowerCase() as StorageKind
+  if (kind === "local") {
+    return new LocalStorage(process.env.ARTIFACT_LOCAL_DIR || ".artifacts")
+  }
+  if (kind !== "dbfs") throw new Error(`Unknown ARTIFACT_STORAGE: ${kind}`)
+  return new DbfsStorage(need("DATABRICKS_HOST"), need("DATABRICKS_TOKEN"))
+}
+
+export async function readText(
+  storage: ArtifactStorage,
+  path: string
+): Promise<{ ok: true; text: string } | { ok: false; status: number; error: string }> {
+  const r = await storage.read(path)
+  if (!r.ok) return r
+  return { ok: true, text: r.data.toString("utf8") }
+}
+
+export async function readJSON(storage: ArtifactStorage, path: string): Promise<JsonReadResult> {
+  const r = await readText(storage, path)
+  if (!r.ok) return r
+  if (!r.text) return { ok: false, status: 404, error: "Empty file" }
+  try {
+    return { ok: true, data: JSON.parse(r.text) }
+  } catch (err: any) {
+    // Keep a strict pass-through policy; surface a concise error to caller.
+    return { ok: false, status: 502, error: `Artifact is not valid JSON at ${path}: ${String(err?.message || err)}` }
+  }
+}
+
+// Tail of the pending read-modify-write chain per path
+const fileLocks = new Map<string, Promise<unknown>>()
+
+/**
+ * Runs `fn` after every earlier call for the same `path` has settled, so
+ * overlapping read-modify-write updates of one file don't drop each other's
+ * changes. In-process only: it serialises requests served by this instance.
+ */
+export async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const prev = fileLocks.get(path) ?? Promise.resolve()
+  const run = prev.then(fn, fn)
+  const tail = run.catch(() => {})
+  fileLocks.set(path, tail)
+  try {
+    return await run
+  } finally {
+    if (fileLocks.get(path) === tail) fileLocks.delete(path)
+  }
+}
+
+export async function writeJSON(storage: ArtifactStorage, path: string, data: unknown): Promise<void> {
+  await storage.write(path, JSON.stringify(data))
+}
@@ -0,0 +1,76 @@
+import { promises as fs } from "node:fs"
+import nodePath from "node:path"
+import type { ArtifactStorage, StorageEntry, StorageReadResult } from "./types"
+import { toDbfsUri, toRootedPath } from "./paths"
+
+/**
+ * Mirrors the DBFS layout under a local directory, so "dbfs:/tmp/gap_analysis/x.json"
+ * lives at "<root>/tmp/gap_analysis/x.json". Lets the whole flow run against
+ * fixture artifacts without a Databricks workspace.
+ */
+export class LocalStorage implements ArtifactStorage {
+  readonly kind = "local" as const
+  private root: string
+
+  constructor(root: string) {
+    this.root = nodePath.resolve(root)
+  }
+
+  private resolve(path: string): string {
+    const full = nodePath.resolve(this.root, "." + toRootedPath(path))
+    if (full !== this.root && !full.startsWith(this.root + nodePath.sep)) {
+      throw new Error(`Path escapes storage root: ${path}`)
+    }
+    return full
+  }
+
+  async read(path: string): Promise<StorageReadResult> {
+    try {
+      return { ok: true, data: await fs.readFile(this.resolve(path)) }
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return { ok: false, status: 404, error: "File not found" }
+      return { ok: false, status: 500, error: err?.message || String(err) }
+    }
+  }
+
+  async write(path: string, contents: string | Buffer): Promise<void> {
+    const full = this.resolve(path)
+    await fs.mkdir(nodePath.dirname(full), { recursive: true })
+    await fs.writeFile(full, contents)
+  }
+
+  async list(dir: string): Promise<StorageEntry[]> {
+    const base = toRootedPath(dir)
+    let names: string[]
+    try {
+      names = await fs.readdir(this.resolve(dir))
+    } catch (err: any) {
+      if (err?.code === "ENOENT" || err?.code === "ENOTDIR") return []
+      throw err
+    }
+    const entries: StorageEntry[] = []
+    for (const name of names) {
+      const st = await fs.stat(nodePath.join(this.resolve(dir), name))
+      entries.push({
+        path: toDbfsUri(`${base}/${name}`),
+        isDir: st.isDirectory(),
+        size: st.isDirectory() ? 0 : st.size,
+        modifiedAt: st.mtimeMs,
+      })
+    }
+    return entries
+  }
+
+  async exists(path: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(path))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async delete(path: string): Promise<void> {
+    await fs.rm(this.resolve(path), { force: true })
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Normalizes any of "dbfs:/a/b", "/dbfs/a/b", "/a/b" or "a/b" to the
+ * slash-rooted form "/a/b" shared by all storage backends.
+ */
+export function toRootedPath(path: string): string {
+  let p = String(path || "").trim()
+  if (p.startsWith("dbfs:")) p = p.slice("dbfs:".length)
+  else if (p === "/dbfs" || p.startsWith("/dbfs/")) p = p.slice("/dbfs".length)
+  p = "/" + p.replace(/^\/+/, "")
+  return p.length > 1 ? p.replace(/\/+$/, "") : p
+}
+
+export function toDbfsUri(path: string): string {
+  return `dbfs:${toRootedPath(path)}`
+}
+
+export function joinPath(dir: string, name: string): string {
+  return `${dir.replace(/\/+$/, "")}/${name.replace(/^\/+/, "")}`
+}
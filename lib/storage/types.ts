@@ -0,0 +1,32 @@
+export type StorageKind = "dbfs" | "local"
+
+export type StorageReadResult =
+  | { ok: true; data: Buffer }
+  | { ok: false; status: number; error: string }
+
+export type StorageEntry = {
+  path: string
+  isDir: boolean
+  size: number
+  modifiedAt: number | null
+}
+
+/**
+ * Artifact storage used by every API route that reads or writes job artifacts
+ * (prediction batches, SBTi benchmarks, gap analyses).
+ *
+ * Paths are always given in DBFS form ("dbfs:/tmp/...", "/dbfs/tmp/..." or
+ * "/tmp/...") so the same env defaults work for every backend.
+ */
+export interface ArtifactStorage {
+  readonly kind: StorageKind
+  /** Reads the whole file. Missing files resolve to `{ ok: false, status: 404 }`. */
+  read(path: string): Promise<StorageReadResult>
+  /** Creates or overwrites the file, including any missing parent directories. */
+  write(path: string, contents: string | Buffer): Promise<void>
+  /** Lists direct children of a directory. A missing directory lists as empty. */
+  list(dir: string): Promise<StorageEntry[]>
+  exists(path: string): Promise<boolean>
+  /** Deletes a file. Deleting a missing file is not an error. */
+  delete(path: string): Promise<void>
+}
@@ -0,0 +1,108 @@
+import type { Scope3Summary } from "@/lib/scope3"
+
+/**
+ * Field mapping for the summary row in the invoke batch file. Column names
+ * vary between model versions, so every field accepts a few spellings.
+ */
+
+/** "1,234" → 1234; null for blanks and anything that isn't a number. */
+export function toNumber(v: unknown): number | null {
+  if (v === null || v === undefined) return null
+  const s = String(v).replace(/[, ]+/g, "")
+  if (!s) return null
+  const n = Number(s)
+  return Number.isFinite(n) ? n : null
+}
+
+export function formatNumber(n: number) {
+  if (!Number.isFinite(n)) return "n/a"
+  const abs = Math.abs(n)
+  if (abs >= 1_000_000_000) return (n / 1_000_000_000).toFixed(1) + "B"
+  if (abs >= 1_000_000) return (n / 1_000_000).toFixed(1) + "M"
+  if (abs >= 1_000) return (n / 1_000).toFixed(1) + "k"
+  return n.toLocaleString()
+}
+
+export function pick<T = any>(obj: any, keys: string[], def: any = undefined): T {
+  for (const k of keys) {
+    const val = obj?.[k]
+    if (val !== undefined && val !== null) return val as T
+  }
+  return def
+}
+
+/** The first of `keys` holding a number; blank or non-numeric values fall through to the next key. */
+export function pickNumber(obj: any, keys: string[]): number | null {
+  for (const k of keys) {
+    const n = toNumber(obj?.[k])
+    if (n !== null) return n
+  }
+  return null
+}
+
+// Spellings shared with lib/intensity and lib/peer-groups
+export const SCOPE1_KEYS = ["Scope1", "scope_1", "Scope 1"]
+export const SCOPE2_KEYS = ["Scope2", "scope_2", "Scope 2"]
+export const REVENUE_KEYS = ["total_revenue", "revenue", "annual_revenue"]
+export const EMPLOYEE_KEYS = ["total_employees", "employees", "num_employees"]
+
+const joined = (v: string | string[]) => (Array.isArray(v) ? v.join(", ") : v)
+
+/** `sector` replaces the extracted sector (manual override). */
+export function summaryCards(row: any, sector?: string | null): Array<{ label: string; value: any }> {
+  const s = row || {}
+  const revenue = pick<string | number>(s, REVENUE_KEYS, "")
+  return [
+    { label: "Company", value: pick<string>(s, ["company_name", "Company", "company"], "") },
+    { label: "Sector", value: sector || pick<string>(s, ["sector"], "") },
+    { label: "Country", value: pick<string>(s, ["main_country", "country"], "") },
+    { label: "Region", value: pick<string>(s, ["main_region", "region"], "") },
+    { label: "Year", value: pick<string | number>(s, ["year", "Year"], "") },
+    { label: "Employees", value: pick<string | number>(s, EMPLOYEE_KEYS, "") },
+    { label: "Revenue", value: typeof revenue === "number" ? `$${formatNumber(revenue)}` : revenue },
+    { label: "Framework", value: joined(pick<string | string[]>(s, ["framework"], "")) },
+    { label: "Future Framework", value: joined(pick<string | string[]>(s, ["future_framework", "futureFramework"], "")) },
+  ]
+}
+
+/** `scope3` (from lib/scope3) adds a Scope 3 line with category coverage. */
+export function summaryHighlights(row: any, scope3?: Scope3Summary | null): string[] {
+  const s = row || {}
+  const scope1Unit = pick<string>(s, ["Scope1_unit", "scope_1_unit", "Scope 1 unit"], "")
+  const scope2Unit = pick<string>(s, ["Scope2_unit", "scope_2_unit", "Scope 2 unit"], "")
+  const electricity = pick<string | number>(s, ["Electricity"], "")
+  const electricityU = pick<string>(s, ["Electricity_unit"], "")
+  const water = pick<string | number>(s, ["Water"], "")
+  const waterU = pick<string>(s, ["Water_unit"], "")
+  const sdgs = Array.isArray(s?.un_sdg) ? s.un_sdg.filter(Boolean) : []
+  const mats = Array.isArray(s?.materiality_topics) ? s.materiality_topics.filter(Boolean) : []
+
+  const bullets: string[] = []
+  const s1 = pickNumber(s, SCOPE1_KEYS)
+  const s2 = pickNumber(s, SCOPE2_KEYS)
+  if (s1 !== null) bullets.push(`Scope 1 ${s1.toLocaleString()}${scope1Unit ? ` ${scope1Unit}` : ""}`)
+  if (s2 !== null) bullets.push(`Scope 2 ${s2.toLocaleString()}${scope2Unit ? ` ${scope2Unit}` : ""}`)
+  if (scope3?.total != null) {
+    const reported = scope3.categories.filter((c) => c.status === "reported").length
+    bullets.push(
+      `Scope 3 ${scope3.total.toLocaleString()}${scope3.unit ? ` ${scope3.unit}` : ""}` +
+        ` (${reported} of 15 categories reported${scope3.totalDerived ? ", total summed from categories" : ""})`
+    )
+  }
+  if (electricity) bullets.push(`Electricity ${electricity}${electricityU ? " " + electricityU : ""}`)
+  if (water) bullets.push(`Water ${water}${waterU ? " " + waterU : ""}`)
+  if (sdgs.length) bullets.push(`UN SDGs ${sdgs.join(", ")}`)
+  if (mats.length) bullets.push(`Material topics ${mats.join(", ")}`)
+  return bullets
+}
+
+/** Scope 1 and 2 bars, plus Scope 3 when `scope3` has a total. */
+export function emissionsBars(row: any, scope3?: Scope3Summary | null): Array<{ label: string; value: number }> {
+  const s = row || {}
+  const bars = [
+    { label: "Scope 1", value: pickNumber(s, SCOPE1_KEYS) ?? 0 },
+    { label: "Scope 2", value: pickNumber(s, SCOPE2_KEYS) ?? 0 },
+  ]
+  if (scope3?.total != null) bars.push({ label: "Scope 3", value: scope3.total })
+  return bars
+}
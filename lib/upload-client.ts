@@ -0,0 +1,62 @@
+import type { Lens } from "@/lib/frameworks"
+import type { SectorId } from "@/lib/sectors"
+
+export type InvokeResult = {
+  ok: boolean
+  cached: boolean
+  pdfId: string
+  batchPath: string
+  runId: number | null
+  // The record's saved view settings (see AnalysisRecord)
+  lens?: Lens | null
+  sector?: SectorId | null
+  peerGroup?: string | null
+  // Present when `cached`: artifacts from a previous analysis of the same report
+  summary?: Record<string, any> | null
+  benchmark?: any
+  gap?: any
+}
+
+export type UploadProgress = { loaded: number; total: number }
+
+/** Server-side upload limit (MAX_UPLOAD_MB), or null if the route can't say. */
+export async function fetchUploadLimit(): Promise<number | null> {
+  try {
+    const r = await fetch("/api/databricks/invoke", { cache: "no-store" })
+    if (!r.ok) return null
+    const j = await r.json()
+    return Number(j?.maxUploadBytes) || null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Posts the PDF to /api/databricks/invoke as multipart/form-data. Uses XHR
+ * rather than fetch because only XHR reports upload progress; `onProgress`
+ * gets real byte counts as the file is sent.
+ */
+export function uploadForAnalysis(
+  file: File,
+  opts: { force?: boolean; onProgress?: (p: UploadProgress) => void } = {}
+): Promise<InvokeResult> {
+  return new Promise((resolve, reject) => {
+    const form = new FormData()
+    form.append("file", file, file.name)
+    if (opts.force) form.append("force", "true")
+
+    const xhr = new XMLHttpRequest()
+    xhr.open("POST", "/api/databricks/invoke")
+    xhr.responseType = "json"
+    xhr.upload.onprogress = (e) => {
+      opts.onProgress?.({ loaded: e.loaded, total: e.lengthComputable ? e.total : file.size })
+    }
+    xhr.onload = () => {
+      const j = xhr.response
+      if (xhr.status >= 200 && xhr.status < 300 && j) return resolve(j as InvokeResult)
+      reject(new Error(j?.error || `Invoke failed ${xhr.status}`))
+    }
+    xhr.onerror = () => reject(new Error("Upload failed: network error"))
+    xhr.send(form)
+  })
+}
@@ -0,0 +1,76 @@
+import Busboy from "busboy"
+import crypto from "node:crypto"
+import { createWriteStream, promises as fs } from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { Readable } from "node:stream"
+import { pipeline } from "node:stream/promises"
+
+export type SpooledFile = {
+  path: string // temp file; the caller removes it with `discardSpooled`
+  name: string | null
+  size: number
+  fields: Record<string, string> // the form's other (text) fields
+}
+
+export type SpoolResult = { ok: true; file: SpooledFile } | { ok: false; reason: "missing" | "too-large" }
+
+/**
+ * Streams one file part of a `multipart/form-data` request to a temp file as
+ * it arrives, so the upload is never held in memory as a whole. Stops at
+ * `maxBytes` and reports `too-large`.
+ */
+export async function spoolMultipart(req: Request, field: string, maxBytes: number): Promise<SpoolResult> {
+  if (!req.body) return { ok: false, reason: "missing" }
+  const bb = Busboy({
+    headers: { "content-type": req.headers.get("content-type") || "" },
+    limits: { files: 1, fileSize: maxBytes },
+  })
+  const fields: Record<string, string> = {}
+  // Set from the "file" handler; a holder so the type isn't narrowed to its initial null
+  const part: { written: Promise<{ path: string; name: string | null; truncated: boolean }> | null } = { written: null }
+
+  bb.on("field", (name, value) => {
+    fields[name] = value
+  })
+  bb.on("file", (name, stream, info) => {
+    if (name !== field || part.written) {
+      stream.resume()
+      return
+    }
+    const tmp = path.join(os.tmpdir(), `esgsmart_upload_${crypto.randomUUID()}.pdf`)
+    let truncated = false
+    stream.on("limit", () => {
+      truncated = true
+    })
+    part.written = pipeline(stream, createWriteStream(tmp)).then(
+      () => ({ path: tmp, name: info.filename || null, truncated }),
+      async (err) => {
+        await fs.rm(tmp, { force: true })
+        throw err
+      }
+    )
+    // Awaited below; this only keeps an early failure from being reported as unhandled
+    part.written.catch(() => {})
+  })
+
+  try {
+    await pipeline(Readable.fromWeb(req.body as any), bb)
+  } catch (err) {
+    await discardSpooled((await part.written?.catch(() => null))?.path)
+    throw err
+  }
+  if (!part.written) return { ok: false, reason: "missing" }
+  const out = await part.written
+  if (out.truncated) {
+    await discardSpooled(out.path)
+    return { ok: false, reason: "too-large" }
+  }
+  const { size } = await fs.stat(out.path)
+  return { ok: true, file: { path: out.path, name: out.name, size, fields } }
+}
+
+/** Removes a spooled temp file; a missing path is not an error. */
+export async function discardSpooled(file: string | null | undefined): Promise<void> {
+  if (file) await fs.rm(file, { force: true })
+}
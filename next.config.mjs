@@ -9,9 +9,10 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },experimental: {
-    serverComponentsExternalPackages: ["pdf-parse", "pdfjs-dist"],
+    serverComponentsExternalPackages: ["pdf-parse", "pdfjs-dist", "exceljs"],
     outputFileTracingIncludes: {
       "/app/api/databricks/invoke/route": ["./lib/pdf-to-text.cjs"],
+      "/app/api/databricks/export/[pdfId]/route": ["./public/ESGsmart.png", "./public/cropped-ESGpedia-favicon-2024-final-32x32.png"],
     },
   }
 }
@@ -0,0 +1,9 @@
+import "react"
+
+// Folder selection on <input type="file">: non-standard, but supported by Chromium, Firefox and Safari
+declare module "react" {
+  interface InputHTMLAttributes<T> {
+    webkitdirectory?: string
+    directory?: string
+  }
+}